@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ASSIST_ERROR_STATUS, AssistErrorCode, AssistRequest, validateAssistRequest } from '../../../lib/assist'
+import { assistBackendFromEnv } from '../../../lib/assist-backend'
+import { authenticatorFromEnv } from '../../../lib/token-auth'
+import { RateLimiter } from '../../../lib/rate-limit'
+import { allowedOriginsFromEnv, clientIp, envNumber, isAllowedOrigin, trustProxyFromEnv } from '../../../lib/request-guard'
+
+// Translation, summaries and action items over final transcript text. Every request
+// is a billable completion, so it goes through the same checks as /api/openai-token:
+// origin -> per-IP rate limit -> authentication -> per-user rate limit -> validation
+
+const authenticator = authenticatorFromEnv()
+const backend = assistBackendFromEnv()
+
+// Live translation sends one request per final segment, so the limits are higher than for tokens
+const ipLimiter = new RateLimiter(envNumber('ASSIST_RATE_LIMIT_PER_IP', 120), 60 * 1000)
+const userLimiter = new RateLimiter(envNumber('ASSIST_RATE_LIMIT_PER_USER', 2000), 60 * 60 * 1000)
+
+const allowedOrigins = allowedOriginsFromEnv()
+const trustProxy = trustProxyFromEnv()
+
+function errorResponse(code: AssistErrorCode, error: string, retryAfterSeconds?: number) {
+  return NextResponse.json(
+    { code, error, retryAfterSeconds },
+    {
+      status: ASSIST_ERROR_STATUS[code],
+      headers: retryAfterSeconds ? { 'Retry-After': String(retryAfterSeconds) } : undefined,
+    }
+  )
+}
+
+async function run(request: AssistRequest) {
+  if (!backend) {
+    throw new Error('No assist backend')
+  }
+
+  switch (request.task) {
+    case 'translate':
+      return { translation: await backend.translate(request.text, request.targetLanguage, request.context) }
+    case 'summarize':
+      return { summary: await backend.summarize(request.transcript, request.previousSummary) }
+    case 'action_items':
+      return { items: await backend.actionItems(request.transcript) }
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    if (!isAllowedOrigin(request, allowedOrigins, trustProxy)) {
+      return errorResponse('forbidden_origin', 'Origin not allowed')
+    }
+
+    // Before authentication, so failed attempts count too and a secret can't be guessed at speed
+    const ip = clientIp(request, trustProxy)
+    if (ip === null) {
+      console.error('No client IP to rate-limit on - set TRUST_PROXY=true behind a proxy that sets X-Forwarded-For')
+      return errorResponse('no_client_ip', 'Client address unavailable')
+    }
+    const ipLimit = await ipLimiter.check(`ip:${ip}`)
+    if (!ipLimit.allowed) {
+      return errorResponse('rate_limited', 'Too many assist requests from this address', ipLimit.retryAfterSeconds)
+    }
+
+    const auth = await authenticator.authenticate(request)
+    if (!auth.ok) {
+      return errorResponse('unauthorized', 'Authentication required')
+    }
+
+    if (auth.userId) {
+      const userLimit = await userLimiter.check(`user:${auth.userId}`)
+      if (!userLimit.allowed) {
+        return errorResponse('rate_limited', 'Too many assist requests for this user', userLimit.retryAfterSeconds)
+      }
+    }
+
+    if (!backend) {
+      return errorResponse('not_configured', 'No assist backend configured')
+    }
+
+    const body = await request.json().catch(() => null)
+    const errors = validateAssistRequest(body)
+    if (errors.length > 0) {
+      return errorResponse('invalid_request', errors.join('; '))
+    }
+
+    try {
+      return NextResponse.json(await run(body as AssistRequest))
+    } catch (error) {
+      // The details stay in the server log - upstream messages can describe our account
+      console.error('Assist backend error:', error)
+      return errorResponse('upstream_error', 'Model request failed')
+    }
+
+  } catch (error) {
+    console.error('Assist request error:', error)
+    return errorResponse('internal_error', 'Internal server error')
+  }
+}
@@ -1,14 +1,82 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { REALTIME_MODEL, isPlainObject, toRealtimeSession, validateSessionConfig, withDefaults } from '../../../lib/session-config'
+import { TOKEN_ERROR_STATUS, TokenErrorCode } from '../../../lib/token-errors'
+import { authenticatorFromEnv } from '../../../lib/token-auth'
+import { RateLimiter } from '../../../lib/rate-limit'
+import { allowedOriginsFromEnv, clientIp, envNumber, isAllowedOrigin, trustProxyFromEnv } from '../../../lib/request-guard'
+
+// Every token mints a billable OpenAI session, so requests are checked in order:
+// origin -> per-IP rate limit -> authentication -> per-user rate limit -> config validation
+
+const authenticator = authenticatorFromEnv()
+
+const ipLimiter = new RateLimiter(envNumber('TOKEN_RATE_LIMIT_PER_IP', 10), 60 * 1000)
+const userLimiter = new RateLimiter(envNumber('TOKEN_RATE_LIMIT_PER_USER', 30), 60 * 60 * 1000)
+
+const allowedOrigins = allowedOriginsFromEnv()
+const trustProxy = trustProxyFromEnv()
+
+function errorResponse(code: TokenErrorCode, error: string, retryAfterSeconds?: number) {
+  return NextResponse.json(
+    { code, error, retryAfterSeconds },
+    {
+      status: TOKEN_ERROR_STATUS[code],
+      headers: retryAfterSeconds ? { 'Retry-After': String(retryAfterSeconds) } : undefined,
+    }
+  )
+}
 
 export async function POST(request: NextRequest) {
   try {
+    if (!isAllowedOrigin(request, allowedOrigins, trustProxy)) {
+      return errorResponse('forbidden_origin', 'Origin not allowed')
+    }
+
+    // Before authentication, so failed attempts count too and a secret can't be guessed at speed
+    const ip = clientIp(request, trustProxy)
+    if (ip === null) {
+      console.error('No client IP to rate-limit on - set TRUST_PROXY=true behind a proxy that sets X-Forwarded-For')
+      return errorResponse('no_client_ip', 'Client address unavailable')
+    }
+    const ipLimit = await ipLimiter.check(`ip:${ip}`)
+    if (!ipLimit.allowed) {
+      return errorResponse('rate_limited', 'Too many token requests from this address', ipLimit.retryAfterSeconds)
+    }
+
+    const auth = await authenticator.authenticate(request)
+    if (!auth.ok) {
+      return errorResponse('unauthorized', 'Authentication required')
+    }
+
+    if (auth.userId) {
+      const userLimit = await userLimiter.check(`user:${auth.userId}`)
+      if (!userLimit.allowed) {
+        return errorResponse('rate_limited', 'Too many token requests for this user', userLimit.retryAfterSeconds)
+      }
+    }
+
     const openaiApiKey = process.env.OPENAI_API_KEY
 
     if (!openaiApiKey) {
-      return NextResponse.json(
-        { error: 'OpenAI API key not configured' },
-        { status: 500 }
-      )
+      return errorResponse('not_configured', 'OpenAI API key not configured')
+    }
+
+    // Session settings from the client; a missing body or config means defaults.
+    // Anything else must be an object - spreading a string or array would slip past validation
+    const body = await request.json().catch(() => ({}))
+    const rawConfig = body?.config
+    if (rawConfig !== undefined && rawConfig !== null && !isPlainObject(rawConfig)) {
+      return errorResponse('invalid_config', 'config must be an object')
+    }
+    const config = withDefaults(rawConfig)
+    const commitMode = body?.commitMode ?? 'server_vad'
+
+    const errors = validateSessionConfig(config)
+    if (commitMode !== 'server_vad' && commitMode !== 'manual') {
+      errors.push('commitMode must be server_vad or manual')
+    }
+    if (errors.length > 0) {
+      return errorResponse('invalid_config', errors.join('; '))
     }
 
     // Create a session for OpenAI Realtime API
@@ -19,26 +87,23 @@ export async function POST(request: NextRequest) {
         'Content-Type': 'application/json',
       },
       body: JSON.stringify({
-        model: 'gpt-4o-realtime-preview',
-        modalities: ['text'],
+        model: REALTIME_MODEL,
+        ...toRealtimeSession(config, commitMode),
       }),
     })
 
     if (!response.ok) {
-      let errorMessage = 'Failed to create OpenAI session'
+      // The details stay in the server log - upstream messages can describe our account.
+      // The body can only be read once, so take it as text and parse that
+      const errorText = await response.text()
+      let errorDetail: unknown = errorText
       try {
-        const errorData = await response.json()
-        errorMessage = errorData.error?.message || errorData.error || errorMessage
-        console.error('OpenAI session creation failed:', errorData)
+        errorDetail = JSON.parse(errorText)
       } catch {
-        const errorText = await response.text()
-        console.error('OpenAI session creation failed:', errorText)
-        errorMessage = errorText || errorMessage
+        // Not JSON - log the raw text
       }
-      return NextResponse.json(
-        { error: errorMessage },
-        { status: response.status }
-      )
+      console.error(`OpenAI session creation failed (${response.status}):`, errorDetail)
+      return errorResponse(response.status === 401 ? 'upstream_auth' : 'upstream_error', 'Failed to create OpenAI session')
     }
 
     const sessionData = await response.json()
@@ -49,9 +114,6 @@ export async function POST(request: NextRequest) {
 
   } catch (error) {
     console.error('Token generation error:', error)
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    )
+    return errorResponse('internal_error', 'Internal server error')
   }
 }
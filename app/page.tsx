@@ -1,24 +1,180 @@
 'use client'
 
-import { useState, useCallback, useRef, useEffect } from 'react'
-import { AudioManager } from '../lib/audio'
-import { OpenAIRealtimeSTT } from '../lib/stt'
+import { useState, useCallback, useRef, useEffect, useMemo, useSyncExternalStore } from 'react'
+import { AudioManager, InputDevice, InputSwitchReason } from '../lib/audio'
+import { loadPreference, savePreference } from '../lib/preferences'
+import { LevelMonitor, LevelReading, LevelWarning } from '../lib/meter'
+import LevelMeter from '../components/LevelMeter'
+import ExportMenu from '../components/ExportMenu'
+import SessionSidebar from '../components/SessionSidebar'
+import SettingsPanel from '../components/SettingsPanel'
+import DiagnosticsPanel from '../components/DiagnosticsPanel'
+import TranscriptView, { SearchMatch, TranscriptLayout } from '../components/TranscriptView'
+import FindReplaceBar from '../components/FindReplaceBar'
+import RulesPanel from '../components/RulesPanel'
+import AssistPane from '../components/AssistPane'
+import SourcesPanel from '../components/SourcesPanel'
+import { createSTTProvider, CommitMode, DEFAULT_STT_PROVIDER, STTDiagnostic, STTProvider, STTStats } from '../lib/provider'
+import { VoiceActivityGate, VADStats, DEFAULT_VAD_OPTIONS } from '../lib/vad'
+import { SessionConfig, DEFAULT_SESSION_CONFIG, validateSessionConfig, withDefaults } from '../lib/session-config'
+import { TranscriptStore, TranscriptSegment, formatOffset } from '../lib/transcript'
+import { findRanges, searchPattern } from '../lib/transcript-search'
+import { AssistStore } from '../lib/assist-client'
+import { CaptureMode, CaptureSource, DEFAULT_CAPTURE_SOURCES, MultiSourceCapture, validateCaptureSources } from '../lib/multi-source'
+import { MultiSourceSTT, sourceOfItem } from '../lib/multi-stt'
+import { DEFAULT_RULE_SET, RuleSet, applyRules, validateRuleSet, withGlossaryPrompt, withRuleDefaults } from '../lib/rules'
+import { Autosaver, SessionHistory, SessionRecord, createSessionId } from '../lib/history'
+import { ChunkClock, OffsetAnchor, OffsetMap, SessionAudio, WavRecorder, recoverRecording } from '../lib/recorder'
+import { FileSource, FILE_SPEEDS, DEFAULT_TAIL_SILENCE_MS } from '../lib/file-source'
+import { CONNECTION_STATE_LABELS, ConnectionStateMachine, isStarting } from '../lib/connection-state'
+
+// After a file has been sent, wait this long for the last turn to be picked up,
+// then up to FINALS_TIMEOUT_MS for outstanding partials to be finalized
+const FINALS_SETTLE_MS = 1500
+const FINALS_TIMEOUT_MS = 10000
+
+// Protocol diagnostics kept for the diagnostics panel
+const MAX_DIAGNOSTICS = 20
+
+// Silence sent on pause, beyond server VAD's silence window, so the turn in progress ends
+const PAUSE_TAIL_PADDING_MS = 300
+
+// Hold to talk while push-to-talk is on
+const PUSH_TO_TALK_KEY = ' '
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
 
 export default function Home() {
   const [isRecording, setIsRecording] = useState(false)
-  const [finalTranscript, setFinalTranscript] = useState('')
-  const [partialTranscript, setPartialTranscript] = useState('')
+  const [transcript] = useState(() => new TranscriptStore())
+  const segments = useSyncExternalStore(transcript.subscribe, transcript.getSnapshot, transcript.getSnapshot)
+  const [assist] = useState(() => new AssistStore())
+  const assistSnapshot = useSyncExternalStore(assist.subscribe, assist.getSnapshot, assist.getSnapshot)
   const [error, setError] = useState<string | null>(null)
-  const [connectionStatus, setConnectionStatus] = useState<'disconnected' | 'connecting' | 'connected'>('disconnected')
+  const [connection] = useState(() => new ConnectionStateMachine())
+  const connectionSnapshot = useSyncExternalStore(connection.subscribe, connection.getSnapshot, connection.getSnapshot)
+  const connectionState = connectionSnapshot.state
+  const isBusy = isStarting(connectionState) || connectionState === 'stopping'
+  const [protocolDiagnostics, setProtocolDiagnostics] = useState<STTDiagnostic[]>([])
+  const [streamStats, setStreamStats] = useState<STTStats | null>(null)
+  const [inputDevices, setInputDevices] = useState<InputDevice[]>([])
+  // '' selects the system default input
+  const [selectedDeviceId, setSelectedDeviceId] = useState('')
+  const [notice, setNotice] = useState<string | null>(null)
+  const [inputLevel, setInputLevel] = useState<LevelReading | null>(null)
+  const [levelWarning, setLevelWarning] = useState<LevelWarning | null>(null)
+  const [vadEnabled, setVadEnabled] = useState(false)
+  const [vadDrivesCommits, setVadDrivesCommits] = useState(false)
+  const [vadStats, setVadStats] = useState<VADStats | null>(null)
+  const [recordedAt, setRecordedAt] = useState<number | null>(null)
+  const [sessions, setSessions] = useState<SessionRecord[]>([])
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(null)
+  const [showHistory, setShowHistory] = useState(false)
+  const [historyQuery, setHistoryQuery] = useState('')
+  // Bumped after every write so the sidebar list reloads
+  const [historyVersion, setHistoryVersion] = useState(0)
+  const [recoverableSession, setRecoverableSession] = useState<SessionRecord | null>(null)
+  const [recordAudio, setRecordAudio] = useState(false)
+  const [sessionAudio, setSessionAudio] = useState<SessionAudio | null>(null)
+  const [audioUrl, setAudioUrl] = useState<string | null>(null)
+  const [playingSegmentId, setPlayingSegmentId] = useState<string | null>(null)
+  const [fileSpeed, setFileSpeed] = useState(1)
+  const [sessionConfig, setSessionConfig] = useState<SessionConfig>(DEFAULT_SESSION_CONFIG)
+  const [showSettings, setShowSettings] = useState(false)
+  const [fileProgress, setFileProgress] = useState<{ name: string; processedMs: number; durationMs: number } | null>(null)
+  const [isPaused, setIsPaused] = useState(false)
+  const [pushToTalk, setPushToTalk] = useState(false)
+  const [showFind, setShowFind] = useState(false)
+  const [findQuery, setFindQuery] = useState('')
+  const [replacement, setReplacement] = useState('')
+  const [findCaseSensitive, setFindCaseSensitive] = useState(false)
+  const [activeMatchIndex, setActiveMatchIndex] = useState(0)
+  const [ruleSet, setRuleSet] = useState<RuleSet>(DEFAULT_RULE_SET)
+  const [showRules, setShowRules] = useState(false)
+  const [showAssist, setShowAssist] = useState(false)
+  const [assistLanguage, setAssistLanguage] = useState('es')
+  const [captureMode, setCaptureMode] = useState<CaptureMode>('single')
+  const [captureSources, setCaptureSources] = useState<CaptureSource[]>(DEFAULT_CAPTURE_SOURCES)
+  const [transcriptLayout, setTranscriptLayout] = useState<TranscriptLayout>('text')
+  const isMultiSource = captureMode === 'multi'
 
   const audioManagerRef = useRef<AudioManager | null>(null)
-  const sttClientRef = useRef<OpenAIRealtimeSTT | null>(null)
+  const sttClientRef = useRef<STTProvider | null>(null)
+  const levelMonitorRef = useRef<LevelMonitor | null>(null)
+  const vadRef = useRef<VoiceActivityGate | null>(null)
+  const historyRef = useRef<SessionHistory | null>(null)
+  // The session being recorded or viewed; autosaves write its latest state
+  const sessionRef = useRef<SessionRecord | null>(null)
+  const autosaverRef = useRef<Autosaver | null>(null)
+  // Captured vs. sent audio while recording from the mic - local VAD leaves silence unsent
+  const captureClockRef = useRef<ChunkClock | null>(null)
+  const offsetMapRef = useRef<OffsetMap | null>(null)
+  const audioElementRef = useRef<HTMLAudioElement | null>(null)
+  // Recording time (s) at which segment playback pauses
+  const playUntilRef = useRef<number | null>(null)
+  const fileSourceRef = useRef<FileSource | null>(null)
+  const fileInputRef = useRef<HTMLInputElement | null>(null)
+  // Multi-source capture, in place of audioManagerRef's single mic
+  const multiCaptureRef = useRef<MultiSourceCapture | null>(null)
+  // Speaker name by source ID, fixed when a multi-source recording starts
+  const speakersRef = useRef<{ [sourceId: string]: string }>({})
+  // Read by the final-transcript handler so rule edits apply mid-session
+  const ruleSetRef = useRef<RuleSet>(DEFAULT_RULE_SET)
+  // Transcript marker for the pause in progress
+  const pauseMarkerRef = useRef<string | null>(null)
 
   // Initialize components on mount
   useEffect(() => {
-    audioManagerRef.current = new AudioManager()
+    levelMonitorRef.current = new LevelMonitor({
+      onLevel: setInputLevel,
+      onWarningChange: setLevelWarning,
+    })
+
+    audioManagerRef.current = new AudioManager({
+      onInputSwitched: (device: InputDevice, reason: InputSwitchReason) => {
+        if (reason === 'lost') {
+          setNotice(`Microphone disconnected - switched to ${device.label}`)
+        } else if (reason === 'restored') {
+          setNotice(`Switched back to ${device.label}`)
+        }
+      },
+      onInputError: (message: string) => {
+        setError(`Microphone error: ${message}`)
+      },
+      onLevel: (level) => {
+        levelMonitorRef.current?.push(level)
+      },
+    }, connection)
+
+    setSelectedDeviceId(loadPreference('inputDeviceId', ''))
+    setVadEnabled(loadPreference('localVad', false))
+    setVadDrivesCommits(loadPreference('localVadCommits', false))
+    setRecordAudio(loadPreference('recordAudio', false))
+    setFileSpeed(loadPreference('fileSpeed', 1))
+    setPushToTalk(loadPreference('pushToTalk', false))
+    setSessionConfig(withDefaults(loadPreference<Partial<SessionConfig> | null>('sessionConfig', null)))
+    setShowAssist(loadPreference('assistPane', false))
+    setAssistLanguage(loadPreference('assistLanguage', 'es'))
+    setCaptureMode(loadPreference<CaptureMode>('captureMode', 'single'))
+    setCaptureSources(loadPreference('captureSources', DEFAULT_CAPTURE_SOURCES))
+    setTranscriptLayout(loadPreference<TranscriptLayout>('transcriptLayout', 'text'))
+    const savedRules = withRuleDefaults(loadPreference<Partial<RuleSet> | null>('rules', null))
+    if (validateRuleSet(savedRules).length === 0) {
+      setRuleSet(savedRules)
+      ruleSetRef.current = savedRules
+    }
+
+    const refreshDevices = () => {
+      AudioManager.listInputDevices().then(setInputDevices).catch(() => setInputDevices([]))
+    }
+    refreshDevices()
+    navigator.mediaDevices?.addEventListener('devicechange', refreshDevices)
 
     const handleBeforeUnload = () => {
+      // Best effort - the throttled autosave has already stored all but the last second
+      autosaverRef.current?.flush()
       if (audioManagerRef.current) {
         audioManagerRef.current.cleanup()
       }
@@ -30,6 +186,7 @@ export default function Home() {
     window.addEventListener('beforeunload', handleBeforeUnload)
 
     return () => {
+      navigator.mediaDevices?.removeEventListener('devicechange', refreshDevices)
       window.removeEventListener('beforeunload', handleBeforeUnload)
       if (audioManagerRef.current) {
         audioManagerRef.current.cleanup()
@@ -38,30 +195,577 @@ export default function Home() {
         sttClientRef.current.disconnect()
       }
     }
-  }, [])
+  }, [connection])
 
-  const handlePartialTranscript = useCallback((text: string) => {
-    setPartialTranscript(text)
-  }, [])
+  // Open session history and offer to restore a recording that never got a Stop
+  useEffect(() => {
+    let isMounted = true
+
+    autosaverRef.current = new Autosaver(async () => {
+      const record = sessionRef.current
+      if (!record || !historyRef.current) {
+        return
+      }
+
+      sessionRef.current = {
+        ...record,
+        segments: transcript.getSnapshot().slice(),
+        offsets: offsetMapRef.current ? offsetMapRef.current.toJSON() : record.offsets,
+      }
+      await historyRef.current.put(sessionRef.current)
+      setHistoryVersion(v => v + 1)
+    })
+
+    SessionHistory.open()
+      .then(async (history) => {
+        if (!isMounted) {
+          return
+        }
+        historyRef.current = history
+        setRecoverableSession(await history.findUnfinished())
+        setHistoryVersion(v => v + 1)
+      })
+      .catch((err) => {
+        console.error('Session history unavailable:', err)
+      })
+
+    return () => {
+      isMounted = false
+      autosaverRef.current?.cancel()
+    }
+  }, [transcript])
+
+  useEffect(() => {
+    if (!showHistory || !historyRef.current) {
+      return
+    }
+
+    let isCurrent = true
+    historyRef.current.search(historyQuery)
+      .then((results) => {
+        if (isCurrent) {
+          setSessions(results)
+        }
+      })
+      .catch((err) => console.error('Failed to load sessions:', err))
+
+    return () => {
+      isCurrent = false
+    }
+  }, [showHistory, historyQuery, historyVersion])
+
+  // Object URL for the session's recording, released when it changes
+  useEffect(() => {
+    if (!sessionAudio) {
+      setAudioUrl(null)
+      return
+    }
+
+    const url = URL.createObjectURL(sessionAudio.blob)
+    setAudioUrl(url)
+    setPlayingSegmentId(null)
+    return () => URL.revokeObjectURL(url)
+  }, [sessionAudio])
+
+  // Save while recording, at most once a second
+  useEffect(() => {
+    if (isRecording) {
+      autosaverRef.current?.schedule()
+    }
+  }, [isRecording, segments])
+
+  // Sample outgoing message counters once a second while recording
+  useEffect(() => {
+    if (!isRecording) {
+      return
+    }
 
-  const handleFinalTranscript = useCallback((text: string) => {
-    setFinalTranscript(prev => prev + text + ' ')
-    setPartialTranscript('')
+    const interval = setInterval(() => {
+      if (sttClientRef.current) {
+        setStreamStats(sttClientRef.current.getStats())
+      }
+      if (vadRef.current) {
+        setVadStats(vadRef.current.getStats())
+      }
+    }, 1000)
+
+    return () => clearInterval(interval)
+  }, [isRecording])
+
+  // Multi-source item IDs carry their source (see MultiSourceSTT); others have no speaker
+  const labelSpeaker = useCallback((itemId: string) => {
+    const sourceId = sourceOfItem(itemId)
+    const speaker = sourceId !== null ? speakersRef.current[sourceId] : undefined
+    if (speaker) {
+      transcript.setSpeaker(itemId, speaker)
+    }
+  }, [transcript])
+
+  const handlePartialTranscript = useCallback((text: string, itemId: string) => {
+    transcript.setPartial(itemId, text)
+    labelSpeaker(itemId)
+  }, [transcript, labelSpeaker])
+
+  // Rules go in as an edit on top of the raw final, so the model's text stays as
+  // originalText and can be reverted. A correction made before the final arrived wins
+  const handleFinalTranscript = useCallback((text: string, itemId: string) => {
+    transcript.finalize(itemId, text)
+    const segment = transcript.getSnapshot().find(item => item.id === itemId)
+    if (segment && segment.originalText === undefined) {
+      transcript.edit(itemId, applyRules(text, ruleSetRef.current))
+    }
+    labelSpeaker(itemId)
+  }, [transcript, labelSpeaker])
+
+  const handleSpeechStart = useCallback((itemId: string, audioStartMs: number) => {
+    transcript.setTiming(itemId, { audioStartMs })
+    labelSpeaker(itemId)
+  }, [transcript, labelSpeaker])
+
+  const handleSpeechEnd = useCallback((itemId: string, audioEndMs: number) => {
+    transcript.setTiming(itemId, { audioEndMs })
+  }, [transcript])
+
+  // Move a stopped recording into its session record as one WAV, then drop the spooled blocks
+  const attachRecording = useCallback(async (id: string, recorder: WavRecorder, offsets: OffsetAnchor[]) => {
+    const audio: SessionAudio = { blob: await recorder.toBlob(), durationMs: recorder.durationMs, offsets }
+    const history = historyRef.current
+
+    let record = sessionRef.current?.id === id ? sessionRef.current : null
+    if (record) {
+      record = { ...record, audio, recordingSampleRate: undefined }
+      sessionRef.current = record
+      setSessionAudio(audio)
+    } else if (history) {
+      const saved = await history.get(id)
+      record = saved ? { ...saved, audio, recordingSampleRate: undefined } : null
+    }
+
+    if (history && record) {
+      await history.put(record)
+      await history.deleteAudio(id)
+      setHistoryVersion(v => v + 1)
+    }
   }, [])
 
+  // Close out the current session record - stoppedAt marks it as not needing recovery
+  const finishSession = useCallback(() => {
+    const record = sessionRef.current
+    if (!record || record.stoppedAt !== null) {
+      return
+    }
+
+    const recorder = audioManagerRef.current?.stopRecording()
+    let audio: SessionAudio | undefined
+    if (recorder && recorder.durationMs > 0 && offsetMapRef.current) {
+      // Read back from the spool - attached once it's assembled
+      attachRecording(record.id, recorder, offsetMapRef.current.toJSON())
+        .catch((err) => console.error('Failed to save recording:', err))
+    } else if (fileSourceRef.current) {
+      // A transcribed file is its own recording, on the same timeline as the transcript
+      audio = {
+        blob: fileSourceRef.current.file,
+        durationMs: fileSourceRef.current.durationMs,
+        offsets: [],
+      }
+    }
+    if (audio) {
+      setSessionAudio(audio)
+    }
+    const offsets = offsetMapRef.current ? offsetMapRef.current.toJSON() : record.offsets
+    captureClockRef.current = null
+    offsetMapRef.current = null
+
+    sessionRef.current = { ...record, stoppedAt: Date.now(), audio, offsets }
+    autosaverRef.current?.flush()
+  }, [attachRecording])
+
+  // Close out the record of a session that failed, so it isn't offered for recovery:
+  // finished if anything was transcribed, else deleted. The autosaver skips a cleared
+  // record, and a save already queued runs before the delete
+  const abandonSession = useCallback(() => {
+    const record = sessionRef.current
+    if (!record || record.stoppedAt !== null) {
+      return
+    }
+    if (transcript.getSnapshot().length > 0) {
+      finishSession()
+      return
+    }
+
+    audioManagerRef.current?.stopRecording()
+    autosaverRef.current?.cancel()
+    sessionRef.current = null
+    captureClockRef.current = null
+    offsetMapRef.current = null
+    setActiveSessionId(null)
+    historyRef.current?.delete(record.id)
+      .then(() => setHistoryVersion(v => v + 1))
+      .catch((err) => console.error('Failed to discard session:', err))
+  }, [transcript, finishSession])
+
+  // Release the mic, file source and provider - shared by Stop and fatal errors
+  const teardown = useCallback(() => {
+    setIsRecording(false)
+    setIsPaused(false)
+    if (pauseMarkerRef.current) {
+      transcript.endMarker(pauseMarkerRef.current)
+      pauseMarkerRef.current = null
+    }
+    transcript.dropPartials()
+    finishSession()
+    setFileProgress(null)
+    if (fileSourceRef.current) {
+      fileSourceRef.current.stop()
+      fileSourceRef.current = null
+    }
+    setInputLevel(null)
+    levelMonitorRef.current?.reset()
+
+    if (audioManagerRef.current) {
+      audioManagerRef.current.stopStreaming()
+      audioManagerRef.current.cleanup()
+    }
+    if (multiCaptureRef.current) {
+      multiCaptureRef.current.cleanup()
+      multiCaptureRef.current = null
+    }
+
+    if (sttClientRef.current) {
+      // Keep the final counters (close code etc.) for the diagnostics panel
+      setStreamStats(sttClientRef.current.getStats())
+      sttClientRef.current.disconnect()
+      sttClientRef.current = null
+    }
+  }, [transcript, finishSession])
+
+  // Only errors the provider gave up on (state 'error') end the session; the rest are shown and recorded
   const handleSTTError = useCallback((error: string) => {
     setError(error)
-    setIsRecording(false)
-  }, [])
+
+    if (sessionRef.current) {
+      const errors = sessionRef.current.errors.concat({ at: Date.now(), message: error })
+      sessionRef.current = { ...sessionRef.current, errors }
+    }
+
+    if (connection.state === 'error') {
+      teardown()
+    }
+  }, [connection, teardown])
 
   const handleConnectionStateChange = useCallback((connected: boolean) => {
-    setConnectionStatus(connected ? 'connected' : 'disconnected')
+    // A file source starts paused and waits for a configured session (see handleTranscribeFile)
+    if (connected) {
+      fileSourceRef.current?.resume()
+    }
+  }, [])
+
+  const handleReconnecting = useCallback(() => {
+    // Unlike the mic, a file can wait - don't overrun the reconnect backfill buffer
+    fileSourceRef.current?.pause()
+  }, [])
+
+  // Protocol drift (unknown or malformed server events) - dropped by the provider, listed in the diagnostics panel
+  const handleDiagnostic = useCallback((diagnostic: STTDiagnostic) => {
+    console.warn(`STT ${diagnostic.kind}${diagnostic.eventType ? ` (${diagnostic.eventType})` : ''}: ${diagnostic.detail}`)
+    setProtocolDiagnostics(list => list.concat(diagnostic).slice(-MAX_DIAGNOSTICS))
+  }, [])
+
+  // Create the configured STT provider - it decides the sample rate audio is sent at.
+  // With `sources`, one session per source behind a MultiSourceSTT
+  const createClient = useCallback((commitMode: CommitMode, sources: CaptureSource[] | null = null): STTProvider => {
+    const errors = validateSessionConfig(sessionConfig)
+    if (errors.length > 0) {
+      throw new Error(`Invalid session settings: ${errors.join('; ')}`)
+    }
+
+    const callbacks = {
+      onPartialTranscript: handlePartialTranscript,
+      onFinalTranscript: handleFinalTranscript,
+      onSpeechStart: handleSpeechStart,
+      onSpeechEnd: handleSpeechEnd,
+      onError: handleSTTError,
+      onConnectionStateChange: handleConnectionStateChange,
+      onReconnecting: handleReconnecting,
+      onDiagnostic: handleDiagnostic,
+    }
+    const options = {
+      commitMode,
+      session: { ...sessionConfig, prompt: withGlossaryPrompt(sessionConfig.prompt, ruleSet) },
+      connection,
+    }
+
+    if (sources) {
+      return new MultiSourceSTT(sources, callbacks, (source, sourceCallbacks, isPrimary) =>
+        createSTTProvider(sourceCallbacks, DEFAULT_STT_PROVIDER, { ...options, connection: isPrimary ? connection : null })
+      )
+    }
+    return createSTTProvider(callbacks, DEFAULT_STT_PROVIDER, options)
+  }, [handlePartialTranscript, handleFinalTranscript, handleSpeechStart, handleSpeechEnd, handleSTTError, handleConnectionStateChange, handleReconnecting, handleDiagnostic, sessionConfig, ruleSet, connection])
+
+  // Reset per-session UI state and the transcript
+  const resetSession = useCallback((startedAt: number) => {
+    setError(null)
+    setNotice(null)
+    levelMonitorRef.current?.reset()
+    setStreamStats(null)
+    setProtocolDiagnostics([])
+    setVadStats(null)
+    transcript.clear()
+    assist.reset()
+    sessionRef.current = null
+    captureClockRef.current = null
+    offsetMapRef.current = null
+    setActiveSessionId(null)
+    setRecoverableSession(null)
+    setSessionAudio(null)
+    setRecordedAt(startedAt)
+  }, [transcript, assist])
+
+  // Create the history record for a session whose provider just connected
+  const beginSession = useCallback((client: STTProvider, title: string, deviceLabel: string | null, startedAt: number) => {
+    sessionRef.current = {
+      id: createSessionId(),
+      title,
+      startedAt,
+      stoppedAt: null,
+      updatedAt: startedAt,
+      provider: DEFAULT_STT_PROVIDER,
+      model: client.model,
+      deviceLabel,
+      segments: [],
+      errors: [],
+    }
+    setActiveSessionId(sessionRef.current.id)
+    autosaverRef.current?.schedule()
+  }, [])
+
+  const handleDeviceSelect = useCallback((deviceId: string) => {
+    setSelectedDeviceId(deviceId)
+    savePreference('inputDeviceId', deviceId)
+
+    // Mid-recording this swaps the source feeding the worklet; the STT session stays up
+    if (audioManagerRef.current) {
+      audioManagerRef.current.selectDevice(deviceId || null).catch((err) => {
+        console.error('Failed to switch microphone:', err)
+      })
+    }
+  }, [])
+
+  const handleVadToggle = useCallback((enabled: boolean) => {
+    setVadEnabled(enabled)
+    savePreference('localVad', enabled)
+  }, [])
+
+  const handleVadCommitsToggle = useCallback((enabled: boolean) => {
+    setVadDrivesCommits(enabled)
+    savePreference('localVadCommits', enabled)
+  }, [])
+
+  const handleRecordAudioToggle = useCallback((enabled: boolean) => {
+    setRecordAudio(enabled)
+    savePreference('recordAudio', enabled)
+  }, [])
+
+  const handleSessionConfigChange = useCallback((config: SessionConfig) => {
+    setSessionConfig(config)
+    savePreference('sessionConfig', config)
+  }, [])
+
+  const handleFileSpeedChange = useCallback((speed: number) => {
+    setFileSpeed(speed)
+    savePreference('fileSpeed', speed)
+  }, [])
+
+  const handlePushToTalkToggle = useCallback((enabled: boolean) => {
+    setPushToTalk(enabled)
+    savePreference('pushToTalk', enabled)
+  }, [])
+
+  const handleAssistToggle = useCallback((enabled: boolean) => {
+    setShowAssist(enabled)
+    savePreference('assistPane', enabled)
+  }, [])
+
+  const handleAssistLanguageChange = useCallback((language: string) => {
+    setAssistLanguage(language)
+    savePreference('assistLanguage', language)
+  }, [])
+
+  const handleCaptureModeChange = useCallback((mode: CaptureMode) => {
+    setCaptureMode(mode)
+    savePreference('captureMode', mode)
   }, [])
 
+  const handleCaptureSourcesChange = useCallback((sources: CaptureSource[]) => {
+    setCaptureSources(sources)
+    savePreference('captureSources', sources)
+  }, [])
+
+  const handleTranscriptLayoutChange = useCallback((layout: TranscriptLayout) => {
+    setTranscriptLayout(layout)
+    savePreference('transcriptLayout', layout)
+  }, [])
+
+  const handleRuleSetChange = useCallback((next: RuleSet) => {
+    setRuleSet(next)
+    ruleSetRef.current = next
+    savePreference('rules', next)
+  }, [])
+
+  // Stop sending audio but keep the mic, the STT session and its context. A manual
+  // pause suspends the AudioContext and leaves a marker; push-to-talk releases do
+  // neither, so the next press starts instantly
+  const pauseStreaming = useCallback(async (isPushToTalk: boolean) => {
+    const client = sttClientRef.current
+    const input = multiCaptureRef.current || audioManagerRef.current
+    if (!client || !input || input.paused) {
+      return
+    }
+
+    // Multi-source sessions always use server VAD; the silence goes to every source
+    const manualCommit = vadEnabled && vadDrivesCommits && !multiCaptureRef.current
+    if (manualCommit) {
+      // The worklet's partial chunk belongs to this turn - once paused it would be dropped
+      await audioManagerRef.current?.flush()
+    }
+
+    await input.pause(!isPushToTalk)
+
+    // End the turn in progress so it is transcribed now rather than after the pause
+    if (manualCommit) {
+      client.commit()
+    } else {
+      const tailMs = sessionConfig.silenceDurationMs + PAUSE_TAIL_PADDING_MS
+      client.sendAudioData({
+        pcm16: new Int16Array(Math.round((client.sampleRate * tailMs) / 1000)),
+        capturedAt: performance.now(),
+      })
+      transcript.advanceAudio(tailMs)
+    }
+
+    if (!isPushToTalk) {
+      pauseMarkerRef.current = `pause_${Date.now()}`
+      transcript.addMarker(pauseMarkerRef.current)
+    }
+    setIsPaused(true)
+    setInputLevel(null)
+    levelMonitorRef.current?.reset()
+  }, [vadEnabled, vadDrivesCommits, sessionConfig, transcript])
+
+  const resumeStreaming = useCallback(async () => {
+    const input = multiCaptureRef.current || audioManagerRef.current
+    if (!sttClientRef.current || !input || !input.paused) {
+      return
+    }
+
+    await input.resume()
+
+    if (pauseMarkerRef.current) {
+      transcript.endMarker(pauseMarkerRef.current)
+      pauseMarkerRef.current = null
+    }
+    setIsPaused(false)
+  }, [transcript])
+
+  // Push-to-talk: stream only while the key is held (not while typing in a field)
+  useEffect(() => {
+    if (!pushToTalk || !isRecording || fileProgress) {
+      return
+    }
+
+    const isTyping = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null
+      return !!target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].indexOf(target.tagName) !== -1)
+    }
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key !== PUSH_TO_TALK_KEY || isTyping(event)) {
+        return
+      }
+      // Space would otherwise scroll the page or press the focused button
+      event.preventDefault()
+      if (!event.repeat) {
+        resumeStreaming()
+      }
+    }
+
+    const handleKeyUp = (event: KeyboardEvent) => {
+      if (event.key === PUSH_TO_TALK_KEY && !isTyping(event)) {
+        event.preventDefault()
+        pauseStreaming(true)
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    window.addEventListener('keyup', handleKeyUp)
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown)
+      window.removeEventListener('keyup', handleKeyUp)
+    }
+  }, [pushToTalk, isRecording, fileProgress, pauseStreaming, resumeStreaming])
+
+  // One STT session per source, labelled with its speaker. Local VAD and audio recording
+  // are single-mic features; the level meter follows the first source
+  const startMultiSource = useCallback(async (startedAt: number) => {
+    const errors = validateCaptureSources(captureSources)
+    if (errors.length > 0) {
+      throw new Error(`Invalid sources: ${errors.join('; ')}`)
+    }
+
+    const sources = captureSources.map(source => ({ ...source, speaker: source.speaker.trim() }))
+    const primaryId = sources[0].id
+    speakersRef.current = {}
+    sources.forEach(source => {
+      speakersRef.current[source.id] = source.speaker
+    })
+
+    const client = createClient('server_vad', sources)
+    sttClientRef.current = client
+    vadRef.current = null
+
+    const capture = new MultiSourceCapture(sources, {
+      onLevel: (sourceId, level) => {
+        if (sourceId === primaryId) {
+          levelMonitorRef.current?.push(level)
+        }
+      },
+      onInputError: (sourceIds, message) => {
+        const speakers = sourceIds.map(id => speakersRef.current[id]).join(', ')
+        setError(`${message} - ${speakers} can no longer be heard`)
+      },
+    }, connection)
+    multiCaptureRef.current = capture
+
+    await capture.initialize(client.sampleRate)
+    AudioManager.listInputDevices().then(setInputDevices).catch(() => {})
+
+    await client.connect()
+    beginSession(client, `Recording ${new Date(startedAt).toLocaleString()}`, capture.deviceLabel, startedAt)
+
+    await capture.startStreaming((chunk) => {
+      const current = sttClientRef.current
+      if (!current) {
+        return
+      }
+      current.sendAudioData(chunk)
+      // Sources share one clock, so the primary's chunks alone advance the transcript timeline
+      if (chunk.sourceId === primaryId) {
+        transcript.advanceAudio((chunk.pcm16.length / current.sampleRate) * 1000)
+      }
+    })
+
+    setIsRecording(true)
+
+    if (pushToTalk) {
+      await pauseStreaming(true)
+    }
+  }, [createClient, beginSession, pauseStreaming, captureSources, pushToTalk, transcript, connection])
+
   const handleStartRecording = useCallback(async () => {
     try {
-      setError(null)
-      setConnectionStatus('connecting')
+      const startedAt = Date.now()
+      resetSession(startedAt)
 
       if (!navigator.mediaDevices || !navigator.mediaDevices.getUserMedia) {
         throw new Error('Microphone access not supported in this browser. Please use Chrome, Edge, or Brave.')
@@ -75,32 +779,92 @@ export default function Home() {
         throw new Error('WebSocket not supported in this browser.')
       }
 
+      if (captureMode === 'multi') {
+        await startMultiSource(startedAt)
+        return
+      }
+
       if (!audioManagerRef.current) {
         throw new Error('Audio manager not initialized')
       }
 
+      // With local VAD driving commits, server-side turn detection is switched off
+      const manualCommits = vadEnabled && vadDrivesCommits
+
+      sttClientRef.current = createClient(manualCommits ? 'manual' : 'server_vad')
+
+      vadRef.current = vadEnabled
+        ? new VoiceActivityGate(sttClientRef.current.sampleRate, {
+          onSpeechEnd: () => {
+            if (manualCommits) {
+              // Commit once the worklet's partial chunk has been sent with the turn
+              const flushed = audioManagerRef.current?.flush() ?? Promise.resolve()
+              flushed.then(() => sttClientRef.current?.commit())
+            }
+          },
+        }, {
+          // The hangover has to outlast server VAD's silence window, or it never sees a turn end
+          hangoverMs: Math.max(DEFAULT_VAD_OPTIONS.hangoverMs, sessionConfig.silenceDurationMs + 200),
+        })
+        : null
+
       // Initialize audio
-      await audioManagerRef.current.initialize()
-
-      // Connect to OpenAI STT
-      sttClientRef.current = new OpenAIRealtimeSTT({
-        onPartialTranscript: handlePartialTranscript,
-        onFinalTranscript: handleFinalTranscript,
-        onError: handleSTTError,
-        onConnectionStateChange: handleConnectionStateChange,
-      })
+      await audioManagerRef.current.initialize(sttClientRef.current.sampleRate, selectedDeviceId || null)
+
+      // Device labels are only available once permission has been granted
+      AudioManager.listInputDevices().then(setInputDevices).catch(() => {})
 
+      // Connect to the STT provider
       await sttClientRef.current.connect()
 
+      beginSession(
+        sttClientRef.current,
+        `Recording ${new Date(startedAt).toLocaleString()}`,
+        audioManagerRef.current.currentDeviceLabel,
+        startedAt
+      )
+
+      if (recordAudio) {
+        // Spooled to history as it's captured, so it survives a crash
+        const record = sessionRef.current
+        audioManagerRef.current.startRecording(record && historyRef.current ? historyRef.current.audioSpool(record.id) : null)
+        if (record) {
+          sessionRef.current = { ...record, recordingSampleRate: sttClientRef.current.sampleRate }
+        }
+      }
+      // The recording, if any, starts with the capture clock, so one map serves both
+      captureClockRef.current = new ChunkClock(sttClientRef.current.sampleRate)
+      offsetMapRef.current = new OffsetMap()
+
       // Start streaming audio
-      await audioManagerRef.current.startStreaming((audioData) => {
-        if (sttClientRef.current) {
-          sttClientRef.current.sendAudioData(audioData)
+      await audioManagerRef.current.startStreaming((chunk) => {
+        const client = sttClientRef.current
+        if (!client) {
+          return
         }
+
+        captureClockRef.current?.push(chunk.pcm16)
+
+        // Local VAD drops silent chunks (releasing pre-roll at speech onset)
+        const chunks = vadRef.current ? vadRef.current.process(chunk) : [chunk]
+        chunks.forEach(c => {
+          // Place the chunk on the capture timeline; VAD-dropped silence is captured but not sent
+          const capturedMs = captureClockRef.current?.offsetOf(c.pcm16)
+          if (capturedMs !== undefined) {
+            offsetMapRef.current?.add(transcript.audioPositionMs, capturedMs)
+          }
+          client.sendAudioData(c)
+          transcript.advanceAudio((c.pcm16.length / client.sampleRate) * 1000)
+        })
       })
 
       setIsRecording(true)
 
+      // Push-to-talk sessions start silent until the key is held
+      if (pushToTalk) {
+        await pauseStreaming(true)
+      }
+
     } catch (err) {
       console.error('Failed to start recording:', err)
 
@@ -118,10 +882,11 @@ export default function Home() {
       }
 
       setError(errorMessage)
-      setConnectionStatus('disconnected')
+      connection.transition('error')
       setIsRecording(false)
 
       // Cleanup on error
+      abandonSession()
       if (sttClientRef.current) {
         sttClientRef.current.disconnect()
         sttClientRef.current = null
@@ -129,60 +894,397 @@ export default function Home() {
       if (audioManagerRef.current) {
         audioManagerRef.current.cleanup()
       }
+      if (multiCaptureRef.current) {
+        multiCaptureRef.current.cleanup()
+        multiCaptureRef.current = null
+      }
     }
-  }, [handlePartialTranscript, handleFinalTranscript, handleSTTError, handleConnectionStateChange])
+  }, [createClient, resetSession, beginSession, abandonSession, pauseStreaming, startMultiSource, captureMode, selectedDeviceId, vadEnabled, vadDrivesCommits, recordAudio, pushToTalk, sessionConfig, transcript, connection])
 
+  // A deliberate stop - unlike a failure, this ends in 'idle'
   const handleStopRecording = useCallback(() => {
-    setIsRecording(false)
-    setPartialTranscript('')
-    setConnectionStatus('disconnected')
+    connection.transition('stopping')
+    teardown()
+    connection.transition('idle')
+  }, [connection, teardown])
 
-    if (audioManagerRef.current) {
-      audioManagerRef.current.stopStreaming()
-      audioManagerRef.current.cleanup()
+  // File mode: the same provider / transcript / history path, with a FileSource in place of the mic
+  const handleTranscribeFile = useCallback(async (file: File) => {
+    let source: FileSource | null = null
+
+    try {
+      const startedAt = Date.now()
+      resetSession(startedAt)
+      // Decoding stands in for mic acquisition
+      connection.transition('acquiring-mic')
+
+      if (!window.AudioContext && !(window as any).webkitAudioContext) {
+        throw new Error('Web Audio API not supported in this browser.')
+      }
+
+      // No local VAD: pauses in a file cost nothing to wait through at higher speeds
+      const client = createClient('server_vad')
+      sttClientRef.current = client
+
+      source = await FileSource.fromFile(file, client.sampleRate, {
+        onProgress: (processedMs, durationMs) => {
+          setFileProgress({ name: file.name, processedMs, durationMs })
+        },
+      }, Math.max(DEFAULT_TAIL_SILENCE_MS, sessionConfig.silenceDurationMs + 500))
+      fileSourceRef.current = source
+      setFileProgress({ name: file.name, processedMs: 0, durationMs: source.durationMs })
+
+      await client.connect()
+      beginSession(client, file.name, null, startedAt)
+      setIsRecording(true)
+
+      // connect() resolves before the session is configured; until then audio only fills the
+      // provider's 10 s backfill buffer, which fast playback overruns. handleConnectionStateChange resumes it
+      const completed = await source.start((chunk) => {
+        client.sendAudioData(chunk)
+        transcript.advanceAudio((chunk.pcm16.length / client.sampleRate) * 1000)
+      }, fileSpeed, connection.state !== 'streaming')
+
+      if (!completed) {
+        return
+      }
+
+      await delay(FINALS_SETTLE_MS)
+      const deadline = Date.now() + FINALS_TIMEOUT_MS
+      while (transcript.hasPartials && Date.now() < deadline && fileSourceRef.current === source) {
+        await delay(250)
+      }
+
+      // Unless the user stopped (or started something else) in the meantime
+      if (fileSourceRef.current === source) {
+        handleStopRecording()
+      }
+
+    } catch (err) {
+      console.error('Failed to transcribe file:', err)
+
+      setError(err instanceof Error ? err.message : 'Failed to transcribe file')
+      connection.transition('error')
+      setIsRecording(false)
+      setFileProgress(null)
+      abandonSession()
+
+      source?.stop()
+      fileSourceRef.current = null
+      if (sttClientRef.current) {
+        sttClientRef.current.disconnect()
+        sttClientRef.current = null
+      }
     }
+  }, [createClient, resetSession, beginSession, abandonSession, handleStopRecording, fileSpeed, sessionConfig, transcript, connection])
 
-    if (sttClientRef.current) {
-      sttClientRef.current.disconnect()
-      sttClientRef.current = null
+  const handleFileSelected = useCallback((files: FileList | null) => {
+    const file = files && files[0]
+    if (file) {
+      handleTranscribeFile(file)
+    }
+    // Allow picking the same file again
+    if (fileInputRef.current) {
+      fileInputRef.current.value = ''
+    }
+  }, [handleTranscribeFile])
+
+  // Read at export time - the live map keeps growing while recording
+  const getExportOffsets = useCallback(() => {
+    return offsetMapRef.current ? offsetMapRef.current.toJSON() : sessionRef.current?.offsets
+  }, [])
+
+  const showSession = useCallback((record: SessionRecord) => {
+    sessionRef.current = record
+    setActiveSessionId(record.id)
+    setRecordedAt(record.startedAt)
+    setSessionAudio(record.audio ?? null)
+    setError(null)
+    transcript.load(record.segments)
+    // Anything still in progress when the session was last saved never got a final
+    transcript.dropPartials()
+    assist.reset()
+  }, [transcript, assist])
+
+  const handleOpenSession = useCallback((id: string) => {
+    historyRef.current?.get(id)
+      .then((record) => {
+        if (record) {
+          showSession(record)
+        }
+      })
+      .catch((err) => console.error('Failed to open session:', err))
+  }, [showSession])
+
+  const handleRenameSession = useCallback((id: string, title: string) => {
+    if (sessionRef.current?.id === id) {
+      // Keep the autosaver from writing the old title back
+      sessionRef.current = { ...sessionRef.current, title }
+    }
+    historyRef.current?.rename(id, title)
+      .then(() => setHistoryVersion(v => v + 1))
+      .catch((err) => console.error('Failed to rename session:', err))
+  }, [])
+
+  const handleDeleteSession = useCallback((id: string) => {
+    if (sessionRef.current?.id === id) {
+      sessionRef.current = null
+      setActiveSessionId(null)
+    }
+    historyRef.current?.delete(id)
+      .then(() => setHistoryVersion(v => v + 1))
+      .catch((err) => console.error('Failed to delete session:', err))
+  }, [])
+
+  // Every match in final text, in transcript order - drives the counter and next/previous
+  const findPattern = useMemo(
+    () => (showFind ? searchPattern(findQuery, { caseSensitive: findCaseSensitive }) : null),
+    [showFind, findQuery, findCaseSensitive]
+  )
+  const findMatches = useMemo(() => {
+    const matches: SearchMatch[] = []
+    segments.forEach(segment => {
+      if (segment.status === 'final') {
+        findRanges(segment.text, findPattern).forEach((_, index) => matches.push({ segmentId: segment.id, index }))
+      }
+    })
+    return matches
+  }, [segments, findPattern])
+  const activeMatch = findMatches.length > 0 ? findMatches[Math.min(activeMatchIndex, findMatches.length - 1)] : null
+
+  useEffect(() => {
+    setActiveMatchIndex(0)
+  }, [findPattern])
+
+  const stepMatch = useCallback((step: number) => {
+    if (findMatches.length > 0) {
+      setActiveMatchIndex(index => (Math.min(index, findMatches.length - 1) + step + findMatches.length) % findMatches.length)
+    }
+  }, [findMatches])
+
+  // Edits are saved like any other change, including to sessions reopened from history
+  const handleEditSegment = useCallback((id: string, text: string) => {
+    transcript.edit(id, text)
+    autosaverRef.current?.schedule()
+  }, [transcript])
+
+  const handleRevertSegment = useCallback((id: string) => {
+    transcript.revert(id)
+    autosaverRef.current?.schedule()
+  }, [transcript])
+
+  const handleReplaceAll = useCallback(() => {
+    if (!findPattern) {
+      return
+    }
+    const count = transcript.replaceAll(findPattern, replacement)
+    autosaverRef.current?.schedule()
+    setNotice(`Replaced ${count} ${count === 1 ? 'match' : 'matches'}`)
+  }, [transcript, findPattern, replacement])
+
+  // Translate each final segment as it lands (and again after an edit) while the pane is open
+  useEffect(() => {
+    if (showAssist) {
+      assist.sync(segments, assistLanguage)
+    }
+  }, [assist, showAssist, segments, assistLanguage])
+
+  // Re-run the rules over text that was finalized before they changed. Goes through
+  // edit() like a manual change, so every rewritten segment can be reverted
+  const handleApplyRules = useCallback(() => {
+    let count = 0
+    transcript.getSnapshot().forEach(segment => {
+      if (segment.status !== 'final') {
+        return
+      }
+      const text = applyRules(segment.text, ruleSet)
+      if (text !== segment.text) {
+        transcript.edit(segment.id, text)
+        count++
+      }
+    })
+    if (count > 0) {
+      autosaverRef.current?.schedule()
+    }
+    setNotice(`Rules changed ${count} ${count === 1 ? 'segment' : 'segments'}`)
+  }, [transcript, ruleSet])
+
+  const handlePlaySegment = useCallback((segment: TranscriptSegment) => {
+    const audio = audioElementRef.current
+    if (!audio || !sessionAudio) {
+      return
+    }
+
+    const offsets = new OffsetMap(sessionAudio.offsets)
+    audio.currentTime = offsets.toRecordedMs(segment.startMs) / 1000
+    playUntilRef.current = segment.endMs !== null ? offsets.toRecordedMs(segment.endMs) / 1000 : null
+    setPlayingSegmentId(segment.id)
+    audio.play().catch((err) => console.error('Playback failed:', err))
+  }, [sessionAudio])
+
+  const handleAudioTimeUpdate = useCallback(() => {
+    const audio = audioElementRef.current
+    if (audio && playUntilRef.current !== null && audio.currentTime >= playUntilRef.current) {
+      playUntilRef.current = null
+      audio.pause()
     }
   }, [])
 
+  const handleAudioStopped = useCallback(() => {
+    playUntilRef.current = null
+    setPlayingSegmentId(null)
+  }, [])
+
+  // Either way the record is marked stopped, so it isn't offered again
+  const handleRecoverSession = useCallback((restore: boolean) => {
+    const record = recoverableSession
+    setRecoverableSession(null)
+    if (!record || !historyRef.current) {
+      return
+    }
+
+    // Rebuild a local recording from whatever blocks were spooled before the crash
+    const history = historyRef.current
+    const sampleRate = record.recordingSampleRate
+    const recovered = sampleRate && !record.audio
+      ? history.getAudio(record.id)
+        .then(blocks => recoverRecording(blocks, sampleRate, record.offsets))
+        .catch((err) => {
+          console.error('Failed to recover recording:', err)
+          return null
+        })
+      : Promise.resolve(null)
+
+    recovered
+      .then(async (audio) => {
+        const stopped: SessionRecord = audio
+          ? { ...record, stoppedAt: record.updatedAt, audio, recordingSampleRate: undefined }
+          : { ...record, stoppedAt: record.updatedAt }
+        if (restore) {
+          showSession(stopped)
+        }
+        await history.put(stopped)
+        if (audio) {
+          await history.deleteAudio(record.id)
+        }
+        setHistoryVersion(v => v + 1)
+      })
+      .catch((err) => console.error('Failed to update session:', err))
+  }, [recoverableSession, showSession])
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-950 via-gray-900 to-gray-950">
       <div className="container mx-auto px-4 py-8 max-w-5xl">
         {/* Header */}
         <header className="mb-8">
-          <h1 className="text-4xl font-bold text-white mb-2">Real-Time Speech Transcription</h1>
-          <p className="text-gray-400">Transcribe your speech instantly using AI</p>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <h1 className="text-4xl font-bold text-white mb-2">Real-Time Speech Transcription</h1>
+              <p className="text-gray-400">Transcribe your speech instantly using AI</p>
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => setShowSettings(show => !show)}
+                className="px-4 py-2 rounded-lg text-sm font-medium bg-gray-800 hover:bg-gray-700 text-gray-200 border border-gray-700"
+              >
+                Settings
+              </button>
+              <button
+                onClick={() => handleAssistToggle(!showAssist)}
+                className="px-4 py-2 rounded-lg text-sm font-medium bg-gray-800 hover:bg-gray-700 text-gray-200 border border-gray-700"
+              >
+                Translate
+              </button>
+              <button
+                onClick={() => setShowRules(show => !show)}
+                className="px-4 py-2 rounded-lg text-sm font-medium bg-gray-800 hover:bg-gray-700 text-gray-200 border border-gray-700"
+              >
+                Vocabulary
+              </button>
+              <button
+                onClick={() => setShowHistory(show => !show)}
+                className="px-4 py-2 rounded-lg text-sm font-medium bg-gray-800 hover:bg-gray-700 text-gray-200 border border-gray-700"
+              >
+                History
+              </button>
+            </div>
+          </div>
         </header>
 
+        {showHistory && (
+          <SessionSidebar
+            sessions={sessions}
+            activeSessionId={activeSessionId}
+            query={historyQuery}
+            isRecording={isRecording}
+            onQueryChange={setHistoryQuery}
+            onOpen={handleOpenSession}
+            onRename={handleRenameSession}
+            onDelete={handleDeleteSession}
+            onClose={() => setShowHistory(false)}
+          />
+        )}
+
+        {showSettings && (
+          <SettingsPanel
+            config={sessionConfig}
+            disabled={isRecording || isBusy}
+            onChange={handleSessionConfigChange}
+          />
+        )}
+
+        {showRules && (
+          <RulesPanel
+            ruleSet={ruleSet}
+            canApply={segments.some(segment => segment.status === 'final')}
+            onChange={handleRuleSetChange}
+            onApplyToTranscript={handleApplyRules}
+          />
+        )}
+
+        {/* Crash Recovery */}
+        {recoverableSession && !isRecording && (
+          <div className="bg-blue-900/30 border border-blue-800/50 rounded-xl p-4 mb-6 backdrop-blur-sm">
+            <div className="flex items-center gap-3 flex-wrap">
+              <p className="flex-1 text-blue-300 text-sm font-medium">
+                A recording from {new Date(recoverableSession.startedAt).toLocaleString()} was not stopped properly. Restore its transcript?
+              </p>
+              <button onClick={() => handleRecoverSession(true)} className="text-blue-300 hover:text-blue-200 text-sm font-medium">
+                Restore
+              </button>
+              <button onClick={() => handleRecoverSession(false)} className="text-blue-400 hover:text-blue-300 text-sm">
+                Dismiss
+              </button>
+            </div>
+          </div>
+        )}
+
         {/* Control Panel */}
         <div className="bg-gray-900/80 backdrop-blur-sm border border-gray-800 rounded-2xl shadow-2xl p-6 mb-6">
           <div className="flex items-center justify-between flex-wrap gap-4">
             <div className="flex items-center gap-4">
               <button
                 onClick={isRecording ? handleStopRecording : handleStartRecording}
-                disabled={connectionStatus === 'connecting'}
+                disabled={isBusy}
                 className={`
                   px-8 py-4 rounded-xl font-semibold text-lg
                   transition-all duration-200 transform hover:scale-105 active:scale-95
                   disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none
                   ${isRecording
                     ? 'bg-red-600 hover:bg-red-700 text-white shadow-lg shadow-red-600/50'
-                    : connectionStatus === 'connecting'
+                    : isBusy
                     ? 'bg-yellow-600 hover:bg-yellow-700 text-white'
                     : 'bg-blue-600 hover:bg-blue-700 text-white shadow-lg shadow-blue-600/50'
                   }
                 `}
               >
-                {connectionStatus === 'connecting' ? (
+                {isBusy ? (
                   <span className="flex items-center gap-2">
                     <svg className="animate-spin h-5 w-5" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
                       <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                       <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                     </svg>
-                    Connecting...
+                    {CONNECTION_STATE_LABELS[connectionState]}
                   </span>
                 ) : isRecording ? (
                   <span className="flex items-center gap-2">
@@ -201,33 +1303,192 @@ export default function Home() {
                 )}
               </button>
 
+              {isRecording && !fileProgress && !pushToTalk && (
+                <button
+                  onClick={() => (isPaused ? resumeStreaming() : pauseStreaming(false))}
+                  disabled={connectionState !== 'streaming'}
+                  className="px-5 py-4 rounded-xl font-semibold bg-gray-800 hover:bg-gray-700 text-gray-200 border border-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isPaused ? 'Resume' : 'Pause'}
+                </button>
+              )}
+
               {/* Status Indicator */}
               <div className="flex items-center gap-3">
                 <div className={`
                   w-4 h-4 rounded-full transition-all duration-300
-                  ${isRecording
+                  ${connectionState === 'streaming' && isPaused
+                    ? 'bg-gray-400'
+                    : connectionState === 'streaming'
                     ? 'bg-red-500 animate-pulse shadow-lg shadow-red-500/50'
-                    : connectionStatus === 'connecting'
+                    : connectionState === 'reconnecting' || isBusy
                     ? 'bg-yellow-500 animate-pulse'
-                    : connectionStatus === 'connected'
-                    ? 'bg-green-500'
+                    : connectionState === 'error'
+                    ? 'bg-red-800'
                     : 'bg-gray-600'
                   }
                 `} />
                 <span className="text-gray-300 font-medium">
-                  {isRecording
-                    ? 'Recording'
-                    : connectionStatus === 'connecting'
-                    ? 'Connecting...'
-                    : connectionStatus === 'connected'
-                    ? 'Ready'
-                    : 'Idle'}
+                  {connectionState === 'streaming' && isPaused
+                    ? (pushToTalk ? 'Hold Space to talk' : 'Paused')
+                    : connectionState === 'streaming' && fileProgress
+                    ? 'Transcribing file'
+                    : CONNECTION_STATE_LABELS[connectionState]}
                 </span>
               </div>
             </div>
+
+            {/* Input Level */}
+            {isRecording && <LevelMeter reading={inputLevel} />}
+
+            {/* Capture Mode */}
+            <label className="flex items-center gap-2 text-sm text-gray-400">
+              <span>Capture</span>
+              <select
+                value={captureMode}
+                onChange={(e) => handleCaptureModeChange(e.target.value as CaptureMode)}
+                disabled={isRecording || isBusy}
+                className="bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-gray-200 disabled:opacity-50"
+              >
+                <option value="single">Single microphone</option>
+                <option value="multi">Multiple sources</option>
+              </select>
+            </label>
+
+            {/* Microphone Picker */}
+            {!isMultiSource && (
+              <label className="flex items-center gap-2 text-sm text-gray-400">
+                <span>Microphone</span>
+                <select
+                  value={selectedDeviceId}
+                  onChange={(e) => handleDeviceSelect(e.target.value)}
+                  disabled={isBusy}
+                  className="bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-gray-200 max-w-[16rem] disabled:opacity-50"
+                >
+                  <option value="">System default</option>
+                  {inputDevices
+                    .filter(device => device.deviceId && device.deviceId !== 'default')
+                    .map(device => (
+                      <option key={device.deviceId} value={device.deviceId}>{device.label}</option>
+                    ))}
+                </select>
+              </label>
+            )}
+
+            {/* Local VAD */}
+            <div className="flex items-center gap-4 text-sm text-gray-400">
+              <label className={`flex items-center gap-2 ${isMultiSource ? 'opacity-50' : ''}`} title={isMultiSource ? 'Single microphone only' : undefined}>
+                <input
+                  type="checkbox"
+                  checked={vadEnabled}
+                  onChange={(e) => handleVadToggle(e.target.checked)}
+                  disabled={isMultiSource || isRecording || isBusy}
+                  className="accent-blue-600"
+                />
+                <span>Local VAD</span>
+              </label>
+              <label className={`flex items-center gap-2 ${vadEnabled && !isMultiSource ? '' : 'opacity-50'}`}>
+                <input
+                  type="checkbox"
+                  checked={vadDrivesCommits}
+                  onChange={(e) => handleVadCommitsToggle(e.target.checked)}
+                  disabled={!vadEnabled || isMultiSource || isRecording || isBusy}
+                  className="accent-blue-600"
+                />
+                <span>VAD commits turns</span>
+              </label>
+              <label className={`flex items-center gap-2 ${isMultiSource ? 'opacity-50' : ''}`} title={isMultiSource ? 'Single microphone only' : undefined}>
+                <input
+                  type="checkbox"
+                  checked={recordAudio}
+                  onChange={(e) => handleRecordAudioToggle(e.target.checked)}
+                  disabled={isMultiSource || isRecording || isBusy}
+                  className="accent-blue-600"
+                />
+                <span>Record audio</span>
+              </label>
+              <label className="flex items-center gap-2" title="Stream only while Space is held">
+                <input
+                  type="checkbox"
+                  checked={pushToTalk}
+                  onChange={(e) => handlePushToTalkToggle(e.target.checked)}
+                  disabled={isRecording || isBusy}
+                  className="accent-blue-600"
+                />
+                <span>Push-to-talk</span>
+              </label>
+            </div>
+
+            {/* File Input */}
+            <div className="flex items-center gap-2 text-sm text-gray-400">
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="audio/*,video/webm"
+                onChange={(e) => handleFileSelected(e.target.files)}
+                className="hidden"
+              />
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isRecording || isBusy}
+                className="px-3 py-2 rounded-lg font-medium bg-gray-800 hover:bg-gray-700 text-gray-200 border border-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Transcribe file…
+              </button>
+              <select
+                value={fileSpeed}
+                onChange={(e) => handleFileSpeedChange(Number(e.target.value))}
+                disabled={isRecording || isBusy}
+                title="File playback speed"
+                className="bg-gray-800 border border-gray-700 rounded-lg px-2 py-2 text-gray-200 disabled:opacity-50"
+              >
+                {FILE_SPEEDS.map(speed => (
+                  <option key={speed} value={speed}>{speed === 1 ? 'Real time' : `${speed}x`}</option>
+                ))}
+              </select>
+            </div>
+
+            {/* Stream Counters */}
+            {streamStats && (
+              <div className="text-sm text-gray-500 font-mono">
+                {streamStats.messageRate.toFixed(0)} msg/s · {streamStats.avgChunkLatencyMs.toFixed(0)} ms avg / {streamStats.maxChunkLatencyMs.toFixed(0)} ms max chunk latency
+                {vadStats && vadStats.totalMs > 0 && (
+                  <> · VAD saved {(vadStats.savedMs / 1000).toFixed(1)}s ({((vadStats.savedMs / vadStats.totalMs) * 100).toFixed(0)}%)</>
+                )}
+              </div>
+            )}
           </div>
         </div>
 
+        {isMultiSource && (
+          <SourcesPanel
+            sources={captureSources}
+            devices={inputDevices}
+            disabled={isRecording || isBusy}
+            onChange={handleCaptureSourcesChange}
+          />
+        )}
+
+        {/* File Progress */}
+        {fileProgress && (
+          <div className="bg-gray-900/80 border border-gray-800 rounded-xl p-4 mb-6">
+            <div className="flex justify-between text-sm text-gray-400 mb-2">
+              <span className="truncate">Transcribing {fileProgress.name}</span>
+              <span className="font-mono">
+                {formatOffset(fileProgress.processedMs)} / {formatOffset(fileProgress.durationMs)}
+              </span>
+            </div>
+            <div className="h-2 bg-gray-800 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-blue-600 transition-[width] duration-200"
+                style={{ width: `${fileProgress.durationMs > 0 ? (fileProgress.processedMs / fileProgress.durationMs) * 100 : 0}%` }}
+              />
+            </div>
+          </div>
+        )}
+
+        <DiagnosticsPanel connection={connectionSnapshot} stats={streamStats} diagnostics={protocolDiagnostics} />
+
         {/* Error Display */}
         {error && (
           <div className="bg-red-900/30 border border-red-800/50 rounded-xl p-4 mb-6 backdrop-blur-sm">
@@ -242,39 +1503,127 @@ export default function Home() {
           </div>
         )}
 
-        {/* Transcript Display */}
-        <div className="bg-gray-900/80 backdrop-blur-sm border border-gray-800 rounded-2xl shadow-2xl overflow-hidden">
-          <div className="bg-gray-800/50 px-6 py-4 border-b border-gray-800">
-            <h2 className="text-xl font-semibold text-white flex items-center gap-2">
-              <svg className="h-5 w-5 text-blue-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+        {/* Input Warnings */}
+        {isRecording && levelWarning && (
+          <div className="bg-yellow-900/30 border border-yellow-800/50 rounded-xl p-4 mb-6 backdrop-blur-sm">
+            <div className="flex items-start gap-3">
+              <svg className="h-5 w-5 text-yellow-400 flex-shrink-0 mt-0.5" fill="currentColor" viewBox="0 0 20 20">
+                <path fillRule="evenodd" d="M8.257 3.099c.765-1.36 2.722-1.36 3.486 0l5.58 9.92c.75 1.334-.213 2.98-1.742 2.98H4.42c-1.53 0-2.493-1.646-1.743-2.98l5.58-9.92zM11 13a1 1 0 11-2 0 1 1 0 012 0zm-1-8a1 1 0 00-1 1v3a1 1 0 002 0V6a1 1 0 00-1-1z" clipRule="evenodd" />
               </svg>
-              Transcript
-            </h2>
+              <p className="flex-1 text-yellow-300 text-sm font-medium">
+                {levelWarning === 'silence'
+                  ? 'No sound detected for a few seconds - is your microphone muted or the wrong input selected?'
+                  : 'Your input is clipping - lower the microphone gain or move further from the mic.'}
+              </p>
+            </div>
           </div>
+        )}
 
-          <div className="p-6 min-h-[400px] max-h-[600px] overflow-y-auto">
-            {finalTranscript || partialTranscript ? (
-              <div className="text-gray-200 leading-relaxed text-lg">
-                <span className="whitespace-pre-wrap">{finalTranscript}</span>
-                {partialTranscript && (
-                  <span className="text-gray-400 italic">{partialTranscript}</span>
-                )}
-              </div>
-            ) : (
-              <div className="flex flex-col items-center justify-center h-full min-h-[300px] text-center">
-                <svg className="h-16 w-16 text-gray-700 mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" />
+        {/* Notice Display */}
+        {notice && (
+          <div className="bg-blue-900/30 border border-blue-800/50 rounded-xl p-4 mb-6 backdrop-blur-sm">
+            <div className="flex items-start gap-3">
+              <svg className="h-5 w-5 text-blue-400 flex-shrink-0 mt-0.5" fill="currentColor" viewBox="0 0 20 20">
+                <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7-4a1 1 0 11-2 0 1 1 0 012 0zM9 9a1 1 0 000 2v3a1 1 0 001 1h1a1 1 0 100-2v-3a1 1 0 00-1-1H9z" clipRule="evenodd" />
+              </svg>
+              <p className="flex-1 text-blue-300 text-sm font-medium">{notice}</p>
+              <button onClick={() => setNotice(null)} className="text-blue-400 hover:text-blue-300 text-sm">
+                Dismiss
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Transcript Display, with the translation pane beside it when open */}
+        <div className={showAssist ? 'grid grid-cols-1 lg:grid-cols-2 gap-6 items-start' : ''}>
+          <div className="bg-gray-900/80 backdrop-blur-sm border border-gray-800 rounded-2xl shadow-2xl overflow-hidden">
+            <div className="bg-gray-800/50 px-6 py-4 border-b border-gray-800 flex items-center justify-between">
+              <h2 className="text-xl font-semibold text-white flex items-center gap-2">
+                <svg className="h-5 w-5 text-blue-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
                 </svg>
-                <p className="text-gray-500 text-lg mb-2">
-                  {isRecording ? 'Speak into your microphone...' : 'Click "Start Recording" to begin'}
-                </p>
-                <p className="text-gray-600 text-sm">
-                  Your transcription will appear here in real-time
-                </p>
+                Transcript
+              </h2>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => handleTranscriptLayoutChange(transcriptLayout === 'chat' ? 'text' : 'chat')}
+                  title="Show speakers as chat bubbles"
+                  className="px-3 py-1.5 rounded-lg text-sm font-medium bg-gray-800 hover:bg-gray-700 text-gray-200 border border-gray-700"
+                >
+                  {transcriptLayout === 'chat' ? 'Text view' : 'Chat view'}
+                </button>
+                <button
+                  onClick={() => setShowFind(show => !show)}
+                  className="px-3 py-1.5 rounded-lg text-sm font-medium bg-gray-800 hover:bg-gray-700 text-gray-200 border border-gray-700"
+                >
+                  Find
+                </button>
+                <ExportMenu
+                  segments={segments}
+                  recordedAt={recordedAt}
+                  getOffsets={getExportOffsets}
+                  disabled={!segments.some(segment => segment.status === 'final')}
+                />
+              </div>
+            </div>
+
+            {showFind && (
+              <FindReplaceBar
+                query={findQuery}
+                replacement={replacement}
+                caseSensitive={findCaseSensitive}
+                matchCount={findMatches.length}
+                activeIndex={activeMatch ? findMatches.indexOf(activeMatch) : -1}
+                onQueryChange={setFindQuery}
+                onReplacementChange={setReplacement}
+                onCaseSensitiveChange={setFindCaseSensitive}
+                onNext={() => stepMatch(1)}
+                onPrevious={() => stepMatch(-1)}
+                onReplaceAll={handleReplaceAll}
+                onClose={() => setShowFind(false)}
+              />
+            )}
+
+            {audioUrl && !isRecording && (
+              <div className="px-6 py-3 border-b border-gray-800">
+                <audio
+                  ref={audioElementRef}
+                  src={audioUrl}
+                  controls
+                  onTimeUpdate={handleAudioTimeUpdate}
+                  onPause={handleAudioStopped}
+                  onEnded={handleAudioStopped}
+                  className="w-full h-10"
+                />
+                <p className="text-xs text-gray-500 mt-1">Click a segment to play it, double-click to edit</p>
               </div>
             )}
+
+            <TranscriptView
+              segments={segments}
+              layout={transcriptLayout}
+              isRecording={isRecording}
+              canPlay={!!audioUrl && !isRecording}
+              playingSegmentId={playingSegmentId}
+              searchPattern={findPattern}
+              activeMatch={activeMatch}
+              onPlay={handlePlaySegment}
+              onEdit={handleEditSegment}
+              onRevert={handleRevertSegment}
+            />
           </div>
+
+          {showAssist && (
+            <AssistPane
+              segments={segments}
+              assist={assistSnapshot}
+              language={assistLanguage}
+              onLanguageChange={handleAssistLanguageChange}
+              onSummarize={() => assist.summarize(segments)}
+              onExtractActionItems={() => assist.extractActionItems(segments)}
+              onClose={() => handleAssistToggle(false)}
+            />
+          )}
         </div>
 
         {/* Instructions */}
@@ -298,6 +1647,10 @@ export default function Home() {
               <span className="text-blue-400 mt-0.5">•</span>
               <span>Partial transcripts appear in <em className="text-gray-300">italics</em>, final transcripts are permanent</span>
             </li>
+            <li className="flex items-start gap-2">
+              <span className="text-blue-400 mt-0.5">•</span>
+              <span>Click <strong className="text-gray-300">Pause</strong> to take a break without ending the session, or turn on push-to-talk and hold Space while speaking</span>
+            </li>
             <li className="flex items-start gap-2">
               <span className="text-blue-400 mt-0.5">•</span>
               <span>Click <strong className="text-gray-300">"Stop Recording"</strong> to end the session</span>
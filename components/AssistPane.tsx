@@ -0,0 +1,106 @@
+'use client'
+
+import { ASSIST_LANGUAGES } from '../lib/assist'
+import { AssistSnapshot } from '../lib/assist-client'
+import { TranscriptSegment } from '../lib/transcript'
+
+interface AssistPaneProps {
+  segments: readonly TranscriptSegment[]
+  assist: AssistSnapshot
+  language: string
+  onLanguageChange: (language: string) => void
+  onSummarize: () => void
+  onExtractActionItems: () => void
+  onClose: () => void
+}
+
+const buttonClass = 'px-3 py-1.5 rounded-lg text-sm font-medium bg-gray-800 hover:bg-gray-700 text-gray-200 border border-gray-700 disabled:opacity-50 disabled:cursor-not-allowed'
+
+export default function AssistPane({
+  segments,
+  assist,
+  language,
+  onLanguageChange,
+  onSummarize,
+  onExtractActionItems,
+  onClose,
+}: AssistPaneProps) {
+  const finals = segments.filter(segment => segment.status === 'final' && segment.text.trim() !== '')
+  const { summary, actionItems } = assist
+
+  return (
+    <div className="bg-gray-900/80 backdrop-blur-sm border border-gray-800 rounded-2xl shadow-2xl overflow-hidden flex flex-col">
+      <div className="bg-gray-800/50 px-6 py-4 border-b border-gray-800 flex items-center justify-between gap-2 flex-wrap">
+        <h2 className="text-xl font-semibold text-white">Translation</h2>
+        <div className="flex items-center gap-2">
+          <select
+            value={language}
+            onChange={(e) => onLanguageChange(e.target.value)}
+            className="bg-gray-800 border border-gray-700 rounded-lg px-2 py-1.5 text-sm text-gray-200"
+          >
+            {ASSIST_LANGUAGES.map(({ code, label }) => (
+              <option key={code} value={code}>{label}</option>
+            ))}
+          </select>
+          <button onClick={onClose} className="text-sm text-gray-500 hover:text-gray-300">
+            Close
+          </button>
+        </div>
+      </div>
+
+      <div className="p-6 min-h-[200px] max-h-[400px] overflow-y-auto text-gray-200 leading-relaxed space-y-2">
+        {finals.length === 0 && (
+          <p className="text-gray-500 text-sm">Final segments are translated here as they arrive</p>
+        )}
+        {finals.map(segment => {
+          const translation = assist.translations[segment.id]
+          if (!translation) {
+            return null
+          }
+          return (
+            <p
+              key={segment.id}
+              title={segment.text}
+              className={translation.status === 'error' ? 'text-red-300 text-sm' : translation.status === 'pending' ? 'text-gray-400' : ''}
+            >
+              {translation.text || (translation.status === 'pending' ? <span className="animate-pulse">…</span> : null)}
+              {translation.error && <span className="block">{translation.error}</span>}
+            </p>
+          )
+        })}
+      </div>
+
+      <div className="border-t border-gray-800 px-6 py-4 space-y-4 text-sm">
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <h3 className="font-semibold text-gray-300">Summary</h3>
+            <button onClick={onSummarize} disabled={finals.length === 0 || summary.status === 'loading'} className={buttonClass}>
+              {summary.status === 'loading' ? 'Summarizing…' : summary.value ? 'Update summary' : 'Summarize'}
+            </button>
+          </div>
+          {summary.value && <p className="text-gray-300 whitespace-pre-wrap">{summary.value}</p>}
+          {summary.error && <p className="text-red-300">{summary.error}</p>}
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <h3 className="font-semibold text-gray-300">Action items</h3>
+            <button onClick={onExtractActionItems} disabled={finals.length === 0 || actionItems.status === 'loading'} className={buttonClass}>
+              {actionItems.status === 'loading' ? 'Extracting…' : 'Extract'}
+            </button>
+          </div>
+          {actionItems.value && (
+            actionItems.value.length > 0 ? (
+              <ul className="list-disc list-inside text-gray-300 space-y-1">
+                {actionItems.value.map((item, index) => <li key={index}>{item}</li>)}
+              </ul>
+            ) : (
+              <p className="text-gray-500">No action items found</p>
+            )
+          )}
+          {actionItems.error && <p className="text-red-300">{actionItems.error}</p>}
+        </div>
+      </div>
+    </div>
+  )
+}
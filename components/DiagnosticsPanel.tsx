@@ -0,0 +1,74 @@
+'use client'
+
+import { useState } from 'react'
+import { CONNECTION_STATE_LABELS, ConnectionSnapshot } from '../lib/connection-state'
+import type { STTDiagnostic, STTStats } from '../lib/provider'
+
+interface DiagnosticsPanelProps {
+  connection: ConnectionSnapshot
+  stats: STTStats | null
+  // Most recent protocol diagnostics, oldest first
+  diagnostics: readonly STTDiagnostic[]
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+export default function DiagnosticsPanel({ connection, stats, diagnostics }: DiagnosticsPanelProps) {
+  const [isOpen, setIsOpen] = useState(false)
+
+  const rows: [string, string][] = [
+    ['State', `${CONNECTION_STATE_LABELS[connection.state]} (since ${new Date(connection.since).toLocaleTimeString()})`],
+    ['Session ID', stats?.sessionId ?? '—'],
+    ['Bytes sent', stats ? formatBytes(stats.bytesSent) : '—'],
+    ['Messages sent', stats ? String(stats.messagesSent) : '—'],
+    ['Events received', stats ? String(stats.eventsReceived) : '—'],
+    ['Round trip', stats?.roundTripMs != null ? `${stats.roundTripMs.toFixed(0)} ms` : '—'],
+    ['Last close code', stats?.lastCloseCode != null ? String(stats.lastCloseCode) : '—'],
+  ]
+
+  return (
+    <div className="bg-gray-900/80 border border-gray-800 rounded-xl mb-6">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="w-full flex items-center justify-between px-4 py-3 text-sm font-medium text-gray-400 hover:text-gray-200"
+      >
+        <span>Diagnostics</span>
+        <span className="text-gray-500">
+          {diagnostics.length > 0 && <span className="text-yellow-400 mr-2">{diagnostics.length} protocol warnings</span>}
+          {isOpen ? 'Hide' : 'Show'}
+        </span>
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-4 text-sm">
+          <dl className="grid grid-cols-[auto,1fr] gap-x-6 gap-y-1 font-mono">
+            {rows.map(([label, value]) => (
+              <div key={label} className="contents">
+                <dt className="text-gray-500">{label}</dt>
+                <dd className="text-gray-300 truncate">{value}</dd>
+              </div>
+            ))}
+          </dl>
+
+          {diagnostics.length > 0 && (
+            <ul className="mt-3 space-y-1 text-xs font-mono text-yellow-300/80">
+              {diagnostics.map((diagnostic, index) => (
+                <li key={index}>
+                  {diagnostic.kind}{diagnostic.eventType ? ` ${diagnostic.eventType}` : ''}: {diagnostic.detail}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,68 @@
+'use client'
+
+import { useState } from 'react'
+import { EXPORT_FORMATS, ExportFormatInfo, exportTranscript } from '../lib/export'
+import type { OffsetAnchor } from '../lib/recorder'
+import type { TranscriptSegment } from '../lib/transcript'
+
+interface ExportMenuProps {
+  segments: readonly TranscriptSegment[]
+  recordedAt: number | null
+  // The session's sent-to-captured offset map, for caption timestamps
+  getOffsets?: () => OffsetAnchor[] | undefined
+  disabled?: boolean
+}
+
+function fileName(recordedAt: number | null, extension: string): string {
+  const date = new Date(recordedAt ?? Date.now())
+  const stamp = date.toISOString().slice(0, 16).replace('T', '-').replace(':', '')
+  return `transcript-${stamp}.${extension}`
+}
+
+export default function ExportMenu({ segments, recordedAt, getOffsets, disabled }: ExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false)
+
+  const handleExport = (info: ExportFormatInfo) => {
+    const content = exportTranscript(segments, info.format, {
+      title: 'Transcript',
+      recordedAt: recordedAt ?? undefined,
+      offsets: getOffsets?.(),
+    })
+
+    const url = URL.createObjectURL(new Blob([content], { type: `${info.mimeType};charset=utf-8` }))
+    const link = document.createElement('a')
+    link.href = url
+    link.download = fileName(recordedAt, info.extension)
+    link.click()
+    URL.revokeObjectURL(url)
+
+    setIsOpen(false)
+  }
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        disabled={disabled}
+        className="px-3 py-1.5 rounded-lg text-sm font-medium bg-gray-800 hover:bg-gray-700 text-gray-200 border border-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        Export
+      </button>
+
+      {isOpen && !disabled && (
+        <div className="absolute right-0 mt-2 w-48 bg-gray-900 border border-gray-700 rounded-lg shadow-xl z-10 py-1">
+          {EXPORT_FORMATS.map(info => (
+            <button
+              key={info.format}
+              onClick={() => handleExport(info)}
+              className="w-full text-left px-4 py-2 text-sm text-gray-300 hover:bg-gray-800 flex justify-between"
+            >
+              <span>{info.label}</span>
+              <span className="text-gray-500">.{info.extension}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
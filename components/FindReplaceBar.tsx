@@ -0,0 +1,91 @@
+'use client'
+
+// Search and replace cover final text only - partials are still changing
+
+interface FindReplaceBarProps {
+  query: string
+  replacement: string
+  caseSensitive: boolean
+  matchCount: number
+  // -1 when there are no matches
+  activeIndex: number
+  onQueryChange: (query: string) => void
+  onReplacementChange: (replacement: string) => void
+  onCaseSensitiveChange: (caseSensitive: boolean) => void
+  onNext: () => void
+  onPrevious: () => void
+  onReplaceAll: () => void
+  onClose: () => void
+}
+
+const fieldClass = 'bg-gray-800 border border-gray-700 rounded-lg px-3 py-1.5 text-sm text-gray-200 w-48'
+const buttonClass = 'px-2 py-1.5 rounded-lg text-sm bg-gray-800 hover:bg-gray-700 text-gray-300 border border-gray-700 disabled:opacity-50 disabled:cursor-not-allowed'
+
+export default function FindReplaceBar({
+  query,
+  replacement,
+  caseSensitive,
+  matchCount,
+  activeIndex,
+  onQueryChange,
+  onReplacementChange,
+  onCaseSensitiveChange,
+  onNext,
+  onPrevious,
+  onReplaceAll,
+  onClose,
+}: FindReplaceBarProps) {
+  return (
+    <div className="px-6 py-3 border-b border-gray-800 flex items-center gap-2 flex-wrap text-sm text-gray-400">
+      <input
+        autoFocus
+        type="search"
+        value={query}
+        onChange={(e) => onQueryChange(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') {
+            e.preventDefault()
+            if (e.shiftKey) {
+              onPrevious()
+            } else {
+              onNext()
+            }
+          } else if (e.key === 'Escape') {
+            onClose()
+          }
+        }}
+        placeholder="Find in transcript"
+        className={fieldClass}
+      />
+      <span className="font-mono text-xs w-16">
+        {query ? `${matchCount > 0 ? activeIndex + 1 : 0}/${matchCount}` : ''}
+      </span>
+      <button onClick={onPrevious} disabled={matchCount === 0} title="Previous match (Shift+Enter)" className={buttonClass}>↑</button>
+      <button onClick={onNext} disabled={matchCount === 0} title="Next match (Enter)" className={buttonClass}>↓</button>
+      <label className="flex items-center gap-1 ml-1">
+        <input
+          type="checkbox"
+          checked={caseSensitive}
+          onChange={(e) => onCaseSensitiveChange(e.target.checked)}
+          className="accent-blue-600"
+        />
+        <span>Aa</span>
+      </label>
+
+      <input
+        type="text"
+        value={replacement}
+        onChange={(e) => onReplacementChange(e.target.value)}
+        placeholder="Replace with"
+        className={`${fieldClass} ml-2`}
+      />
+      <button onClick={onReplaceAll} disabled={matchCount === 0} className={buttonClass}>
+        Replace all
+      </button>
+
+      <button onClick={onClose} className="ml-auto text-gray-500 hover:text-gray-300">
+        Close
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,42 @@
+import { LevelReading, METER_FLOOR_DB } from '../lib/meter'
+
+interface LevelMeterProps {
+  reading: LevelReading | null
+}
+
+// Map dBFS onto 0-100% of the bar, with METER_FLOOR_DB at the left edge
+function toPercent(db: number): number {
+  if (!isFinite(db)) {
+    return 0
+  }
+  return Math.max(0, Math.min(100, ((db - METER_FLOOR_DB) / -METER_FLOOR_DB) * 100))
+}
+
+export default function LevelMeter({ reading }: LevelMeterProps) {
+  const rmsPercent = reading ? toPercent(reading.rmsDb) : 0
+  const peakPercent = reading ? toPercent(reading.peakDb) : 0
+
+  const barColor = peakPercent >= 98
+    ? 'bg-red-500'
+    : rmsPercent >= 75
+    ? 'bg-yellow-500'
+    : 'bg-green-500'
+
+  return (
+    <div className="flex items-center gap-2" title={reading ? `${reading.rmsDb.toFixed(0)} dBFS` : 'No input'}>
+      <svg className="h-4 w-4 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" />
+      </svg>
+      <div className="relative w-32 h-2 bg-gray-800 rounded-full overflow-hidden">
+        <div
+          className={`absolute inset-y-0 left-0 ${barColor} transition-[width] duration-100`}
+          style={{ width: `${rmsPercent}%` }}
+        />
+        <div
+          className="absolute inset-y-0 w-0.5 bg-gray-200/80"
+          style={{ left: `calc(${peakPercent}% - 2px)`, display: peakPercent > 0 ? 'block' : 'none' }}
+        />
+      </div>
+    </div>
+  )
+}
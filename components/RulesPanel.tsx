@@ -0,0 +1,253 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import {
+  DEFAULT_RULE_SET,
+  PostProcessRule,
+  RuleSet,
+  exportRuleSet,
+  formatGlossary,
+  importRuleSet,
+  parseGlossary,
+  validateRuleSet,
+} from '../lib/rules'
+
+interface RulesPanelProps {
+  ruleSet: RuleSet
+  // Nothing to apply to while the transcript is empty
+  canApply: boolean
+  onChange: (ruleSet: RuleSet) => void
+  onApplyToTranscript: () => void
+}
+
+const fieldClass = 'w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm text-gray-200'
+const linkClass = 'text-sm text-blue-400 hover:text-blue-300 disabled:opacity-50 disabled:cursor-not-allowed'
+
+const NEW_RULES: { [kind in PostProcessRule['kind']]: PostProcessRule } = {
+  replace: { kind: 'replace', find: '', replace: '', preserveCase: true, wholeWord: true, enabled: true },
+  regex: { kind: 'regex', pattern: '', flags: 'i', replace: '', enabled: true },
+}
+
+export default function RulesPanel({ ruleSet, canApply, onChange, onApplyToTranscript }: RulesPanelProps) {
+  const fileInputRef = useRef<HTMLInputElement | null>(null)
+  // Edited as free text and only parsed on change, so a half-typed line isn't reformatted
+  const [glossaryText, setGlossaryText] = useState(() => formatGlossary(ruleSet.glossary))
+  const [profanityText, setProfanityText] = useState(() => ruleSet.profanityWords.join(', '))
+  const [importErrors, setImportErrors] = useState<string[]>([])
+  const errors = validateRuleSet(ruleSet)
+
+  const update = (patch: Partial<RuleSet>) => {
+    onChange({ ...ruleSet, ...patch })
+  }
+
+  const replaceWith = (next: RuleSet) => {
+    setGlossaryText(formatGlossary(next.glossary))
+    setProfanityText(next.profanityWords.join(', '))
+    onChange(next)
+  }
+
+  const updateRule = (index: number, patch: Partial<PostProcessRule>) => {
+    update({ rules: ruleSet.rules.map((rule, i) => (i === index ? { ...rule, ...patch } as PostProcessRule : rule)) })
+  }
+
+  const handleExport = () => {
+    const url = URL.createObjectURL(new Blob([exportRuleSet(ruleSet)], { type: 'application/json;charset=utf-8' }))
+    const link = document.createElement('a')
+    link.href = url
+    link.download = 'transcription-rules.json'
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const handleImport = async (file: File) => {
+    const result = importRuleSet(await file.text())
+    setImportErrors(result.errors)
+    if (result.ruleSet) {
+      replaceWith(result.ruleSet)
+    }
+  }
+
+  return (
+    <div className="bg-gray-900/80 backdrop-blur-sm border border-gray-800 rounded-2xl shadow-2xl p-6 mb-6">
+      <div className="flex items-center justify-between gap-4 mb-4 flex-wrap">
+        <h2 className="text-lg font-semibold text-white">Vocabulary &amp; Rules</h2>
+        <div className="flex items-center gap-4">
+          <button onClick={onApplyToTranscript} disabled={!canApply || errors.length > 0} className={linkClass}>
+            Apply to current transcript
+          </button>
+          <button onClick={() => fileInputRef.current?.click()} className={linkClass}>
+            Import
+          </button>
+          <button onClick={handleExport} className={linkClass}>
+            Export
+          </button>
+          <button onClick={() => replaceWith(DEFAULT_RULE_SET)} className={linkClass}>
+            Clear
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0]
+              e.target.value = ''
+              if (file) {
+                handleImport(file)
+              }
+            }}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-4 text-sm text-gray-400">
+        <label className="block space-y-1">
+          <span>Glossary - one term per line, optionally followed by the mishearings to correct</span>
+          <textarea
+            value={glossaryText}
+            onChange={(e) => {
+              setGlossaryText(e.target.value)
+              update({ glossary: parseGlossary(e.target.value) })
+            }}
+            rows={4}
+            placeholder={'OpenAI: open ai, open eye\nKubernetes: cooper netties'}
+            className={`${fieldClass} font-mono`}
+          />
+          <span className="block text-xs text-gray-500">
+            Terms are also added to the vocabulary prompt of the next session.
+          </span>
+        </label>
+
+        <div className="space-y-2">
+          <div className="flex items-center gap-4">
+            <span>Replacement rules, applied top to bottom</span>
+            <button onClick={() => update({ rules: ruleSet.rules.concat(NEW_RULES.replace) })} className={linkClass}>
+              + Text
+            </button>
+            <button onClick={() => update({ rules: ruleSet.rules.concat(NEW_RULES.regex) })} className={linkClass}>
+              + Regex
+            </button>
+          </div>
+
+          {ruleSet.rules.map((rule, index) => (
+            <div key={index} className="flex items-center gap-2 flex-wrap">
+              <input
+                type="checkbox"
+                checked={rule.enabled}
+                onChange={(e) => updateRule(index, { enabled: e.target.checked })}
+                title="Enabled"
+                className="accent-blue-600"
+              />
+              {rule.kind === 'replace' ? (
+                <input
+                  value={rule.find}
+                  onChange={(e) => updateRule(index, { find: e.target.value })}
+                  placeholder="Find"
+                  className={`${fieldClass} !w-48`}
+                />
+              ) : (
+                <>
+                  <input
+                    value={rule.pattern}
+                    onChange={(e) => updateRule(index, { pattern: e.target.value })}
+                    placeholder="Regular expression"
+                    className={`${fieldClass} !w-48 font-mono`}
+                  />
+                  <input
+                    value={rule.flags}
+                    onChange={(e) => updateRule(index, { flags: e.target.value })}
+                    placeholder="Flags"
+                    title="Flags (i, m, s, u)"
+                    className={`${fieldClass} !w-16 font-mono`}
+                  />
+                </>
+              )}
+              <span>→</span>
+              <input
+                value={rule.replace}
+                onChange={(e) => updateRule(index, { replace: e.target.value })}
+                placeholder={rule.kind === 'regex' ? 'Replacement ($1 for groups)' : 'Replace with'}
+                className={`${fieldClass} !w-48`}
+              />
+              {rule.kind === 'replace' && (
+                <>
+                  <label className="flex items-center gap-1">
+                    <input
+                      type="checkbox"
+                      checked={rule.preserveCase}
+                      onChange={(e) => updateRule(index, { preserveCase: e.target.checked })}
+                      className="accent-blue-600"
+                    />
+                    <span>Keep case</span>
+                  </label>
+                  <label className="flex items-center gap-1">
+                    <input
+                      type="checkbox"
+                      checked={rule.wholeWord}
+                      onChange={(e) => updateRule(index, { wholeWord: e.target.checked })}
+                      className="accent-blue-600"
+                    />
+                    <span>Whole word</span>
+                  </label>
+                </>
+              )}
+              <button
+                onClick={() => update({ rules: ruleSet.rules.filter((_, i) => i !== index) })}
+                className="ml-auto text-gray-500 hover:text-red-300"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={ruleSet.normalizeNumbers}
+              onChange={(e) => update({ normalizeNumbers: e.target.checked })}
+              className="accent-blue-600"
+            />
+            <span>Spelled-out numbers as digits (twenty five percent → 25%)</span>
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={ruleSet.normalizePunctuation}
+              onChange={(e) => update({ normalizePunctuation: e.target.checked })}
+              className="accent-blue-600"
+            />
+            <span>Tidy punctuation and spacing</span>
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={ruleSet.maskProfanity}
+              onChange={(e) => update({ maskProfanity: e.target.checked })}
+              className="accent-blue-600"
+            />
+            <span>Mask profanity</span>
+          </label>
+          {ruleSet.maskProfanity && (
+            <input
+              value={profanityText}
+              onChange={(e) => {
+                setProfanityText(e.target.value)
+                update({ profanityWords: e.target.value.split(',').map(word => word.trim()).filter(word => word) })
+              }}
+              placeholder="Extra words to mask, comma separated"
+              className={fieldClass}
+            />
+          )}
+        </div>
+      </div>
+
+      {errors.concat(importErrors).length > 0 && (
+        <ul className="mt-4 text-sm text-red-300 space-y-1">
+          {errors.concat(importErrors).map(message => <li key={message}>{message}</li>)}
+        </ul>
+      )}
+    </div>
+  )
+}
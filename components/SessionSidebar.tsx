@@ -0,0 +1,145 @@
+'use client'
+
+import { useState } from 'react'
+import type { SessionRecord } from '../lib/history'
+
+interface SessionSidebarProps {
+  sessions: SessionRecord[]
+  activeSessionId: string | null
+  query: string
+  // Reopening replaces the transcript, so it's blocked while recording
+  isRecording: boolean
+  onQueryChange: (query: string) => void
+  onOpen: (id: string) => void
+  onRename: (id: string, title: string) => void
+  onDelete: (id: string) => void
+  onClose: () => void
+}
+
+function describe(session: SessionRecord): string {
+  const finals = session.segments.filter(segment => segment.status === 'final').length
+  const date = new Date(session.startedAt).toLocaleString()
+  return `${date} · ${finals} segment${finals === 1 ? '' : 's'}`
+}
+
+export default function SessionSidebar({
+  sessions,
+  activeSessionId,
+  query,
+  isRecording,
+  onQueryChange,
+  onOpen,
+  onRename,
+  onDelete,
+  onClose,
+}: SessionSidebarProps) {
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [draftTitle, setDraftTitle] = useState('')
+
+  const startRename = (session: SessionRecord) => {
+    setEditingId(session.id)
+    setDraftTitle(session.title)
+  }
+
+  const commitRename = () => {
+    if (editingId && draftTitle.trim()) {
+      onRename(editingId, draftTitle.trim())
+    }
+    setEditingId(null)
+  }
+
+  const handleDelete = (session: SessionRecord) => {
+    if (window.confirm(`Delete "${session.title}"? This cannot be undone.`)) {
+      onDelete(session.id)
+    }
+  }
+
+  return (
+    <aside className="fixed inset-y-0 right-0 w-80 max-w-full bg-gray-900 border-l border-gray-800 shadow-2xl z-20 flex flex-col">
+      <div className="px-4 py-4 border-b border-gray-800 flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-white">History</h2>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-200 text-sm">
+          Close
+        </button>
+      </div>
+
+      <div className="p-4 border-b border-gray-800">
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => onQueryChange(e.target.value)}
+          placeholder="Search titles and transcripts"
+          className="w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm text-gray-200 placeholder-gray-500"
+        />
+      </div>
+
+      <ul className="flex-1 overflow-y-auto">
+        {sessions.length === 0 && (
+          <li className="p-4 text-sm text-gray-500">
+            {query ? 'No sessions match your search' : 'No saved sessions yet'}
+          </li>
+        )}
+        {sessions.map(session => {
+          const isActive = session.id === activeSessionId
+          const isLive = isActive && isRecording
+
+          return (
+            <li
+              key={session.id}
+              className={`px-4 py-3 border-b border-gray-800/60 ${isActive ? 'bg-gray-800/60' : ''}`}
+            >
+              {editingId === session.id ? (
+                <input
+                  autoFocus
+                  value={draftTitle}
+                  onChange={(e) => setDraftTitle(e.target.value)}
+                  onBlur={commitRename}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') {
+                      commitRename()
+                    } else if (e.key === 'Escape') {
+                      setEditingId(null)
+                    }
+                  }}
+                  className="w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-200"
+                />
+              ) : (
+                <button
+                  onClick={() => onOpen(session.id)}
+                  disabled={isRecording}
+                  className="w-full text-left text-sm font-medium text-gray-200 hover:text-white disabled:cursor-not-allowed truncate"
+                >
+                  {session.title}
+                </button>
+              )}
+
+              <p className="text-xs text-gray-500 mt-1">
+                {describe(session)}
+                {isLive && <span className="ml-2 text-red-400">recording</span>}
+                {!isLive && session.stoppedAt === null && <span className="ml-2 text-yellow-400">unfinished</span>}
+                {session.errors.length > 0 && (
+                  <span className="ml-2 text-red-400" title={session.errors.map(e => e.message).join('\n')}>
+                    {session.errors.length} error{session.errors.length === 1 ? '' : 's'}
+                  </span>
+                )}
+              </p>
+
+              <div className="flex gap-3 mt-2 text-xs">
+                <button onClick={() => startRename(session)} className="text-blue-400 hover:text-blue-300">
+                  Rename
+                </button>
+                <button
+                  onClick={() => handleDelete(session)}
+                  disabled={isLive}
+                  className="text-red-400 hover:text-red-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Delete
+                </button>
+              </div>
+            </li>
+          )
+        })}
+      </ul>
+    </aside>
+  )
+}
@@ -0,0 +1,134 @@
+'use client'
+
+import {
+  DEFAULT_SESSION_CONFIG,
+  NOISE_REDUCTION_MODES,
+  NoiseReduction,
+  PROMPT_MAX_LENGTH,
+  SILENCE_DURATION_RANGE,
+  SessionConfig,
+  TRANSCRIPTION_MODELS,
+  TranscriptionModel,
+  validateSessionConfig,
+} from '../lib/session-config'
+
+interface SettingsPanelProps {
+  config: SessionConfig
+  // Settings apply from the next session, so they're locked while one is running
+  disabled?: boolean
+  onChange: (config: SessionConfig) => void
+}
+
+const fieldClass = 'w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm text-gray-200 disabled:opacity-50'
+
+export default function SettingsPanel({ config, disabled, onChange }: SettingsPanelProps) {
+  const errors = validateSessionConfig(config)
+
+  const update = (patch: Partial<SessionConfig>) => {
+    onChange({ ...config, ...patch })
+  }
+
+  return (
+    <div className="bg-gray-900/80 backdrop-blur-sm border border-gray-800 rounded-2xl shadow-2xl p-6 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-white">Session Settings</h2>
+        <button
+          onClick={() => onChange(DEFAULT_SESSION_CONFIG)}
+          disabled={disabled}
+          className="text-sm text-blue-400 hover:text-blue-300 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Reset to defaults
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm text-gray-400">
+        <label className="space-y-1">
+          <span>Transcription model</span>
+          <select
+            value={config.transcriptionModel}
+            onChange={(e) => update({ transcriptionModel: e.target.value as TranscriptionModel })}
+            disabled={disabled}
+            className={fieldClass}
+          >
+            {TRANSCRIPTION_MODELS.map(({ model, label }) => (
+              <option key={model} value={model}>{label}</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="space-y-1">
+          <span>Language</span>
+          <input
+            value={config.language}
+            onChange={(e) => update({ language: e.target.value.trim().toLowerCase() })}
+            disabled={disabled}
+            maxLength={2}
+            placeholder="Auto-detect (or e.g. en, de, fr)"
+            className={fieldClass}
+          />
+        </label>
+
+        <label className="space-y-1 md:col-span-2">
+          <span>Vocabulary prompt</span>
+          <textarea
+            value={config.prompt}
+            onChange={(e) => update({ prompt: e.target.value })}
+            disabled={disabled}
+            maxLength={PROMPT_MAX_LENGTH}
+            rows={2}
+            placeholder="Names, jargon and spellings the model should expect"
+            className={fieldClass}
+          />
+        </label>
+
+        <label className="space-y-1">
+          <span>Server VAD threshold: {config.vadThreshold.toFixed(2)}</span>
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.05}
+            value={config.vadThreshold}
+            onChange={(e) => update({ vadThreshold: Number(e.target.value) })}
+            disabled={disabled}
+            className="w-full accent-blue-600"
+          />
+        </label>
+
+        <label className="space-y-1">
+          <span>Silence before end of turn (ms)</span>
+          <input
+            type="number"
+            min={SILENCE_DURATION_RANGE.min}
+            max={SILENCE_DURATION_RANGE.max}
+            step={100}
+            value={config.silenceDurationMs}
+            onChange={(e) => update({ silenceDurationMs: Number(e.target.value) })}
+            disabled={disabled}
+            className={fieldClass}
+          />
+        </label>
+
+        <label className="space-y-1">
+          <span>Noise reduction</span>
+          <select
+            value={config.noiseReduction}
+            onChange={(e) => update({ noiseReduction: e.target.value as NoiseReduction })}
+            disabled={disabled}
+            className={fieldClass}
+          >
+            {NOISE_REDUCTION_MODES.map(({ mode, label }) => (
+              <option key={mode} value={mode}>{label}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="mt-4 text-sm text-red-300 space-y-1">
+          {errors.map(message => <li key={message}>{message}</li>)}
+        </ul>
+      )}
+    </div>
+  )
+}
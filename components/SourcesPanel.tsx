@@ -0,0 +1,114 @@
+'use client'
+
+import type { InputDevice } from '../lib/audio'
+import {
+  CaptureSource,
+  DEFAULT_CAPTURE_SOURCES,
+  MAX_CAPTURE_SOURCES,
+  MAX_CHANNELS,
+  createCaptureSource,
+  validateCaptureSources,
+} from '../lib/multi-source'
+
+interface SourcesPanelProps {
+  sources: CaptureSource[]
+  devices: InputDevice[]
+  // Sources are fixed for the length of a recording
+  disabled?: boolean
+  onChange: (sources: CaptureSource[]) => void
+}
+
+const fieldClass = 'bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm text-gray-200 disabled:opacity-50'
+
+const CHANNEL_OPTIONS: number[] = []
+for (let channel = 0; channel < MAX_CHANNELS; channel++) {
+  CHANNEL_OPTIONS.push(channel)
+}
+
+export default function SourcesPanel({ sources, devices, disabled, onChange }: SourcesPanelProps) {
+  const errors = validateCaptureSources(sources)
+
+  const updateSource = (index: number, patch: Partial<CaptureSource>) => {
+    onChange(sources.map((source, i) => (i === index ? { ...source, ...patch } : source)))
+  }
+
+  return (
+    <div className="bg-gray-900/80 backdrop-blur-sm border border-gray-800 rounded-2xl shadow-2xl p-6 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-white">Sources</h2>
+        <div className="flex items-center gap-4">
+          <button
+            onClick={() => onChange(sources.concat(createCaptureSource(`Speaker ${sources.length + 1}`)))}
+            disabled={disabled || sources.length >= MAX_CAPTURE_SOURCES}
+            className="text-sm text-blue-400 hover:text-blue-300 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            + Add source
+          </button>
+          <button
+            onClick={() => onChange(DEFAULT_CAPTURE_SOURCES)}
+            disabled={disabled}
+            className="text-sm text-blue-400 hover:text-blue-300 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Reset to defaults
+          </button>
+        </div>
+      </div>
+
+      <p className="text-sm text-gray-500 mb-4">
+        Each source is transcribed in its own session and labelled with its speaker. Pick a channel to
+        split a multi-channel interface or stereo recorder; voice processing is switched off for those inputs.
+      </p>
+
+      <div className="space-y-2">
+        {sources.map((source, index) => (
+          <div key={source.id} className="flex items-center gap-2 flex-wrap">
+            <input
+              value={source.speaker}
+              onChange={(e) => updateSource(index, { speaker: e.target.value })}
+              disabled={disabled}
+              placeholder="Speaker name"
+              className={`${fieldClass} w-40`}
+            />
+            <select
+              value={source.deviceId ?? ''}
+              onChange={(e) => updateSource(index, { deviceId: e.target.value || null })}
+              disabled={disabled}
+              className={`${fieldClass} max-w-[16rem]`}
+            >
+              <option value="">System default</option>
+              {devices
+                .filter(device => device.deviceId && device.deviceId !== 'default')
+                .map(device => (
+                  <option key={device.deviceId} value={device.deviceId}>{device.label}</option>
+                ))}
+            </select>
+            <select
+              value={source.channel === null ? '' : String(source.channel)}
+              onChange={(e) => updateSource(index, { channel: e.target.value === '' ? null : Number(e.target.value) })}
+              disabled={disabled}
+              className={fieldClass}
+            >
+              <option value="">Whole device (mono)</option>
+              {CHANNEL_OPTIONS.map(channel => (
+                <option key={channel} value={channel}>Channel {channel + 1}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => onChange(sources.filter((_, i) => i !== index))}
+              disabled={disabled}
+              className="ml-auto text-sm text-gray-500 hover:text-red-300 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="mt-4 text-sm text-red-300 space-y-1">
+          {errors.map(message => <li key={message}>{message}</li>)}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,320 @@
+'use client'
+
+import { useEffect, useLayoutEffect, useRef, useState } from 'react'
+import { formatOffset, TranscriptSegment } from '../lib/transcript'
+import { splitByMatches } from '../lib/transcript-search'
+
+export type TranscriptLayout = 'text' | 'chat'
+
+export interface SearchMatch {
+  segmentId: string
+  // Which match within the segment's text
+  index: number
+}
+
+interface TranscriptViewProps {
+  segments: readonly TranscriptSegment[]
+  // 'chat' groups consecutive segments by speaker into bubbles
+  layout?: TranscriptLayout
+  isRecording: boolean
+  // Click-to-play is offered once a recording is available
+  canPlay: boolean
+  playingSegmentId: string | null
+  searchPattern: RegExp | null
+  activeMatch: SearchMatch | null
+  onPlay: (segment: TranscriptSegment) => void
+  onEdit: (id: string, text: string) => void
+  onRevert: (id: string) => void
+}
+
+// Within this distance of the bottom counts as following new text
+const FOLLOW_THRESHOLD_PX = 40
+
+// A single click waits this long in case it turns into a double-click (edit)
+const CLICK_DELAY_MS = 250
+
+// Bubble colours by speaker, in order of first appearance
+const SPEAKER_STYLES = [
+  { bubble: 'bg-gray-800/80', name: 'text-blue-300' },
+  { bubble: 'bg-blue-900/40', name: 'text-green-300' },
+  { bubble: 'bg-purple-900/30', name: 'text-purple-300' },
+  { bubble: 'bg-amber-900/30', name: 'text-amber-300' },
+]
+
+interface SpeakerTurn {
+  speaker: string | null
+  segments: TranscriptSegment[]
+}
+
+// Consecutive segments by the same speaker; pause markers get a turn of their own
+function speakerTurns(segments: readonly TranscriptSegment[]): SpeakerTurn[] {
+  const turns: SpeakerTurn[] = []
+  segments.forEach(segment => {
+    const last = turns[turns.length - 1]
+    const speaker = segment.speaker ?? null
+    if (last && segment.status !== 'marker' && last.segments[0].status !== 'marker' && last.speaker === speaker) {
+      last.segments.push(segment)
+    } else {
+      turns.push({ speaker, segments: [segment] })
+    }
+  })
+  return turns
+}
+
+export default function TranscriptView({
+  segments,
+  layout = 'text',
+  isRecording,
+  canPlay,
+  playingSegmentId,
+  searchPattern,
+  activeMatch,
+  onPlay,
+  onEdit,
+  onRevert,
+}: TranscriptViewProps) {
+  const containerRef = useRef<HTMLDivElement | null>(null)
+  const clickTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const [isFollowing, setIsFollowing] = useState(true)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [draft, setDraft] = useState('')
+
+  // Follow new text unless the user has scrolled up (or is editing)
+  useLayoutEffect(() => {
+    const container = containerRef.current
+    if (container && isFollowing && editingId === null) {
+      container.scrollTop = container.scrollHeight
+    }
+  }, [segments, isFollowing, editingId])
+
+  useEffect(() => {
+    if (!activeMatch) {
+      return
+    }
+    const element = containerRef.current?.querySelector(`[data-segment-id="${activeMatch.segmentId}"]`)
+    element?.scrollIntoView({ block: 'nearest' })
+  }, [activeMatch])
+
+  useEffect(() => {
+    return () => {
+      if (clickTimerRef.current) {
+        clearTimeout(clickTimerRef.current)
+      }
+    }
+  }, [])
+
+  const handleScroll = () => {
+    const container = containerRef.current
+    if (container) {
+      setIsFollowing(container.scrollHeight - container.scrollTop - container.clientHeight < FOLLOW_THRESHOLD_PX)
+    }
+  }
+
+  const jumpToLatest = () => {
+    setIsFollowing(true)
+    const container = containerRef.current
+    if (container) {
+      container.scrollTop = container.scrollHeight
+    }
+  }
+
+  const handleClick = (segment: TranscriptSegment) => {
+    if (!canPlay || segment.status !== 'final') {
+      return
+    }
+    if (clickTimerRef.current) {
+      clearTimeout(clickTimerRef.current)
+    }
+    clickTimerRef.current = setTimeout(() => {
+      clickTimerRef.current = null
+      onPlay(segment)
+    }, CLICK_DELAY_MS)
+  }
+
+  const startEditing = (segment: TranscriptSegment) => {
+    if (segment.status !== 'final') {
+      return
+    }
+    if (clickTimerRef.current) {
+      clearTimeout(clickTimerRef.current)
+      clickTimerRef.current = null
+    }
+    setEditingId(segment.id)
+    setDraft(segment.text)
+  }
+
+  const finishEditing = (save: boolean) => {
+    if (save && editingId !== null) {
+      onEdit(editingId, draft)
+    }
+    setEditingId(null)
+  }
+
+  const renderText = (segment: TranscriptSegment) => {
+    let matchIndex = 0
+    return splitByMatches(segment.text, segment.status === 'final' ? searchPattern : null).map((part, index) => {
+      if (!part.isMatch) {
+        return part.text
+      }
+      const isActive = activeMatch !== null && activeMatch.segmentId === segment.id && activeMatch.index === matchIndex
+      matchIndex++
+      return (
+        <mark key={index} className={`${isActive ? 'bg-orange-500/70' : 'bg-yellow-500/40'} text-inherit rounded`}>
+          {part.text}
+        </mark>
+      )
+    })
+  }
+
+  const renderSegment = (segment: TranscriptSegment) => {
+    if (segment.status === 'marker') {
+      return (
+        <span
+          key={segment.id}
+          className="inline-block mx-1 px-2 rounded bg-gray-800 text-gray-400 text-sm align-middle"
+        >
+          Paused{segment.finalizedAt !== null ? ` ${formatOffset(segment.finalizedAt - segment.createdAt)}` : '…'}
+        </span>
+      )
+    }
+
+    const isEdited = segment.originalText !== undefined
+
+    if (segment.id === editingId) {
+      return (
+        <span key={segment.id} className="block my-2">
+          <textarea
+            autoFocus
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onBlur={() => finishEditing(true)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && !e.shiftKey) {
+                e.preventDefault()
+                finishEditing(true)
+              } else if (e.key === 'Escape') {
+                finishEditing(false)
+              }
+            }}
+            rows={Math.max(2, Math.ceil(draft.length / 80))}
+            className="w-full bg-gray-800 border border-blue-700 rounded-lg px-3 py-2 text-base text-gray-200"
+          />
+          <span className="flex items-center gap-3 text-xs text-gray-500">
+            <span>Enter to save · Esc to cancel</span>
+            {isEdited && (
+              <>
+                <span className="truncate">Original: {segment.originalText}</span>
+                <button
+                  // Keep the textarea's blur from saving the draft first
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => {
+                    setEditingId(null)
+                    onRevert(segment.id)
+                  }}
+                  className="text-blue-400 hover:text-blue-300"
+                >
+                  Revert
+                </button>
+              </>
+            )}
+          </span>
+        </span>
+      )
+    }
+
+    // An edit may have emptied the text - keep it visible so it can be reverted
+    if (!segment.text && segment.status === 'final' && !isEdited) {
+      return null
+    }
+
+    return (
+      <span
+        key={segment.id}
+        data-segment-id={segment.id}
+        title={`${segment.speaker ? `${segment.speaker} · ` : ''}${formatOffset(segment.startMs)}${isEdited ? ` · edited - original: ${segment.originalText}` : ''}`}
+        onClick={() => handleClick(segment)}
+        onDoubleClick={() => startEditing(segment)}
+        className={`${segment.status === 'final' ? 'whitespace-pre-wrap' : 'text-gray-400 italic'} ${
+          canPlay ? 'cursor-pointer hover:bg-gray-800 rounded' : ''
+        } ${segment.id === playingSegmentId ? 'bg-blue-900/40 rounded' : ''} ${
+          isEdited ? 'underline decoration-dotted decoration-blue-400/60' : ''
+        }`}
+      >
+        {/* Speech has started but no text has been transcribed yet */}
+        {segment.text
+          ? renderText(segment)
+          : segment.status === 'partial' ? <span className="animate-pulse">…</span> : <span className="text-gray-600">(empty)</span>}{' '}
+      </span>
+    )
+  }
+
+  const renderChat = () => {
+    const speakers: string[] = []
+    return speakerTurns(segments).map(turn => {
+      const first = turn.segments[0]
+      if (first.status === 'marker') {
+        return <div key={first.id} className="text-center">{renderSegment(first)}</div>
+      }
+      // Same rule as renderSegment: empty finals are hidden unless they were edited
+      if (turn.segments.every(s => s.status === 'final' && !s.text && s.originalText === undefined)) {
+        return null
+      }
+
+      if (turn.speaker !== null && speakers.indexOf(turn.speaker) === -1) {
+        speakers.push(turn.speaker)
+      }
+      const index = turn.speaker !== null ? speakers.indexOf(turn.speaker) : 0
+      const style = SPEAKER_STYLES[index % SPEAKER_STYLES.length]
+      return (
+        <div key={first.id} className={`flex ${index % 2 === 1 ? 'justify-end' : 'justify-start'}`}>
+          <div className={`max-w-[80%] rounded-2xl px-4 py-2 ${style.bubble}`}>
+            <div className="flex items-baseline gap-2 text-xs mb-1">
+              <span className={`font-semibold ${style.name}`}>{turn.speaker ?? 'Unlabelled'}</span>
+              <span className="text-gray-500">{formatOffset(first.startMs)}</span>
+            </div>
+            {turn.segments.map(renderSegment)}
+          </div>
+        </div>
+      )
+    })
+  }
+
+  return (
+    <div className="relative">
+      <div ref={containerRef} onScroll={handleScroll} className="p-6 min-h-[400px] max-h-[600px] overflow-y-auto">
+        {segments.length > 0 ? (
+          layout === 'chat' ? (
+            <div className="text-gray-200 leading-relaxed space-y-3">
+              {renderChat()}
+            </div>
+          ) : (
+            <div className="text-gray-200 leading-relaxed text-lg">
+              {segments.map(renderSegment)}
+            </div>
+          )
+        ) : (
+          <div className="flex flex-col items-center justify-center h-full min-h-[300px] text-center">
+            <svg className="h-16 w-16 text-gray-700 mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" />
+            </svg>
+            <p className="text-gray-500 text-lg mb-2">
+              {isRecording ? 'Speak into your microphone...' : 'Click "Start Recording" to begin'}
+            </p>
+            <p className="text-gray-600 text-sm">
+              Your transcription will appear here in real-time
+            </p>
+          </div>
+        )}
+      </div>
+
+      {!isFollowing && isRecording && (
+        <button
+          onClick={jumpToLatest}
+          className="absolute bottom-4 right-6 px-3 py-1.5 rounded-lg text-sm font-medium bg-blue-600 hover:bg-blue-700 text-white shadow-lg"
+        >
+          Jump to latest
+        </button>
+      )}
+    </div>
+  )
+}
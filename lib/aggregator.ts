@@ -0,0 +1,63 @@
+import { PCM16Encoder, PCM16Chunk } from './encoder'
+import { now } from './stats'
+
+// Main-thread counterpart of the chunking in public/audio-processor.js
+// Accumulates Float32 frames into fixed-size PCM16 chunks for sources that
+// don't run through the worklet
+export class FrameAggregator {
+  private buffer: Float32Array
+  private fill = 0
+  private capturedAt = 0
+
+  constructor(chunkSamples: number) {
+    this.buffer = new Float32Array(Math.max(1, Math.round(chunkSamples)))
+  }
+
+  get chunkSamples(): number {
+    return this.buffer.length
+  }
+
+  // Add a frame, returning every chunk it completed (usually zero or one)
+  push(frame: Float32Array): PCM16Chunk[] {
+    const chunks: PCM16Chunk[] = []
+    let offset = 0
+
+    while (offset < frame.length) {
+      if (this.fill === 0) {
+        this.capturedAt = now()
+      }
+
+      const count = Math.min(frame.length - offset, this.buffer.length - this.fill)
+      this.buffer.set(frame.subarray(offset, offset + count), this.fill)
+      this.fill += count
+      offset += count
+
+      if (this.fill === this.buffer.length) {
+        chunks.push(this.emit(this.buffer))
+      }
+    }
+
+    return chunks
+  }
+
+  // Emit whatever is buffered as a short final chunk
+  flush(): PCM16Chunk | null {
+    if (this.fill === 0) {
+      return null
+    }
+    return this.emit(this.buffer.subarray(0, this.fill))
+  }
+
+  reset(): void {
+    this.fill = 0
+  }
+
+  private emit(samples: Float32Array): PCM16Chunk {
+    const chunk = {
+      pcm16: new Int16Array(PCM16Encoder.encode(samples)),
+      capturedAt: this.capturedAt,
+    }
+    this.fill = 0
+    return chunk
+  }
+}
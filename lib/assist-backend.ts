@@ -0,0 +1,127 @@
+import { languageLabel } from './assist'
+
+// Model backends for /api/assist (server-only - holds the API key)
+// Selected with ASSIST_BACKEND; anything else can be plugged in by implementing AssistBackend
+
+export interface AssistBackend {
+  translate(text: string, targetLanguage: string, context?: string): Promise<string>
+  summarize(transcript: string, previousSummary?: string): Promise<string>
+  actionItems(transcript: string): Promise<string[]>
+}
+
+export type AssistBackendName = 'openai' | 'stub'
+
+export const DEFAULT_ASSIST_MODEL = 'gpt-4o-mini'
+
+const CHAT_COMPLETIONS_URL = 'https://api.openai.com/v1/chat/completions'
+// A stalled completion would otherwise hold the route open until the platform kills it
+const COMPLETION_TIMEOUT_MS = 30000
+
+// Chat Completions with a fixed system prompt per task; temperature 0 keeps reruns stable
+export class OpenAIAssistBackend implements AssistBackend {
+  private apiKey: string
+  private model: string
+
+  constructor(apiKey: string, model: string = DEFAULT_ASSIST_MODEL) {
+    this.apiKey = apiKey
+    this.model = model
+  }
+
+  translate(text: string, targetLanguage: string, context?: string): Promise<string> {
+    const system = `Translate the user's speech transcript into ${languageLabel(targetLanguage)}. ` +
+      'Reply with the translation only. Keep names and technical terms as they are.'
+    const user = context
+      ? `Earlier in the conversation (context only, do not translate):\n${context}\n\nTranslate:\n${text}`
+      : text
+    return this.complete(system, user)
+  }
+
+  summarize(transcript: string, previousSummary?: string): Promise<string> {
+    const system = 'You summarize meeting transcripts. Reply with a short summary in plain prose, ' +
+      'in the language of the transcript, covering decisions, open questions and who said what when it matters.'
+    const user = previousSummary
+      ? `Summary so far:\n${previousSummary}\n\nUpdate it with the rest of the transcript:\n${transcript}`
+      : transcript
+    return this.complete(system, user)
+  }
+
+  async actionItems(transcript: string): Promise<string[]> {
+    const system = 'List the action items (tasks someone agreed or was asked to do) in this transcript, ' +
+      'one per line, with the owner if known. Reply with nothing if there are none.'
+    const reply = await this.complete(system, transcript)
+    return reply
+      .split('\n')
+      .map(line => line.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, '').trim())
+      .filter(Boolean)
+  }
+
+  private async complete(system: string, user: string): Promise<string> {
+    const response = await fetch(CHAT_COMPLETIONS_URL, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: this.model,
+        temperature: 0,
+        messages: [
+          { role: 'system', content: system },
+          { role: 'user', content: user },
+        ],
+      }),
+      signal: AbortSignal.timeout(COMPLETION_TIMEOUT_MS),
+    })
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => null)
+      console.error('Assist completion failed:', errorData)
+      throw new Error(errorData?.error?.message || `OpenAI returned ${response.status}`)
+    }
+
+    const data = await response.json()
+    const content = data.choices?.[0]?.message?.content
+    if (typeof content !== 'string') {
+      throw new Error('OpenAI returned no text')
+    }
+    return content.trim()
+  }
+}
+
+const ACTION_CUE = /\b(?:i|we|you|they|he|she)(?:'ll| will| need to| should| have to)\b|\b(?:let's|todo|to do|action item|follow up|deadline)\b/i
+
+function sentences(text: string): string[] {
+  return (text.match(/[^.!?]+[.!?]*/g) || []).map(s => s.trim()).filter(Boolean)
+}
+
+// Deterministic, offline stand-in for development and tests - no network, no key.
+// Translations are tagged rather than translated; summaries keep each chunk's first sentence
+export class StubAssistBackend implements AssistBackend {
+  async translate(text: string, targetLanguage: string): Promise<string> {
+    return `[${targetLanguage}] ${text.trim()}`
+  }
+
+  async summarize(transcript: string, previousSummary?: string): Promise<string> {
+    const first = sentences(transcript)[0] || ''
+    return [previousSummary || '', first].filter(Boolean).join(' ')
+  }
+
+  async actionItems(transcript: string): Promise<string[]> {
+    return sentences(transcript).filter(sentence => ACTION_CUE.test(sentence))
+  }
+}
+
+// ASSIST_BACKEND (openai by default) + ASSIST_MODEL; null when the backend can't run
+export function assistBackendFromEnv(env: NodeJS.ProcessEnv = process.env): AssistBackend | null {
+  const name = (env.ASSIST_BACKEND || 'openai') as AssistBackendName
+
+  switch (name) {
+    case 'stub':
+      return new StubAssistBackend()
+    case 'openai':
+      return env.OPENAI_API_KEY ? new OpenAIAssistBackend(env.OPENAI_API_KEY, env.ASSIST_MODEL || DEFAULT_ASSIST_MODEL) : null
+    default:
+      console.error(`Unknown ASSIST_BACKEND "${name}" - assist requests will fail`)
+      return null
+  }
+}
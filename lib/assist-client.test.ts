@@ -0,0 +1,66 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { AssistStore } from './assist-client'
+import type { TranscriptSegment } from './transcript'
+
+function segment(id: string, text: string): TranscriptSegment {
+  return { id, text, status: 'final', startMs: 0, endMs: null, createdAt: 0, finalizedAt: 0 }
+}
+
+function json(status: number, body: object): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } })
+}
+
+// Answers each /api/assist request with the next queued response and records the texts sent
+function stubFetch(responses: Response[]) {
+  const sent: string[] = []
+  vi.stubGlobal('fetch', vi.fn(async (_url: string, init: RequestInit) => {
+    sent.push(JSON.parse(init.body as string).text)
+    return responses.shift() ?? json(200, { translation: 'ok' })
+  }))
+  return sent
+}
+
+afterEach(() => {
+  vi.useRealTimers()
+  vi.unstubAllGlobals()
+  vi.restoreAllMocks()
+})
+
+describe('AssistStore translations', () => {
+  it('waits out Retry-After before sending the rest of the queue', async () => {
+    vi.useFakeTimers()
+    const sent = stubFetch([json(429, { code: 'rate_limited', error: 'slow down', retryAfterSeconds: 5 })])
+    const store = new AssistStore()
+    store.sync([segment('a', 'one'), segment('b', 'two')], 'es')
+
+    await vi.advanceTimersByTimeAsync(4000)
+    expect(sent).toEqual(['one'])
+    expect(store.getSnapshot().translations.a.status).toBe('pending')
+
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(sent).toEqual(['one', 'one', 'two'])
+    expect(store.getSnapshot().translations.a).toMatchObject({ text: 'ok', status: 'done', error: null })
+  })
+
+  it('keeps the error out of the text and retries on the next sync', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const sent = stubFetch([
+      json(200, { translation: 'uno' }),
+      json(502, { code: 'upstream_error', error: 'Model request failed' }),
+    ])
+    const store = new AssistStore()
+    store.sync([segment('a', 'one')], 'es')
+    await vi.waitFor(() => expect(store.getSnapshot().translations.a.status).toBe('done'))
+
+    store.sync([segment('a', 'one!')], 'es')
+    await vi.waitFor(() => expect(store.getSnapshot().translations.a.status).toBe('error'))
+    expect(store.getSnapshot().translations.a).toMatchObject({
+      text: 'uno',
+      error: 'The model could not complete the request - try again shortly.',
+    })
+
+    store.sync([segment('a', 'one!')], 'es')
+    await vi.waitFor(() => expect(store.getSnapshot().translations.a).toMatchObject({ text: 'ok', status: 'done', error: null }))
+    expect(sent).toEqual(['one', 'one!', 'one!'])
+  })
+})
@@ -0,0 +1,261 @@
+import { ASSIST_TEXT_MAX_LENGTH, AssistErrorBody, AssistRequest, AssistResponses, describeAssistError } from './assist'
+import { TranscriptSegment } from './transcript'
+
+// Client side of /api/assist: a store of translations per final segment plus the
+// latest summary and action items, for useSyncExternalStore
+
+// A failed request; retryAfterSeconds is set when the route rate-limited it
+export class AssistRequestError extends Error {
+  readonly retryAfterSeconds?: number
+
+  constructor(message: string, retryAfterSeconds?: number) {
+    super(message)
+    this.name = 'AssistRequestError'
+    this.retryAfterSeconds = retryAfterSeconds
+  }
+}
+
+export async function requestAssist<T extends AssistRequest>(request: T): Promise<AssistResponses[T['task']]> {
+  const response = await fetch('/api/assist', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+  })
+
+  if (!response.ok) {
+    const errorData: Partial<AssistErrorBody> = await response.json().catch(() => ({}))
+    throw new AssistRequestError(describeAssistError(errorData), errorData.retryAfterSeconds)
+  }
+  return response.json()
+}
+
+export type AssistStatus = 'idle' | 'loading' | 'done' | 'error'
+
+export interface SegmentTranslation {
+  // What was translated - a later edit to the segment makes the translation stale
+  sourceText: string
+  language: string
+  // The translation - on error, the last good one (if any) is kept here
+  text: string
+  status: 'pending' | 'done' | 'error'
+  error: string | null
+}
+
+export interface AssistResult<T> {
+  status: AssistStatus
+  value: T | null
+  error: string | null
+}
+
+export interface AssistSnapshot {
+  translations: { [segmentId: string]: SegmentTranslation }
+  summary: AssistResult<string>
+  actionItems: AssistResult<string[]>
+}
+
+type Listener = () => void
+
+// Context sent with each translation, from the end of the preceding final text
+const TRANSLATION_CONTEXT_CHARS = 500
+
+const EMPTY_RESULT = { status: 'idle' as AssistStatus, value: null, error: null }
+
+function finalSegments(segments: readonly TranscriptSegment[]): TranscriptSegment[] {
+  return segments.filter(s => s.status === 'final' && s.text.trim() !== '')
+}
+
+export class AssistStore {
+  private snapshot: AssistSnapshot = { translations: {}, summary: EMPTY_RESULT, actionItems: EMPTY_RESULT }
+  private listeners: Listener[] = []
+  // Segment IDs waiting to be translated, in transcript order; one request runs at a time
+  private queue: string[] = []
+  private isTranslating = false
+  private latest: readonly TranscriptSegment[] = []
+  // Final segments already folded into the rolling summary
+  private summarizedIds: string[] = []
+  // Bumped by reset() so responses for a previous transcript are dropped
+  private generation = 0
+  // After a 429 the queue waits for the route's Retry-After instead of firing the rest
+  private retryTimer: ReturnType<typeof setTimeout> | null = null
+
+  subscribe = (listener: Listener): (() => void) => {
+    this.listeners.push(listener)
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener)
+    }
+  }
+
+  getSnapshot = (): AssistSnapshot => {
+    return this.snapshot
+  }
+
+  // Queue every final segment without an up-to-date translation into `language`;
+  // failed ones are retried too
+  sync(segments: readonly TranscriptSegment[], language: string): void {
+    this.latest = segments
+    const translations = this.snapshot.translations
+    finalSegments(segments).forEach(segment => {
+      const existing = translations[segment.id]
+      const isCurrent = existing && existing.sourceText === segment.text && existing.language === language
+      if (isCurrent && existing.status !== 'error') {
+        return
+      }
+      // Keep showing the previous translation until the new one arrives
+      this.setTranslation(segment.id, { sourceText: segment.text, language, text: existing?.text ?? '', status: 'pending', error: null })
+      if (this.queue.indexOf(segment.id) === -1) {
+        this.queue.push(segment.id)
+      }
+    })
+    this.translateNext()
+  }
+
+  // Fold the final text since the last summary into it. The first call (or one after
+  // reset) summarizes everything, in chunks if the transcript is long
+  async summarize(segments: readonly TranscriptSegment[]): Promise<void> {
+    const generation = this.generation
+    const pending = finalSegments(segments).filter(s => this.summarizedIds.indexOf(s.id) === -1)
+    if (pending.length === 0) {
+      return
+    }
+
+    this.commit({ summary: { ...this.snapshot.summary, status: 'loading', error: null } })
+    let summary = this.snapshot.summary.value
+    try {
+      const chunks = this.chunk(pending)
+      for (let i = 0; i < chunks.length; i++) {
+        const result = await requestAssist({
+          task: 'summarize',
+          transcript: chunks[i].map(s => s.text.trim().slice(0, ASSIST_TEXT_MAX_LENGTH)).join(' ').slice(0, ASSIST_TEXT_MAX_LENGTH),
+          previousSummary: summary ?? undefined,
+        })
+        if (generation !== this.generation) {
+          return
+        }
+        summary = result.summary
+        this.summarizedIds = this.summarizedIds.concat(chunks[i].map(s => s.id))
+      }
+      this.commit({ summary: { status: 'done', value: summary, error: null } })
+    } catch (error) {
+      if (generation === this.generation) {
+        this.commit({ summary: { status: 'error', value: summary, error: error instanceof Error ? error.message : String(error) } })
+      }
+    }
+  }
+
+  // Action items are extracted from the most recent ASSIST_TEXT_MAX_LENGTH characters
+  async extractActionItems(segments: readonly TranscriptSegment[]): Promise<void> {
+    const generation = this.generation
+    const text = finalSegments(segments).map(s => s.text.trim()).join(' ').slice(-ASSIST_TEXT_MAX_LENGTH)
+    if (!text) {
+      return
+    }
+
+    this.commit({ actionItems: { ...this.snapshot.actionItems, status: 'loading', error: null } })
+    try {
+      const result = await requestAssist({ task: 'action_items', transcript: text })
+      if (generation === this.generation) {
+        this.commit({ actionItems: { status: 'done', value: result.items, error: null } })
+      }
+    } catch (error) {
+      if (generation === this.generation) {
+        this.commit({ actionItems: { ...this.snapshot.actionItems, status: 'error', error: error instanceof Error ? error.message : String(error) } })
+      }
+    }
+  }
+
+  // A new or reopened transcript - forget everything, including requests in flight
+  reset(): void {
+    this.generation++
+    this.queue = []
+    this.isTranslating = false
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer)
+      this.retryTimer = null
+    }
+    this.latest = []
+    this.summarizedIds = []
+    this.snapshot = { translations: {}, summary: EMPTY_RESULT, actionItems: EMPTY_RESULT }
+    this.listeners.forEach(listener => listener())
+  }
+
+  private async translateNext(): Promise<void> {
+    if (this.isTranslating || this.retryTimer || this.queue.length === 0) {
+      return
+    }
+
+    const generation = this.generation
+    const id = this.queue.shift() as string
+    const entry = this.snapshot.translations[id]
+    const index = this.latest.map(s => s.id).indexOf(id)
+    if (!entry || index === -1) {
+      this.translateNext()
+      return
+    }
+
+    const context = finalSegments(this.latest.slice(0, index)).map(s => s.text.trim()).join(' ').slice(-TRANSLATION_CONTEXT_CHARS)
+    this.isTranslating = true
+    try {
+      const result = await requestAssist({
+        task: 'translate',
+        text: entry.sourceText,
+        targetLanguage: entry.language,
+        context: context || undefined,
+      })
+      if (generation === this.generation) {
+        this.settle(id, entry, { text: result.translation, status: 'done', error: null })
+      }
+    } catch (error) {
+      if (generation === this.generation) {
+        if (error instanceof AssistRequestError && error.retryAfterSeconds) {
+          // Still pending - back to the front of the queue once the limit resets
+          this.queue.unshift(id)
+          this.retryTimer = setTimeout(() => {
+            this.retryTimer = null
+            this.translateNext()
+          }, error.retryAfterSeconds * 1000)
+        } else {
+          console.warn('Translation failed:', error)
+          this.settle(id, entry, { text: entry.text, status: 'error', error: error instanceof Error ? error.message : String(error) })
+        }
+      }
+    } finally {
+      if (generation === this.generation) {
+        this.isTranslating = false
+        this.translateNext()
+      }
+    }
+  }
+
+  // Record a result unless the segment was re-queued (edited, or the language changed) meanwhile
+  private settle(id: string, requested: SegmentTranslation, patch: Pick<SegmentTranslation, 'text' | 'status' | 'error'>): void {
+    const current = this.snapshot.translations[id]
+    if (current && current.sourceText === requested.sourceText && current.language === requested.language) {
+      this.setTranslation(id, { ...current, ...patch })
+    }
+  }
+
+  // Consecutive runs of segments that each fit in one request
+  private chunk(segments: TranscriptSegment[]): TranscriptSegment[][] {
+    const chunks: TranscriptSegment[][] = []
+    let length = 0
+    segments.forEach(segment => {
+      const text = segment.text.trim().slice(0, ASSIST_TEXT_MAX_LENGTH)
+      if (chunks.length === 0 || length + text.length + 1 > ASSIST_TEXT_MAX_LENGTH) {
+        chunks.push([])
+        length = 0
+      }
+      chunks[chunks.length - 1].push(segment)
+      length += text.length + 1
+    })
+    return chunks
+  }
+
+  private setTranslation(id: string, translation: SegmentTranslation): void {
+    this.commit({ translations: { ...this.snapshot.translations, [id]: translation } })
+  }
+
+  private commit(patch: Partial<AssistSnapshot>): void {
+    this.snapshot = { ...this.snapshot, ...patch }
+    this.listeners.forEach(listener => listener())
+  }
+}
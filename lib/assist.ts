@@ -0,0 +1,149 @@
+// Contract for /api/assist - translation, rolling summaries and action items over final text
+// Shared by the route and the client, like token-errors.ts; the model behind it lives in assist-backend.ts
+
+export type AssistTask = 'translate' | 'summarize' | 'action_items'
+
+export interface TranslateRequest {
+  task: 'translate'
+  text: string
+  // ISO 639-1, one of ASSIST_LANGUAGES
+  targetLanguage: string
+  // The preceding final text, so short segments translate in context; not translated itself
+  context?: string
+}
+
+export interface SummarizeRequest {
+  task: 'summarize'
+  // Only the text since the last summary - previousSummary stands in for the rest
+  transcript: string
+  previousSummary?: string
+}
+
+export interface ActionItemsRequest {
+  task: 'action_items'
+  transcript: string
+}
+
+export type AssistRequest = TranslateRequest | SummarizeRequest | ActionItemsRequest
+
+export interface AssistResponses {
+  translate: { translation: string }
+  summarize: { summary: string }
+  action_items: { items: string[] }
+}
+
+export const ASSIST_LANGUAGES: { code: string; label: string }[] = [
+  { code: 'en', label: 'English' },
+  { code: 'es', label: 'Spanish' },
+  { code: 'fr', label: 'French' },
+  { code: 'de', label: 'German' },
+  { code: 'it', label: 'Italian' },
+  { code: 'pt', label: 'Portuguese' },
+  { code: 'nl', label: 'Dutch' },
+  { code: 'ja', label: 'Japanese' },
+  { code: 'zh', label: 'Chinese' },
+  { code: 'ko', label: 'Korean' },
+  { code: 'ar', label: 'Arabic' },
+  { code: 'hi', label: 'Hindi' },
+]
+
+// Longer transcripts are summarized in rolling chunks (see AssistStore)
+export const ASSIST_TEXT_MAX_LENGTH = 20000
+
+export function languageLabel(code: string): string {
+  const language = ASSIST_LANGUAGES.filter(l => l.code === code)[0]
+  return language ? language.label : code
+}
+
+// Returns one message per problem, like validateSessionConfig
+export function validateAssistRequest(body: unknown): string[] {
+  if (typeof body !== 'object' || body === null) {
+    return ['request body must be an object']
+  }
+
+  const request = body as Record<string, unknown>
+  const errors: string[] = []
+  const checkText = (field: string, optional: boolean) => {
+    const value = request[field]
+    if (value === undefined && optional) {
+      return
+    }
+    if (typeof value !== 'string' || (!optional && !value.trim())) {
+      errors.push(`${field} must be a non-empty string`)
+    } else if (value.length > ASSIST_TEXT_MAX_LENGTH) {
+      errors.push(`${field} must be at most ${ASSIST_TEXT_MAX_LENGTH} characters`)
+    }
+  }
+
+  switch (request.task) {
+    case 'translate':
+      checkText('text', false)
+      checkText('context', true)
+      if (!ASSIST_LANGUAGES.some(l => l.code === request.targetLanguage)) {
+        errors.push('targetLanguage is not supported')
+      }
+      break
+    case 'summarize':
+      checkText('transcript', false)
+      checkText('previousSummary', true)
+      break
+    case 'action_items':
+      checkText('transcript', false)
+      break
+    default:
+      errors.push('task must be translate, summarize or action_items')
+  }
+  return errors
+}
+
+// Error codes returned by /api/assist as `{ code, error, retryAfterSeconds? }`
+
+export type AssistErrorCode =
+  | 'not_configured' // no backend available (e.g. OPENAI_API_KEY missing)
+  | 'unauthorized'
+  | 'forbidden_origin'
+  | 'rate_limited'
+  | 'no_client_ip' // no client address to rate-limit on (see clientIp)
+  | 'invalid_request'
+  | 'upstream_error' // the model backend failed
+  | 'internal_error'
+
+export interface AssistErrorBody {
+  code: AssistErrorCode
+  error: string
+  retryAfterSeconds?: number
+}
+
+export const ASSIST_ERROR_STATUS: { [code in AssistErrorCode]: number } = {
+  not_configured: 500,
+  unauthorized: 401,
+  forbidden_origin: 403,
+  rate_limited: 429,
+  no_client_ip: 500,
+  invalid_request: 400,
+  upstream_error: 502,
+  internal_error: 500,
+}
+
+export function describeAssistError(body: Partial<AssistErrorBody>): string {
+  switch (body.code) {
+    case 'not_configured':
+      return 'Translation and summaries are not configured on the server. Set OPENAI_API_KEY, or ASSIST_BACKEND=stub for offline testing.'
+    case 'unauthorized':
+      return 'You are not signed in, or your session has expired.'
+    case 'forbidden_origin':
+      return 'This page is not allowed to use the assist service.'
+    case 'rate_limited':
+      return body.retryAfterSeconds
+        ? `Too many requests - try again in ${body.retryAfterSeconds}s.`
+        : 'Too many requests - try again shortly.'
+    case 'no_client_ip':
+      return 'The server cannot tell clients apart for rate limiting. Behind a proxy that sets X-Forwarded-For, set TRUST_PROXY=true.'
+    case 'invalid_request':
+      return `The server rejected the request: ${body.error || 'invalid request'}`
+    case 'upstream_error':
+      return 'The model could not complete the request - try again shortly.'
+    default:
+      return `Assist request failed: ${body.error || 'Unknown error'}`
+  }
+}
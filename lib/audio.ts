@@ -1,34 +1,107 @@
+import type { PCM16Chunk } from './encoder'
+import type { ChunkLevel } from './meter'
+import { WavRecorder } from './recorder'
+import type { AudioSpool } from './recorder'
+import type { ConnectionStateMachine } from './connection-state'
+
+// Length of each PCM16 chunk posted by the worklet (20-100ms is sensible)
+export const DEFAULT_CHUNK_MS = 40
+
+export interface InputDevice {
+  deviceId: string
+  label: string
+}
+
+// Why the active input changed: picked by the user, lost (unplugged), or the preferred one came back
+export type InputSwitchReason = 'user' | 'lost' | 'restored'
+
+export interface AudioCallbacks {
+  onInputSwitched?: (device: InputDevice, reason: InputSwitchReason) => void
+  onInputError?: (error: string) => void
+  // Per-chunk RMS/peak computed in the worklet - feed into a LevelMonitor
+  onLevel?: (level: ChunkLevel) => void
+}
+
 // Audio management for microphone input and AudioContext lifecycle
 export class AudioManager {
   private audioContext: AudioContext | null = null
   private mediaStream: MediaStream | null = null
+  private sourceNode: MediaStreamAudioSourceNode | null = null
   private workletNode: AudioWorkletNode | null = null
   private isInitialized = false
+  private callbacks: AudioCallbacks
+  private connection: ConnectionStateMachine | null
+  private recorder: WavRecorder | null = null
+  // Paused: worklet frames are dropped before they reach the recorder or the caller
+  private isPaused = false
+  // Resolvers waiting for the worklet's 'flushed' reply
+  private pendingFlushes: (() => void)[] = []
+
+  // Device the user picked (null = system default) vs. the one actually feeding the worklet
+  private preferredDeviceId: string | null = null
+  private activeDeviceId: string | null = null
+  private isSwitching = false
+  // The latest device picked while a switch was in progress, applied once it finishes
+  private queuedDeviceId: string | null | undefined = undefined
+  private boundDeviceChange = this.handleDeviceChange.bind(this)
+  private boundTrackEnded = this.handleTrackEnded.bind(this)
+
+  // Rate the STT provider expects - the worklet resamples to it if the device won't run at it
+  private targetSampleRate = 16000
+
+  private readonly FLUSH_TIMEOUT_MS = 250
 
   // Audio constraints - must match README requirements
   private readonly AUDIO_CONSTRAINTS = {
-    sampleRate: 16000,
     channelCount: 1,
     echoCancellation: true,
     noiseSuppression: true,
   }
 
-  async initialize(): Promise<void> {
+  // `connection` is told when mic acquisition starts; the page and STT provider drive the rest
+  constructor(callbacks: AudioCallbacks = {}, connection: ConnectionStateMachine | null = null) {
+    this.callbacks = callbacks
+    this.connection = connection
+  }
+
+  // Labels are only filled in once the page has microphone permission
+  static async listInputDevices(): Promise<InputDevice[]> {
+    if (!navigator.mediaDevices?.enumerateDevices) {
+      return []
+    }
+
+    const devices = await navigator.mediaDevices.enumerateDevices()
+    return devices
+      .filter(device => device.kind === 'audioinput')
+      .map((device, index) => ({
+        deviceId: device.deviceId,
+        label: device.label || `Microphone ${index + 1}`,
+      }))
+  }
+
+  async initialize(targetSampleRate: number = this.targetSampleRate, deviceId: string | null = this.preferredDeviceId): Promise<void> {
     if (this.isInitialized) {
       return
     }
 
     try {
+      this.connection?.transition('acquiring-mic')
+      this.targetSampleRate = targetSampleRate
+      this.preferredDeviceId = deviceId
+
       // Request microphone permission and get audio stream
-      this.mediaStream = await navigator.mediaDevices.getUserMedia({
-        audio: this.AUDIO_CONSTRAINTS,
-      })
+      this.setStream(await this.openStream(deviceId))
 
       // Create AudioContext (only after user interaction)
+      // Many devices ignore the requested rate and run at 44.1/48 kHz anyway
       this.audioContext = new AudioContext({
-        sampleRate: this.AUDIO_CONSTRAINTS.sampleRate,
+        sampleRate: targetSampleRate,
       })
 
+      if (this.audioContext.sampleRate !== targetSampleRate) {
+        console.warn(`AudioContext running at ${this.audioContext.sampleRate} Hz, resampling to ${targetSampleRate} Hz`)
+      }
+
       // Resume AudioContext (required for Chrome)
       if (this.audioContext.state === 'suspended') {
         await this.audioContext.resume()
@@ -37,6 +110,8 @@ export class AudioManager {
       // Load and register AudioWorklet
       await this.audioContext.audioWorklet.addModule('/audio-processor.js')
 
+      navigator.mediaDevices.addEventListener('devicechange', this.boundDeviceChange)
+
       this.isInitialized = true
     } catch (error) {
       console.error('Audio initialization failed:', error)
@@ -44,27 +119,52 @@ export class AudioManager {
     }
   }
 
-  async startStreaming(onAudioData: (audioData: Float32Array) => void): Promise<void> {
+  // The worklet encodes and chunks audio off the main thread; we only forward chunks
+  async startStreaming(onAudioChunk: (chunk: PCM16Chunk) => void, chunkMs: number = DEFAULT_CHUNK_MS): Promise<void> {
     if (!this.isInitialized || !this.audioContext || !this.mediaStream) {
       throw new Error('AudioManager not initialized')
     }
 
     try {
       // Create source from microphone stream
-      const source = this.audioContext.createMediaStreamSource(this.mediaStream)
+      this.sourceNode = this.audioContext.createMediaStreamSource(this.mediaStream)
 
       // Create AudioWorkletNode
-      this.workletNode = new AudioWorkletNode(this.audioContext, 'audio-processor')
+      const audioContext = this.audioContext
+      this.workletNode = new AudioWorkletNode(audioContext, 'audio-processor', {
+        processorOptions: {
+          chunkSamples: Math.round((this.targetSampleRate * chunkMs) / 1000),
+          targetSampleRate: this.targetSampleRate,
+        },
+      })
 
-      // Handle audio data from worklet
+      // Handle encoded chunks from worklet (buffers are transferred, not copied)
       this.workletNode.port.onmessage = (event) => {
-        if (event.data.type === 'audioData') {
-          onAudioData(event.data.audioData)
+        if (event.data.type === 'flushed') {
+          this.resolveFlushes()
+        } else if (event.data.type === 'audioChunk' && !this.isPaused) {
+          // Map the chunk's audio-clock start time onto performance.now()
+          const ageMs = Math.max(0, (audioContext.currentTime - event.data.startTime) * 1000)
+          const pcm16: Int16Array = event.data.pcm16
+          this.recorder?.push(pcm16)
+
+          if (event.data.level) {
+            this.callbacks.onLevel?.({
+              ...event.data.level,
+              samples: pcm16.length,
+              durationMs: (pcm16.length / this.targetSampleRate) * 1000,
+            })
+          }
+
+          onAudioChunk({
+            pcm16,
+            capturedAt: performance.now() - ageMs,
+          })
         }
       }
 
       // Connect: source -> worklet -> destination (for monitoring)
-      source.connect(this.workletNode)
+      this.sourceNode.connect(this.workletNode)
       this.workletNode.connect(this.audioContext.destination)
 
     } catch (error) {
@@ -73,8 +173,77 @@ export class AudioManager {
     }
   }
 
+  // Have the worklet post the chunk it is still filling, so a manual commit that
+  // follows includes the last few ms of the turn. Resolves once that chunk has been
+  // handed to onAudioChunk (or straight away if nothing is streaming)
+  flush(): Promise<void> {
+    const workletNode = this.workletNode
+    if (!workletNode || this.isPaused) {
+      return Promise.resolve()
+    }
+
+    return new Promise(resolve => {
+      this.pendingFlushes.push(resolve)
+      workletNode.port.postMessage({ type: 'flush' })
+      // A suspended context may never answer - don't hold the commit up for it
+      setTimeout(() => this.resolveFlushes(), this.FLUSH_TIMEOUT_MS)
+    })
+  }
+
+  // Switch to another microphone - while streaming, only the source feeding the worklet is replaced
+  async selectDevice(deviceId: string | null): Promise<void> {
+    this.preferredDeviceId = deviceId
+    // Mid-switch the active device is about to change, so even a pick of it is queued
+    if (!this.isInitialized || (deviceId === this.activeDeviceId && !this.isSwitching)) {
+      return
+    }
+
+    await this.switchInput(deviceId, 'user')
+  }
+
+  // Tee every captured chunk into a WAV recording, until stopRecording()
+  startRecording(spool: AudioSpool | null = null): WavRecorder {
+    this.recorder = new WavRecorder(this.targetSampleRate, spool)
+    return this.recorder
+  }
+
+  stopRecording(): WavRecorder | null {
+    const recorder = this.recorder
+    this.recorder = null
+    return recorder
+  }
+
+  // Stop forwarding audio without giving up the mic. Suspending the AudioContext
+  // also stops processing, at the cost of a slower resume
+  async pause(suspendContext: boolean = false): Promise<void> {
+    this.isPaused = true
+    if (suspendContext && this.audioContext?.state === 'running') {
+      await this.audioContext.suspend()
+    }
+  }
+
+  async resume(): Promise<void> {
+    if (this.audioContext?.state === 'suspended') {
+      await this.audioContext.resume()
+    }
+    this.isPaused = false
+  }
+
+  get paused(): boolean {
+    return this.isPaused
+  }
+
   stopStreaming(): void {
+    this.isPaused = false
+    this.resolveFlushes()
+    if (this.sourceNode) {
+      this.sourceNode.disconnect()
+      this.sourceNode = null
+    }
+
     if (this.workletNode) {
+      this.workletNode.port.postMessage({ type: 'stop' })
+      this.workletNode.port.onmessage = null
       this.workletNode.disconnect()
       this.workletNode = null
     }
@@ -83,10 +252,11 @@ export class AudioManager {
   async cleanup(): Promise<void> {
     this.stopStreaming()
 
-    if (this.mediaStream) {
-      this.mediaStream.getTracks().forEach(track => track.stop())
-      this.mediaStream = null
+    if (navigator.mediaDevices) {
+      navigator.mediaDevices.removeEventListener('devicechange', this.boundDeviceChange)
     }
+    this.setStream(null)
+    this.queuedDeviceId = undefined
 
     if (this.audioContext && this.audioContext.state !== 'closed') {
       await this.audioContext.close()
@@ -96,6 +266,14 @@ export class AudioManager {
     this.isInitialized = false
   }
 
+  get currentDeviceId(): string | null {
+    return this.activeDeviceId
+  }
+
+  get currentDeviceLabel(): string | null {
+    return this.mediaStream?.getAudioTracks()[0]?.label || null
+  }
+
   get isAudioContextSuspended(): boolean {
     return this.audioContext?.state === 'suspended'
   }
@@ -104,11 +282,136 @@ export class AudioManager {
     return this.audioContext?.state === 'running'
   }
 
-  // For debugging - log RMS levels
-  logRMS(audioData: Float32Array): void {
-    const rms = Math.sqrt(
-      audioData.reduce((sum, sample) => sum + sample * sample, 0) / audioData.length
-    )
-    console.log(`Audio RMS: ${rms.toFixed(4)}`)
+  private resolveFlushes(): void {
+    const pending = this.pendingFlushes
+    this.pendingFlushes = []
+    pending.forEach(resolve => resolve())
+  }
+
+  // Open the requested device, falling back to the default if it has gone away
+  private async openStream(deviceId: string | null): Promise<MediaStream> {
+    const audio: MediaTrackConstraints = { ...this.AUDIO_CONSTRAINTS, sampleRate: this.targetSampleRate }
+
+    if (deviceId) {
+      try {
+        return await navigator.mediaDevices.getUserMedia({
+          audio: { ...audio, deviceId: { exact: deviceId } },
+        })
+      } catch (error) {
+        if (!(error instanceof Error) || (error.name !== 'OverconstrainedError' && error.name !== 'NotFoundError')) {
+          throw error
+        }
+        console.warn(`Microphone ${deviceId} unavailable, using default input`)
+      }
+    }
+
+    return navigator.mediaDevices.getUserMedia({ audio })
+  }
+
+  // Swap the stream we hold, watching its track for unplugs and releasing the old one
+  private setStream(stream: MediaStream | null): void {
+    const previous = this.mediaStream
+    this.mediaStream = stream
+    this.activeDeviceId = null
+
+    if (stream) {
+      const track = stream.getAudioTracks()[0]
+      if (track) {
+        track.addEventListener('ended', this.boundTrackEnded)
+        this.activeDeviceId = track.getSettings().deviceId || null
+      }
+    }
+
+    if (previous) {
+      previous.getTracks().forEach(track => {
+        track.removeEventListener('ended', this.boundTrackEnded)
+        track.stop()
+      })
+    }
+  }
+
+  private async switchInput(deviceId: string | null, reason: InputSwitchReason): Promise<void> {
+    if (!this.audioContext) {
+      return
+    }
+    if (this.isSwitching) {
+      // Automatic switches are re-decided by the next devicechange; the user's pick must not be lost
+      if (reason === 'user') {
+        this.queuedDeviceId = deviceId
+      }
+      return
+    }
+
+    this.isSwitching = true
+    try {
+      const stream = await this.openStream(deviceId)
+
+      // Rewire source -> worklet without touching the worklet (or the STT connection behind it)
+      if (this.workletNode) {
+        const source = this.audioContext.createMediaStreamSource(stream)
+        source.connect(this.workletNode)
+        if (this.sourceNode) {
+          this.sourceNode.disconnect()
+        }
+        this.sourceNode = source
+      }
+
+      this.setStream(stream)
+
+      const track = stream.getAudioTracks()[0]
+      this.callbacks.onInputSwitched?.({
+        deviceId: this.activeDeviceId || '',
+        label: track?.label || 'Default microphone',
+      }, reason)
+    } catch (error) {
+      console.error('Failed to switch microphone:', error)
+      this.callbacks.onInputError?.(error instanceof Error ? error.message : 'Failed to switch microphone')
+    } finally {
+      this.isSwitching = false
+    }
+
+    const queued = this.queuedDeviceId
+    this.queuedDeviceId = undefined
+    if (queued !== undefined && queued !== this.activeDeviceId && this.isInitialized) {
+      await this.switchInput(queued, 'user')
+    }
+  }
+
+  // Registered as an event listener - nothing may escape as an unhandled rejection
+  private async handleDeviceChange(): Promise<void> {
+    if (!this.isInitialized) {
+      return
+    }
+
+    let devices: InputDevice[]
+    try {
+      devices = await AudioManager.listInputDevices()
+    } catch (error) {
+      console.error('Failed to list microphones:', error)
+      this.callbacks.onInputError?.(error instanceof Error ? error.message : 'Failed to list microphones')
+      return
+    }
+
+    const isAvailable = (id: string | null) => !!id && devices.some(device => device.deviceId === id)
+    const track = this.mediaStream?.getAudioTracks()[0]
+    const currentAlive = !!track && track.readyState === 'live' &&
+      (!this.activeDeviceId || isAvailable(this.activeDeviceId))
+
+    // The preferred device was plugged back in - move back to it
+    if (this.preferredDeviceId && this.preferredDeviceId !== this.activeDeviceId && isAvailable(this.preferredDeviceId)) {
+      await this.switchInput(this.preferredDeviceId, 'restored')
+      return
+    }
+
+    if (!currentAlive) {
+      await this.switchInput(null, 'lost')
+    }
+  }
+
+  private handleTrackEnded(): void {
+    if (this.isInitialized) {
+      // openStream falls back to the default input if the preferred one is what was unplugged
+      this.switchInput(this.preferredDeviceId, 'lost')
+    }
   }
 }
@@ -0,0 +1,91 @@
+// Lifecycle of a recording, shared by AudioManager, the STT provider and the page
+// Each drives the steps it owns; the page renders whatever the current state is
+
+export type ConnectionState =
+  | 'idle'
+  | 'acquiring-mic' // getUserMedia + AudioContext setup (or decoding a file)
+  | 'fetching-token' // POST /api/openai-token
+  | 'connecting' // WebSocket opening
+  | 'configuring' // session.update sent, waiting for session.updated
+  | 'streaming'
+  | 'reconnecting' // connection dropped, waiting out the backoff
+  | 'stopping' // user pressed Stop - teardown in progress
+  | 'error' // gave up; the page has the message
+
+export interface ConnectionSnapshot {
+  state: ConnectionState
+  // Date.now() when the state was entered
+  since: number
+}
+
+// Steps may be skipped (file mode has no mic, the relay and mock need no token)
+const TRANSITIONS: { [S in ConnectionState]: ConnectionState[] } = {
+  'idle': ['acquiring-mic', 'fetching-token', 'connecting', 'error'],
+  'acquiring-mic': ['fetching-token', 'connecting', 'stopping', 'error'],
+  'fetching-token': ['connecting', 'stopping', 'error'],
+  'connecting': ['configuring', 'streaming', 'reconnecting', 'stopping', 'error'],
+  'configuring': ['streaming', 'reconnecting', 'stopping', 'error'],
+  'streaming': ['reconnecting', 'stopping', 'error'],
+  'reconnecting': ['fetching-token', 'connecting', 'stopping', 'error'],
+  'stopping': ['idle'],
+  'error': ['idle', 'acquiring-mic', 'fetching-token', 'connecting', 'stopping'],
+}
+
+export const CONNECTION_STATE_LABELS: { [S in ConnectionState]: string } = {
+  'idle': 'Idle',
+  'acquiring-mic': 'Preparing audio...',
+  'fetching-token': 'Authorizing...',
+  'connecting': 'Connecting...',
+  'configuring': 'Configuring session...',
+  'streaming': 'Recording',
+  'reconnecting': 'Reconnecting...',
+  'stopping': 'Stopping...',
+  'error': 'Error',
+}
+
+// States where a start is in progress - controls are locked
+const STARTING_STATES: ConnectionState[] = ['acquiring-mic', 'fetching-token', 'connecting', 'configuring']
+
+export function isStarting(state: ConnectionState): boolean {
+  return STARTING_STATES.indexOf(state) !== -1
+}
+
+type Listener = () => void
+
+export class ConnectionStateMachine {
+  private snapshot: ConnectionSnapshot = { state: 'idle', since: Date.now() }
+  private listeners: Listener[] = []
+
+  // Arrow properties so they can be handed straight to useSyncExternalStore
+  subscribe = (listener: Listener): (() => void) => {
+    this.listeners.push(listener)
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener)
+    }
+  }
+
+  getSnapshot = (): ConnectionSnapshot => {
+    return this.snapshot
+  }
+
+  get state(): ConnectionState {
+    return this.snapshot.state
+  }
+
+  // Returns false (and leaves the state alone) for a transition the lifecycle doesn't
+  // allow - e.g. a late socket event trying to resume streaming after Stop
+  transition(next: ConnectionState): boolean {
+    const current = this.snapshot.state
+    if (next === current) {
+      return true
+    }
+    if (TRANSITIONS[current].indexOf(next) === -1) {
+      console.warn(`Ignoring connection state change ${current} -> ${next}`)
+      return false
+    }
+
+    this.snapshot = { state: next, since: Date.now() }
+    this.listeners.forEach(listener => listener())
+    return true
+  }
+}
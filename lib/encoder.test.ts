@@ -0,0 +1,116 @@
+import { readFileSync } from 'fs'
+import { join } from 'path'
+import { runInNewContext } from 'vm'
+import { describe, expect, it } from 'vitest'
+import { PCM16Encoder, Resampler } from './encoder'
+
+function tone(frequency: number, sampleRate: number, samples: number, amplitude: number = 0.5): Float32Array {
+  const out = new Float32Array(samples)
+  for (let i = 0; i < samples; i++) {
+    out[i] = amplitude * Math.sin((2 * Math.PI * frequency * i) / sampleRate)
+  }
+  return out
+}
+
+function rms(samples: Float32Array, skip: number = 0): number {
+  let sum = 0
+  for (let i = skip; i < samples.length - skip; i++) {
+    sum += samples[i] * samples[i]
+  }
+  return Math.sqrt(sum / (samples.length - 2 * skip))
+}
+
+// Feed `input` in blocks, as the worklet does, and join the output
+function resample(resampler: Resampler, input: Float32Array, blockSize: number = 128): Float32Array {
+  const parts: Float32Array[] = []
+  for (let offset = 0; offset < input.length; offset += blockSize) {
+    parts.push(resampler.process(input.subarray(offset, offset + blockSize)))
+  }
+  const out = new Float32Array(parts.reduce((total, part) => total + part.length, 0))
+  let offset = 0
+  parts.forEach(part => {
+    out.set(part, offset)
+    offset += part.length
+  })
+  return out
+}
+
+describe('Resampler', () => {
+  it('passes audio through unchanged at equal rates', () => {
+    const input = tone(440, 24000, 1000)
+    expect(Array.from(new Resampler(24000, 24000).process(input))).toEqual(Array.from(input))
+  })
+
+  // Output lags by the kernel's half-width, so a second of input yields slightly under a second
+  it.each([
+    [48000, 24000],
+    [44100, 24000],
+    [48000, 16000],
+    [16000, 24000],
+  ])('produces output at the rate ratio (%i Hz -> %i Hz)', (inputRate, outputRate) => {
+    const output = resample(new Resampler(inputRate, outputRate), tone(440, inputRate, inputRate))
+    expect(output.length).toBeLessThanOrEqual(outputRate)
+    expect(output.length).toBeGreaterThan(outputRate - 32)
+  })
+
+  it('keeps tones below the output Nyquist rate', () => {
+    const output = resample(new Resampler(48000, 24000), tone(1000, 48000, 48000))
+    expect(rms(output, 100) / rms(tone(1000, 48000, 48000))).toBeCloseTo(1, 1)
+  })
+
+  it('filters out tones above the output Nyquist rate instead of aliasing them', () => {
+    const input = tone(15000, 48000, 48000)
+    const output = resample(new Resampler(48000, 24000), input)
+    expect(rms(output, 100)).toBeLessThan(rms(input) * 0.01)
+  })
+
+  it('carries state across blocks', () => {
+    const input = tone(3000, 44100, 8820)
+    const whole = new Resampler(44100, 24000).process(input)
+    const blocked = resample(new Resampler(44100, 24000), input, 100)
+    expect(blocked.length).toBe(whole.length)
+    blocked.forEach((sample, i) => expect(sample).toBeCloseTo(whole[i], 6))
+  })
+})
+
+// public/audio-processor.js carries its own copy of the resampler (worklets can't import
+// modules from the bundle) - run the worklet and check it matches this one sample for sample
+describe('audio-processor.js', () => {
+  interface Message {
+    type: string
+    pcm16?: Int16Array
+  }
+
+  function loadProcessor(contextRate: number, options: object) {
+    const registered: { [name: string]: any } = {}
+    class AudioWorkletProcessor {
+      port = { postMessage: (_message: Message) => {}, onmessage: null }
+    }
+    runInNewContext(readFileSync(join(__dirname, '../public/audio-processor.js'), 'utf8'), {
+      AudioWorkletProcessor,
+      registerProcessor: (name: string, processor: any) => { registered[name] = processor },
+      sampleRate: contextRate,
+      currentTime: 0,
+    })
+
+    const processor = new registered['audio-processor']({ processorOptions: options })
+    const messages: Message[] = []
+    processor.port.postMessage = (message: Message) => { messages.push(message) }
+    return { processor, messages }
+  }
+
+  it('resamples and encodes exactly like Resampler and PCM16Encoder', () => {
+    const input = tone(5000, 48000, 9600, 0.8)
+    const { processor, messages } = loadProcessor(48000, { chunkSamples: 480, targetSampleRate: 24000 })
+    for (let offset = 0; offset < input.length; offset += 128) {
+      processor.process([[input.subarray(offset, offset + 128)]], [], {})
+    }
+
+    const worklet: number[] = []
+    messages.forEach(message => worklet.push.apply(worklet, Array.from(message.pcm16 as Int16Array)))
+    const expected = new Int16Array(PCM16Encoder.encode(resample(new Resampler(48000, 24000), input)))
+
+    expect(worklet.length).toBeGreaterThan(0)
+    expect(worklet).toEqual(Array.from(expected.subarray(0, worklet.length)))
+  })
+})
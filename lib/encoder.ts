@@ -1,4 +1,14 @@
 // Float32 to PCM16 encoder for OpenAI STT
+
+// A ready-to-send block of mono PCM16 audio at the provider's sample rate
+export interface PCM16Chunk {
+  pcm16: Int16Array
+  // performance.now() when the chunk's first sample was captured - used for latency counters
+  capturedAt: number
+  // Multi-source capture: which CaptureSource this came from (see lib/multi-source.ts)
+  sourceId?: string
+}
+
 export class PCM16Encoder {
   // Convert Float32Array (-1.0 to 1.0) to PCM16 (16-bit signed integers)
   static encode(float32Array: Float32Array): ArrayBuffer {
@@ -19,23 +29,120 @@ export class PCM16Encoder {
     return pcm16Array.buffer
   }
 
-  // Validate that audio data meets OpenAI requirements
-  static validateAudioData(audioData: Float32Array): boolean {
-    // Check if data is Float32Array
-    if (!(audioData instanceof Float32Array)) {
-      console.error('Audio data must be Float32Array')
-      return false
+  // Base64 for input_audio_buffer.append - converts in blocks rather than char by char
+  static toBase64(buffer: ArrayBuffer | Int16Array): string {
+    const bytes = buffer instanceof Int16Array
+      ? new Uint8Array(buffer.buffer, buffer.byteOffset, buffer.byteLength)
+      : new Uint8Array(buffer)
+
+    const BLOCK_SIZE = 0x8000
+    const parts: string[] = []
+    for (let i = 0; i < bytes.length; i += BLOCK_SIZE) {
+      const block = bytes.subarray(i, i + BLOCK_SIZE)
+      parts.push(String.fromCharCode.apply(null, block as unknown as number[]))
     }
+    return btoa(parts.join(''))
+  }
+}
+
+// Anti-aliasing sinc resampler for devices that ignore the requested sample rate
+// Mirrored in public/audio-processor.js - keep the two in sync (lib/encoder.test.ts checks they match)
+const RESAMPLER_ZERO_CROSSINGS = 8 // kernel half-width, in zero crossings of the sinc
+const RESAMPLER_ROLLOFF = 0.9 // cutoff as a fraction of the lower Nyquist rate
+const RESAMPLER_TABLE_RESOLUTION = 256 // kernel table entries per input sample
 
-    // Check for reasonable audio levels (not all zeros or NaN)
-    const hasValidSamples = audioData.some(sample =>
-      !isNaN(sample) && sample !== 0 && Math.abs(sample) > 0.0001
-    )
+export class Resampler {
+  readonly inputRate: number
+  readonly outputRate: number
+  private step: number // input samples advanced per output sample
+  private halfWidth = 0 // kernel half-length, in input samples
+  private kernel: Float32Array = new Float32Array(0)
+  // Reused across calls, grown only when a larger block arrives: the input still inside the
+  // kernel of future outputs (the first historyLength samples), and the output scratch
+  private history: Float32Array = new Float32Array(0)
+  private historyLength = 0
+  private output: Float32Array = new Float32Array(0)
+  private position = 0 // next output sample, in input samples relative to history[0]
 
-    if (!hasValidSamples) {
-      console.warn('Audio data appears to be silent or invalid')
+  constructor(inputRate: number, outputRate: number) {
+    this.inputRate = inputRate
+    this.outputRate = outputRate
+    this.step = inputRate / outputRate
+
+    if (this.isPassthrough) {
+      return
+    }
+
+    // Low-pass below the lower of the two Nyquist rates (normalized to the input rate)
+    const cutoff = 0.5 * Math.min(1, outputRate / inputRate) * RESAMPLER_ROLLOFF
+    this.halfWidth = RESAMPLER_ZERO_CROSSINGS / (2 * cutoff)
+
+    // Blackman-windowed sinc, sampled finely so fractional offsets can be interpolated
+    const size = Math.ceil(this.halfWidth * RESAMPLER_TABLE_RESOLUTION) + 2
+    this.kernel = new Float32Array(size)
+    for (let i = 0; i < size; i++) {
+      const d = i / RESAMPLER_TABLE_RESOLUTION
+      if (d >= this.halfWidth) {
+        break
+      }
+      const x = 2 * cutoff * d
+      const sinc = x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x)
+      const w = d / this.halfWidth
+      const window = 0.42 + 0.5 * Math.cos(Math.PI * w) + 0.08 * Math.cos(2 * Math.PI * w)
+      this.kernel[i] = 2 * cutoff * sinc * window
     }
+  }
+
+  get isPassthrough(): boolean {
+    return this.inputRate === this.outputRate
+  }
+
+  // Feed the next block of input; returns however many output samples are now complete
+  process(input: Float32Array): Float32Array {
+    if (this.isPassthrough) {
+      return input.slice()
+    }
+
+    const length = this.historyLength + input.length
+    if (length > this.history.length) {
+      const grown = new Float32Array(length)
+      grown.set(this.history.subarray(0, this.historyLength))
+      this.history = grown
+      this.output = new Float32Array(Math.ceil(length / this.step) + 1)
+    }
+    const history = this.history
+    history.set(input, this.historyLength)
+
+    let count = 0
+    const last = length - 1
+    while (this.position + this.halfWidth <= last) {
+      const start = Math.max(0, Math.ceil(this.position - this.halfWidth))
+      const end = Math.floor(this.position + this.halfWidth)
+
+      let sum = 0
+      for (let k = start; k <= end; k++) {
+        const index = Math.abs(this.position - k) * RESAMPLER_TABLE_RESOLUTION
+        const i0 = Math.floor(index)
+        const weight = this.kernel[i0] + (this.kernel[i0 + 1] - this.kernel[i0]) * (index - i0)
+        sum += history[k] * weight
+      }
+
+      this.output[count++] = sum
+      this.position += this.step
+    }
+
+    // Keep only the input still inside the kernel of future outputs
+    const keepFrom = Math.max(0, Math.floor(this.position - this.halfWidth))
+    history.copyWithin(0, keepFrom, length)
+    this.historyLength = length - keepFrom
+    this.position -= keepFrom
+
+    // A copy, so callers may hold on to it (the worklet reads the scratch buffer in place)
+    return this.output.slice(0, count)
+  }
 
-    return true
+  reset(): void {
+    this.historyLength = 0
+    this.position = 0
   }
 }
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest'
+import { exportTranscript, formatTimestamp, onCaptureTimeline } from './export'
+import { OffsetMap } from './recorder'
+import type { TranscriptSegment } from './transcript'
+
+function segment(id: string, text: string, startMs: number, endMs: number | null, extra: Partial<TranscriptSegment> = {}): TranscriptSegment {
+  return { id, text, status: 'final', startMs, endMs, createdAt: 0, finalizedAt: 0, ...extra }
+}
+
+const SEGMENTS: TranscriptSegment[] = [
+  segment('item_1', ' Hello there. ', 1000, 2500),
+  segment('item_2', 'Still talking', 3000, null, { status: 'partial' }),
+  segment('pause_1', '', 4000, 9000, { status: 'marker' }),
+  segment('item_3', 'Second line', 61000, null),
+]
+
+describe('formatTimestamp', () => {
+  it('formats SRT and WebVTT timestamps', () => {
+    expect(formatTimestamp(0, ',')).toBe('00:00:00,000')
+    expect(formatTimestamp(3723004, '.')).toBe('01:02:03.004')
+  })
+
+  it('clamps negative offsets and rounds to the millisecond', () => {
+    expect(formatTimestamp(-20, ',')).toBe('00:00:00,000')
+    expect(formatTimestamp(1499.6, ',')).toBe('00:00:01,500')
+  })
+})
+
+describe('exportTranscript', () => {
+  it('writes final segments only, one per line, as plain text', () => {
+    expect(exportTranscript(SEGMENTS, 'txt')).toBe('Hello there.\nSecond line\n')
+  })
+
+  it('numbers SRT cues and gives open-ended segments a default length', () => {
+    expect(exportTranscript(SEGMENTS, 'srt')).toBe(
+      '1\n00:00:01,000 --> 00:00:02,500\nHello there.\n\n' +
+      '2\n00:01:01,000 --> 00:01:03,000\nSecond line\n'
+    )
+  })
+
+  it('ends a cue at the next one when its own end is unknown', () => {
+    const srt = exportTranscript([segment('a', 'One', 0, null), segment('b', 'Two', 1200, 2000)], 'srt')
+    expect(srt).toContain('00:00:00,000 --> 00:00:01,200')
+  })
+
+  it('keeps every cue at least half a second long', () => {
+    expect(exportTranscript([segment('a', 'Hi', 1000, 1100)], 'vtt')).toContain('00:00:01.000 --> 00:00:01.500')
+  })
+
+  it('writes a WebVTT header and cue IDs', () => {
+    expect(exportTranscript([segment('item_1', 'Hi', 0, 1000)], 'vtt')).toBe('WEBVTT\n\nitem_1\n00:00:00.000 --> 00:00:01.000\nHi\n')
+  })
+
+  it('escapes markup characters in WebVTT cues and speaker names', () => {
+    const segments = [segment('a', 'if a < b && c --> d', 0, 1000, { speaker: 'R&D <lead>' })]
+    expect(exportTranscript(segments, 'vtt')).toContain('\n<v R&amp;D &lt;lead&gt;>if a &lt; b &amp;&amp; c --&gt; d\n')
+    expect(exportTranscript(segments, 'srt')).toContain('\nR&D <lead>: if a < b && c --> d\n')
+  })
+
+  it('labels speakers in every format', () => {
+    const segments = [segment('src1:item_1', 'Hi Bob', 0, 1000, { speaker: 'Ann' })]
+    expect(exportTranscript(segments, 'txt')).toBe('Ann: Hi Bob\n')
+    expect(exportTranscript(segments, 'srt')).toContain('\nAnn: Hi Bob\n')
+    expect(exportTranscript(segments, 'vtt')).toContain('\n<v Ann>Hi Bob\n')
+    expect(exportTranscript(segments, 'md')).toContain('**[0:00] Ann:** Hi Bob')
+    expect(JSON.parse(exportTranscript(segments, 'json')).segments[0].speaker).toBe('Ann')
+  })
+
+  it('includes title, start time and corrections in JSON', () => {
+    const edited = segment('item_1', 'Fixed', 0, 1000, { originalText: 'fixd ' })
+    const data = JSON.parse(exportTranscript([edited], 'json', { title: 'Standup', recordedAt: 0 }))
+    expect(data.title).toBe('Standup')
+    expect(data.recordedAt).toBe('1970-01-01T00:00:00.000Z')
+    expect(data.segments[0]).toMatchObject({ id: 'item_1', text: 'Fixed', originalText: 'fixd', startMs: 0, endMs: 1000 })
+  })
+
+  it('groups Markdown paragraphs under one heading per minute', () => {
+    const md = exportTranscript(SEGMENTS, 'md', { title: 'Standup' })
+    expect(md).toBe('# Standup\n\n## 0:00\n\n**[0:01]** Hello there.\n\n## 1:00\n\n**[1:01]** Second line\n')
+  })
+
+  // Local VAD sent 2s of speech, dropped 5s of silence, then sent the next turn
+  it('maps timestamps onto the recording when silence went unsent', () => {
+    const map = new OffsetMap()
+    map.add(0, 0)
+    map.add(2000, 7000)
+    const segments = [segment('a', 'One', 500, 1800), segment('b', 'Two', 2200, 3000)]
+
+    expect(exportTranscript(segments, 'srt', { offsets: map.toJSON() })).toBe(
+      '1\n00:00:00,500 --> 00:00:01,800\nOne\n\n' +
+      '2\n00:00:07,200 --> 00:00:08,000\nTwo\n'
+    )
+    expect(JSON.parse(exportTranscript(segments, 'json', { offsets: map.toJSON() })).segments[1].startMs).toBe(7200)
+  })
+})
+
+describe('onCaptureTimeline', () => {
+  it('returns the segments untouched without offsets', () => {
+    expect(onCaptureTimeline(SEGMENTS)).toBe(SEGMENTS)
+  })
+})
@@ -0,0 +1,178 @@
+import { formatOffset, TranscriptSegment } from './transcript'
+import { OffsetAnchor, OffsetMap } from './recorder'
+
+// Transcript export formats - pure string builders, no DOM access, so tooling can reuse them
+// Timestamps are relative to the start of the recording: segment offsets count sent audio
+// only, so they are mapped onto the capture timeline first (see ExportOptions.offsets)
+
+export type ExportFormat = 'txt' | 'srt' | 'vtt' | 'json' | 'md'
+
+export interface ExportFormatInfo {
+  format: ExportFormat
+  label: string
+  extension: string
+  mimeType: string
+}
+
+export const EXPORT_FORMATS: ExportFormatInfo[] = [
+  { format: 'txt', label: 'Plain text', extension: 'txt', mimeType: 'text/plain' },
+  { format: 'srt', label: 'SRT captions', extension: 'srt', mimeType: 'application/x-subrip' },
+  { format: 'vtt', label: 'WebVTT captions', extension: 'vtt', mimeType: 'text/vtt' },
+  { format: 'json', label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  { format: 'md', label: 'Markdown', extension: 'md', mimeType: 'text/markdown' },
+]
+
+export interface ExportOptions {
+  title?: string
+  // Epoch ms the recording started - shown in headers where the format has one
+  recordedAt?: number
+  // The session's OffsetMap anchors. Local VAD leaves silence unsent, so without them
+  // timestamps fall behind the recording at every gap
+  offsets?: OffsetAnchor[]
+}
+
+// Caption cues need an end; segments still missing one get this much
+const DEFAULT_CUE_MS = 2000
+const MIN_CUE_MS = 500
+
+export function exportTranscript(
+  segments: readonly TranscriptSegment[],
+  format: ExportFormat,
+  options: ExportOptions = {}
+): string {
+  const timed = onCaptureTimeline(segments, options.offsets)
+  switch (format) {
+    case 'txt':
+      return formatText(segments)
+    case 'srt':
+      return formatSrt(timed)
+    case 'vtt':
+      return formatVtt(timed)
+    case 'json':
+      return formatJson(timed, options)
+    case 'md':
+      return formatMarkdown(timed, options)
+  }
+}
+
+// Segments with startMs / endMs moved from the sent-audio timeline onto the recording
+export function onCaptureTimeline(segments: readonly TranscriptSegment[], offsets: OffsetAnchor[] = []): readonly TranscriptSegment[] {
+  if (offsets.length === 0) {
+    return segments
+  }
+
+  const map = new OffsetMap(offsets)
+  return segments.map(s => ({
+    ...s,
+    startMs: map.toRecordedMs(s.startMs),
+    endMs: s.endMs !== null ? map.toRecordedMs(s.endMs) : null,
+  }))
+}
+
+export function formatText(segments: readonly TranscriptSegment[]): string {
+  return finalSegments(segments).map(s => withSpeaker(s)).join('\n') + '\n'
+}
+
+export function formatSrt(segments: readonly TranscriptSegment[]): string {
+  return cues(segments)
+    .map((cue, index) => `${index + 1}\n${formatTimestamp(cue.startMs, ',')} --> ${formatTimestamp(cue.endMs, ',')}\n${cue.speaker ? `${cue.speaker}: ` : ''}${cue.text}\n`)
+    .join('\n')
+}
+
+// Cue text is markup: a raw '<' opens a tag and '-->' would end the cue early
+function escapeVtt(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+export function formatVtt(segments: readonly TranscriptSegment[]): string {
+  const body = cues(segments)
+    // WebVTT voice spans carry the speaker so players can style or announce it
+    .map(cue => `${cue.id}\n${formatTimestamp(cue.startMs, '.')} --> ${formatTimestamp(cue.endMs, '.')}\n${cue.speaker ? `<v ${escapeVtt(cue.speaker)}>` : ''}${escapeVtt(cue.text)}\n`)
+    .join('\n')
+  return `WEBVTT\n\n${body}`
+}
+
+export function formatJson(segments: readonly TranscriptSegment[], options: ExportOptions = {}): string {
+  const data = {
+    title: options.title ?? null,
+    recordedAt: options.recordedAt !== undefined ? new Date(options.recordedAt).toISOString() : null,
+    segments: finalSegments(segments).map(s => ({
+      id: s.id,
+      text: s.text.trim(),
+      // Only present for segments the user corrected
+      originalText: s.originalText !== undefined ? s.originalText.trim() : undefined,
+      speaker: s.speaker,
+      status: s.status,
+      startMs: Math.round(s.startMs),
+      endMs: s.endMs !== null ? Math.round(s.endMs) : null,
+      createdAt: new Date(s.createdAt).toISOString(),
+      finalizedAt: s.finalizedAt !== null ? new Date(s.finalizedAt).toISOString() : null,
+    })),
+  }
+  return JSON.stringify(data, null, 2) + '\n'
+}
+
+// One heading per minute of audio, one paragraph per segment
+export function formatMarkdown(segments: readonly TranscriptSegment[], options: ExportOptions = {}): string {
+  const lines: string[] = [`# ${options.title || 'Transcript'}`, '']
+  if (options.recordedAt !== undefined) {
+    lines.push(`_Recorded ${new Date(options.recordedAt).toLocaleString()}_`, '')
+  }
+
+  let currentMinute = -1
+  finalSegments(segments).forEach(s => {
+    const minute = Math.floor(s.startMs / 60000)
+    if (minute !== currentMinute) {
+      currentMinute = minute
+      lines.push(`## ${formatOffset(minute * 60000)}`, '')
+    }
+    lines.push(`**[${formatOffset(s.startMs)}]${s.speaker ? ` ${s.speaker}:` : ''}** ${s.text.trim()}`, '')
+  })
+
+  return lines.join('\n')
+}
+
+// HH:MM:SS,mmm (SRT) or HH:MM:SS.mmm (WebVTT)
+export function formatTimestamp(ms: number, separator: ',' | '.'): string {
+  const total = Math.max(0, Math.round(ms))
+  const hours = Math.floor(total / 3600000)
+  const minutes = Math.floor((total % 3600000) / 60000)
+  const seconds = Math.floor((total % 60000) / 1000)
+  const millis = total % 1000
+  return `${pad(hours, 2)}:${pad(minutes, 2)}:${pad(seconds, 2)}${separator}${pad(millis, 3)}`
+}
+
+interface Cue {
+  id: string
+  text: string
+  speaker?: string
+  startMs: number
+  endMs: number
+}
+
+function cues(segments: readonly TranscriptSegment[]): Cue[] {
+  const finals = finalSegments(segments)
+  return finals.map((s, index) => {
+    const next = finals[index + 1]
+    let endMs = s.endMs ?? (next ? next.startMs : s.startMs + DEFAULT_CUE_MS)
+    endMs = Math.max(endMs, s.startMs + MIN_CUE_MS)
+    return { id: s.id, text: s.text.trim(), speaker: s.speaker, startMs: s.startMs, endMs }
+  })
+}
+
+// 'Speaker: text' for labelled segments
+function withSpeaker(s: TranscriptSegment): string {
+  return s.speaker ? `${s.speaker}: ${s.text.trim()}` : s.text.trim()
+}
+
+function finalSegments(segments: readonly TranscriptSegment[]): TranscriptSegment[] {
+  return segments.filter(s => s.status === 'final' && s.text.trim())
+}
+
+function pad(n: number, width: number): string {
+  let out = String(n)
+  while (out.length < width) {
+    out = '0' + out
+  }
+  return out
+}
@@ -0,0 +1,200 @@
+import { PCM16Chunk, Resampler } from './encoder'
+import { FrameAggregator } from './aggregator'
+import { now } from './stats'
+
+// Audio file input: stands in for AudioManager when transcribing an uploaded file
+// The file is decoded once, then downmixed samples are resampled and chunked
+// incrementally as they are paced out, so long files don't block the main thread
+
+export interface FileSourceCallbacks {
+  onProgress?: (processedMs: number, durationMs: number) => void
+}
+
+// Playback multipliers offered in the UI - 1 is real time
+export const FILE_SPEEDS = [1, 2, 4, 8]
+
+// Larger than the mic's 40ms chunks to keep the message rate sane at 8x
+const FILE_CHUNK_MS = 100
+
+// Silence appended after the file so server VAD sees the last turn end (must
+// exceed its silence duration) and the resampler drains
+export const DEFAULT_TAIL_SILENCE_MS = 1000
+
+export class FileSource {
+  readonly file: File
+  private samples: Float32Array
+  private inputRate: number
+  private resampler: Resampler
+  private aggregator: FrameAggregator
+  private callbacks: FileSourceCallbacks
+
+  private readPosition = 0
+  private tailRemaining: number
+
+  private speed = 1
+  private readonly TICK_MS = 20
+  private timer: ReturnType<typeof setTimeout> | null = null
+  private lastTick = 0
+  private budgetMs = 0
+  private isPaused = false
+  private onAudioChunk: ((chunk: PCM16Chunk) => void) | null = null
+  private resolveDone: ((completed: boolean) => void) | null = null
+
+  private constructor(
+    file: File,
+    samples: Float32Array,
+    inputRate: number,
+    targetSampleRate: number,
+    callbacks: FileSourceCallbacks,
+    tailSilenceMs: number
+  ) {
+    this.file = file
+    this.samples = samples
+    this.inputRate = inputRate
+    this.resampler = new Resampler(inputRate, targetSampleRate)
+    this.aggregator = new FrameAggregator((targetSampleRate * FILE_CHUNK_MS) / 1000)
+    this.callbacks = callbacks
+    this.tailRemaining = Math.round((inputRate * tailSilenceMs) / 1000)
+  }
+
+  // Decode a WAV / MP3 / WebM / ... file with the browser's codecs
+  static async fromFile(
+    file: File,
+    targetSampleRate: number,
+    callbacks: FileSourceCallbacks = {},
+    tailSilenceMs: number = DEFAULT_TAIL_SILENCE_MS
+  ): Promise<FileSource> {
+    const AudioContextClass: typeof AudioContext = window.AudioContext || (window as any).webkitAudioContext
+    const context = new AudioContextClass()
+
+    try {
+      const decoded = await context.decodeAudioData(await file.arrayBuffer())
+      return new FileSource(file, downmix(decoded), decoded.sampleRate, targetSampleRate, callbacks, tailSilenceMs)
+    } catch (error) {
+      console.error('Failed to decode audio file:', error)
+      throw new Error(`Could not decode "${file.name}" - the file is corrupt or its format isn't supported by this browser`)
+    } finally {
+      context.close().catch(() => {})
+    }
+  }
+
+  get durationMs(): number {
+    return (this.samples.length / this.inputRate) * 1000
+  }
+
+  get processedMs(): number {
+    return (Math.min(this.readPosition, this.samples.length) / this.inputRate) * 1000
+  }
+
+  // Pace the file out at `speed` x real time
+  // Resolves true once everything was sent, false if stopped first
+  // `paused` holds it until resume() - e.g. until the STT session is ready for audio
+  start(onAudioChunk: (chunk: PCM16Chunk) => void, speed: number = 1, paused: boolean = false): Promise<boolean> {
+    this.onAudioChunk = onAudioChunk
+    this.speed = speed
+    this.isPaused = paused
+
+    return new Promise((resolve) => {
+      this.resolveDone = resolve
+      if (!paused) {
+        this.lastTick = now()
+        this.scheduleTick()
+      }
+    })
+  }
+
+  // Hold the stream (e.g. while the STT connection is re-established)
+  pause(): void {
+    this.isPaused = true
+    this.clearTimer()
+  }
+
+  resume(): void {
+    if (!this.isPaused || !this.resolveDone) {
+      return
+    }
+    this.isPaused = false
+    this.lastTick = now()
+    this.scheduleTick()
+  }
+
+  stop(): void {
+    this.finish(false)
+  }
+
+  private scheduleTick(): void {
+    this.timer = setTimeout(() => this.tick(), this.TICK_MS)
+  }
+
+  private tick(): void {
+    const t = now()
+    this.budgetMs += (t - this.lastTick) * this.speed
+    this.lastTick = t
+
+    while (this.budgetMs >= FILE_CHUNK_MS) {
+      this.budgetMs -= FILE_CHUNK_MS
+      if (!this.sendNext()) {
+        this.callbacks.onProgress?.(this.durationMs, this.durationMs)
+        this.finish(true)
+        return
+      }
+    }
+
+    this.callbacks.onProgress?.(this.processedMs, this.durationMs)
+    this.scheduleTick()
+  }
+
+  // Feed one chunk's worth of input; false once the file and tail are used up
+  private sendNext(): boolean {
+    const count = Math.round((this.inputRate * FILE_CHUNK_MS) / 1000)
+    let frame: Float32Array
+
+    if (this.readPosition < this.samples.length) {
+      frame = this.samples.subarray(this.readPosition, this.readPosition + count)
+      this.readPosition += frame.length
+    } else if (this.tailRemaining > 0) {
+      frame = new Float32Array(Math.min(count, this.tailRemaining))
+      this.tailRemaining -= frame.length
+    } else {
+      const last = this.aggregator.flush()
+      if (last) {
+        this.onAudioChunk?.(last)
+      }
+      return false
+    }
+
+    this.aggregator.push(this.resampler.process(frame)).forEach(chunk => this.onAudioChunk?.(chunk))
+    return true
+  }
+
+  private finish(completed: boolean): void {
+    this.clearTimer()
+    const resolve = this.resolveDone
+    this.resolveDone = null
+    this.onAudioChunk = null
+    resolve?.(completed)
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+  }
+}
+
+// Average all channels into one
+function downmix(buffer: AudioBuffer): Float32Array {
+  if (buffer.numberOfChannels === 1) {
+    return buffer.getChannelData(0)
+  }
+
+  const mono = new Float32Array(buffer.length)
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel)
+    for (let i = 0; i < data.length; i++) {
+      mono[i] += data[i] / buffer.numberOfChannels
+    }
+  }
+  return mono
+}
@@ -0,0 +1,207 @@
+import type { TranscriptSegment } from './transcript'
+import type { AudioBlock, AudioSpool, OffsetAnchor, SessionAudio } from './recorder'
+
+// Recording sessions persisted in IndexedDB
+// Sessions are saved while recording (throttled), so a crashed or closed tab
+// leaves a record with `stoppedAt: null` that can be restored on next load.
+// A local recording is spooled to its own store as it is captured and moved into
+// the record as one WAV on Stop
+
+export interface SessionError {
+  at: number
+  message: string
+}
+
+export interface SessionRecord {
+  id: string
+  title: string
+  startedAt: number
+  // null while recording - or if the tab went away before Stop
+  stoppedAt: number | null
+  updatedAt: number
+  provider: string
+  model: string
+  deviceLabel: string | null
+  segments: TranscriptSegment[]
+  errors: SessionError[]
+  // Present when the session was recorded with local recording switched on
+  audio?: SessionAudio
+  // Set while a local recording is being spooled - what a crashed one is rebuilt at
+  recordingSampleRate?: number
+  // Segment offsets onto the capture timeline, for exports (see OffsetMap) - absent
+  // for sessions where nothing captured went unsent
+  offsets?: OffsetAnchor[]
+}
+
+const DB_NAME = 'live-audio-app'
+const DB_VERSION = 2
+const STORE_NAME = 'sessions'
+// Spooled recording blocks, keyed [sessionId, index] (v2)
+const AUDIO_STORE_NAME = 'audio'
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+export function createSessionId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+export class SessionHistory {
+  private db: IDBDatabase
+
+  private constructor(db: IDBDatabase) {
+    this.db = db
+  }
+
+  static async open(): Promise<SessionHistory> {
+    if (typeof indexedDB === 'undefined') {
+      throw new Error('IndexedDB not supported in this browser')
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' })
+        store.createIndex('startedAt', 'startedAt')
+      }
+      if (!db.objectStoreNames.contains(AUDIO_STORE_NAME)) {
+        db.createObjectStore(AUDIO_STORE_NAME, { keyPath: ['sessionId', 'index'] })
+      }
+    }
+
+    return new SessionHistory(await promisify(request))
+  }
+
+  // Newest first
+  async list(): Promise<SessionRecord[]> {
+    const records = await promisify<SessionRecord[]>(this.store('readonly').getAll())
+    return records.sort((a, b) => b.startedAt - a.startedAt)
+  }
+
+  get(id: string): Promise<SessionRecord | undefined> {
+    return promisify<SessionRecord | undefined>(this.store('readonly').get(id))
+  }
+
+  async put(record: SessionRecord): Promise<void> {
+    await promisify(this.store('readwrite').put({ ...record, updatedAt: Date.now() }))
+  }
+
+  async rename(id: string, title: string): Promise<void> {
+    const record = await this.get(id)
+    if (record) {
+      await this.put({ ...record, title })
+    }
+  }
+
+  async delete(id: string): Promise<void> {
+    await promisify(this.store('readwrite').delete(id))
+    await this.deleteAudio(id)
+  }
+
+  // Where a session's recording is written while it is captured
+  audioSpool(sessionId: string): AudioSpool {
+    return {
+      write: async (block) => {
+        await promisify(this.audioStore('readwrite').put({ sessionId, index: block.index, data: block.data }))
+      },
+      readAll: () => this.getAudio(sessionId),
+    }
+  }
+
+  async getAudio(sessionId: string): Promise<AudioBlock[]> {
+    const rows = await promisify<{ index: number; data: Blob }[]>(this.audioStore('readonly').getAll(audioRange(sessionId)))
+    return rows.map(row => ({ index: row.index, data: row.data }))
+  }
+
+  // Once the recording is in the record as one WAV, its spooled blocks can go
+  async deleteAudio(sessionId: string): Promise<void> {
+    await promisify(this.audioStore('readwrite').delete(audioRange(sessionId)))
+  }
+
+  // Case-insensitive match on title and final segment text
+  async search(query: string): Promise<SessionRecord[]> {
+    const needle = query.trim().toLowerCase()
+    const records = await this.list()
+    if (!needle) {
+      return records
+    }
+
+    return records.filter(record =>
+      record.title.toLowerCase().indexOf(needle) !== -1 ||
+      record.segments.some(segment => segment.text.toLowerCase().indexOf(needle) !== -1)
+    )
+  }
+
+  // Most recent session that never got a Stop - candidate for crash recovery
+  async findUnfinished(): Promise<SessionRecord | null> {
+    const records = await this.list()
+    for (let i = 0; i < records.length; i++) {
+      if (records[i].stoppedAt === null) {
+        return records[i]
+      }
+    }
+    return null
+  }
+
+  private store(mode: IDBTransactionMode): IDBObjectStore {
+    return this.db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)
+  }
+
+  private audioStore(mode: IDBTransactionMode): IDBObjectStore {
+    return this.db.transaction(AUDIO_STORE_NAME, mode).objectStore(AUDIO_STORE_NAME)
+  }
+}
+
+// Every block of one session
+function audioRange(sessionId: string): IDBKeyRange {
+  return IDBKeyRange.bound([sessionId, 0], [sessionId, Infinity])
+}
+
+// Throttled saver: at most one save per interval, and the last change is always saved
+export class Autosaver {
+  private save: () => Promise<void>
+  private intervalMs: number
+  private timer: ReturnType<typeof setTimeout> | null = null
+  private lastSavedAt = 0
+
+  constructor(save: () => Promise<void>, intervalMs: number = 1000) {
+    this.save = save
+    this.intervalMs = intervalMs
+  }
+
+  schedule(): void {
+    if (this.timer) {
+      return
+    }
+
+    const wait = Math.max(0, this.lastSavedAt + this.intervalMs - Date.now())
+    this.timer = setTimeout(() => {
+      this.timer = null
+      this.run()
+    }, wait)
+  }
+
+  flush(): Promise<void> {
+    this.cancel()
+    return this.run()
+  }
+
+  cancel(): void {
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+  }
+
+  private run(): Promise<void> {
+    this.lastSavedAt = Date.now()
+    return this.save().catch(error => {
+      console.error('Failed to save session:', error)
+    })
+  }
+}
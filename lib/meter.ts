@@ -0,0 +1,113 @@
+// Input level metering and silence/clipping detection
+// Fed with per-chunk levels computed in public/audio-processor.js; all timing is
+// in audio time (chunk durations), so behaviour doesn't depend on UI frame rate
+
+export interface ChunkLevel {
+  rms: number
+  peak: number
+  clippedSamples: number
+  samples: number
+  durationMs: number
+}
+
+export interface LevelReading {
+  rms: number
+  peak: number
+  rmsDb: number
+  peakDb: number
+}
+
+export type LevelWarning = 'silence' | 'clipping'
+
+export interface LevelMonitorCallbacks {
+  onLevel: (reading: LevelReading) => void
+  onWarningChange: (warning: LevelWarning | null) => void
+}
+
+// Lowest level the meter shows - anything quieter reads as -Infinity dBFS
+export const METER_FLOOR_DB = -60
+
+export function toDb(amplitude: number): number {
+  return amplitude > 0 ? 20 * Math.log10(amplitude) : -Infinity
+}
+
+export class LevelMonitor {
+  private callbacks: LevelMonitorCallbacks
+  private warning: LevelWarning | null = null
+
+  // Readings are batched so the UI re-renders ~10 times a second, not per chunk
+  private readonly REPORT_INTERVAL_MS = 100
+  private pendingMs = 0
+  private pendingPeak = 0
+  private pendingSumSquares = 0
+
+  // Below ~-50 dBFS for this long and we ask whether the mic is muted
+  private readonly SILENCE_RMS = 0.003
+  private readonly SILENCE_WARN_MS = 5000
+  private silentMs = 0
+
+  // A chunk with more than 1% clipped samples counts as clipping; warn once that
+  // has dominated for a second, and clear only after it has died down again
+  private readonly CLIP_CHUNK_RATIO = 0.01
+  private readonly CLIP_WARN_MS = 1000
+  private clipScoreMs = 0
+
+  constructor(callbacks: LevelMonitorCallbacks) {
+    this.callbacks = callbacks
+  }
+
+  push(level: ChunkLevel): void {
+    this.pendingMs += level.durationMs
+    this.pendingPeak = Math.max(this.pendingPeak, level.peak)
+    this.pendingSumSquares += level.rms * level.rms * level.durationMs
+
+    if (this.pendingMs >= this.REPORT_INTERVAL_MS) {
+      const rms = Math.sqrt(this.pendingSumSquares / this.pendingMs)
+      this.callbacks.onLevel({
+        rms,
+        peak: this.pendingPeak,
+        rmsDb: toDb(rms),
+        peakDb: toDb(this.pendingPeak),
+      })
+      this.pendingMs = 0
+      this.pendingPeak = 0
+      this.pendingSumSquares = 0
+    }
+
+    this.silentMs = level.rms < this.SILENCE_RMS ? this.silentMs + level.durationMs : 0
+
+    const isClipping = level.samples > 0 && level.clippedSamples / level.samples > this.CLIP_CHUNK_RATIO
+    this.clipScoreMs = isClipping
+      ? Math.min(this.clipScoreMs + level.durationMs, this.CLIP_WARN_MS * 2)
+      : Math.max(this.clipScoreMs - level.durationMs / 2, 0)
+
+    this.updateWarning()
+  }
+
+  reset(): void {
+    this.pendingMs = 0
+    this.pendingPeak = 0
+    this.pendingSumSquares = 0
+    this.silentMs = 0
+    this.clipScoreMs = 0
+    this.setWarning(null)
+  }
+
+  private updateWarning(): void {
+    // Clipping wins - it's the more actionable of the two
+    if (this.clipScoreMs >= this.CLIP_WARN_MS || (this.warning === 'clipping' && this.clipScoreMs > 0)) {
+      this.setWarning('clipping')
+    } else if (this.silentMs >= this.SILENCE_WARN_MS) {
+      this.setWarning('silence')
+    } else {
+      this.setWarning(null)
+    }
+  }
+
+  private setWarning(warning: LevelWarning | null): void {
+    if (warning !== this.warning) {
+      this.warning = warning
+      this.callbacks.onWarningChange(warning)
+    }
+  }
+}
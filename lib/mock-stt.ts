@@ -0,0 +1,180 @@
+import { StreamStats, STTStats } from './stats'
+import { DEFAULT_STT_OPTIONS } from './provider'
+import type { PCM16Chunk, STTCallbacks, STTOptions, STTProvider } from './provider'
+
+// Local scripted STT backend (see scripts/mock-stt-server.js)
+// Replays partial/final events keyed on audio time, so runs are deterministic
+export const MOCK_STT_URL = process.env.NEXT_PUBLIC_MOCK_STT_URL || 'ws://localhost:8787'
+
+// Must match SAMPLE_RATE in scripts/mock-stt-server.js
+const MOCK_SAMPLE_RATE = 16000
+
+export class MockSTT implements STTProvider {
+  readonly sampleRate = MOCK_SAMPLE_RATE
+  readonly model = 'mock'
+  private ws: WebSocket | null = null
+  private callbacks: STTCallbacks
+  private isConnected = false
+  // The mock protocol has no item IDs - each final closes the current utterance
+  private itemCount = 0
+  private currentItemId: string | null = null
+  private partialText = ''
+  private url: string
+  private options: Required<STTOptions>
+  private stats = new StreamStats()
+
+  constructor(callbacks: STTCallbacks, options: STTOptions = {}, url: string = MOCK_STT_URL) {
+    this.callbacks = callbacks
+    this.url = url
+    this.options = { ...DEFAULT_STT_OPTIONS, ...options }
+  }
+
+  connect(): Promise<void> {
+    this.stats.reset()
+    this.itemCount = 0
+    this.currentItemId = null
+    this.partialText = ''
+
+    return new Promise((resolve, reject) => {
+      const ws = new WebSocket(this.url)
+      this.ws = ws
+      // A failed connect fires error then close (1006) - report it once
+      let errorReported = false
+      this.options.connection?.transition('connecting')
+
+      ws.onopen = () => {
+        console.log('WebSocket connected to mock STT server')
+        this.isConnected = true
+        // The mock needs no session setup - it transcribes as soon as audio arrives
+        this.options.connection?.transition('streaming')
+        this.callbacks.onConnectionStateChange(true)
+        resolve()
+      }
+
+      ws.onmessage = this.handleMessage.bind(this)
+
+      ws.onclose = (event) => {
+        this.isConnected = false
+        this.stats.recordClose(event.code)
+        // The mock doesn't reconnect - an unexpected close ends the session
+        const failed = event.code !== 1000 && this.ws === ws
+        if (failed && this.options.connection?.state !== 'connecting') {
+          this.options.connection?.transition('error')
+        }
+        this.callbacks.onConnectionStateChange(false)
+        if (failed && !errorReported) {
+          errorReported = true
+          const message = `Mock STT connection closed (Code: ${event.code})`
+          this.callbacks.onError(message)
+          // No-op once connected
+          reject(new Error(message))
+        }
+      }
+
+      ws.onerror = () => {
+        if (!this.isConnected && !errorReported) {
+          errorReported = true
+          const message = `Could not reach mock STT server at ${this.url}. Run "npm run mock-stt" first.`
+          this.callbacks.onError(message)
+          reject(new Error(message))
+        }
+      }
+    })
+  }
+
+  disconnect(): void {
+    if (this.ws) {
+      const ws = this.ws
+      this.ws = null
+      ws.close(1000)
+    }
+    this.isConnected = false
+    this.callbacks.onConnectionStateChange(false)
+  }
+
+  // Only the sample count matters to the mock - it drives the script clock
+  sendAudioData(chunk: PCM16Chunk): void {
+    if (!this.isConnected || !this.ws || this.ws.readyState !== WebSocket.OPEN) {
+      return
+    }
+
+    this.send({ type: 'audio', samples: chunk.pcm16.length })
+    this.stats.recordChunk(chunk.capturedAt)
+  }
+
+  commit(): void {
+    if (this.options.commitMode !== 'manual' || !this.isConnected) {
+      return
+    }
+
+    this.send({ type: 'commit' })
+  }
+
+  getStats(): STTStats {
+    return this.stats.snapshot()
+  }
+
+  private send(message: object): void {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+      return
+    }
+
+    const payload = JSON.stringify(message)
+    this.ws.send(payload)
+    this.stats.recordMessage(payload.length)
+  }
+
+  private itemId(): string {
+    if (!this.currentItemId) {
+      this.currentItemId = `mock_item_${++this.itemCount}`
+    }
+    return this.currentItemId
+  }
+
+  private handleMessage(event: MessageEvent): void {
+    this.stats.recordEvent()
+    try {
+      const message = JSON.parse(event.data)
+
+      switch (message.type) {
+        case 'speech_started':
+          this.callbacks.onSpeechStart?.(this.itemId(), message.audioMs || 0)
+          break
+
+        case 'speech_stopped':
+          this.callbacks.onSpeechEnd?.(this.itemId(), message.audioMs || 0)
+          break
+
+        // `partial` replaces the utterance's text, `delta` appends to it
+        case 'partial':
+        case 'delta':
+          this.partialText = message.type === 'delta'
+            ? this.partialText + (message.text || '')
+            : message.text || ''
+          this.callbacks.onPartialTranscript(this.partialText, this.itemId())
+          break
+
+        case 'final':
+          if (message.text) {
+            this.callbacks.onFinalTranscript(message.text, this.itemId())
+          }
+          this.currentItemId = null
+          this.partialText = ''
+          break
+
+        case 'error':
+          this.callbacks.onError(message.message || 'Mock STT error')
+          break
+
+        default:
+          this.callbacks.onDiagnostic?.({
+            kind: 'unknown_event',
+            eventType: typeof message.type === 'string' ? message.type : null,
+            detail: `Unhandled mock event type "${message.type}"`,
+          })
+      }
+    } catch (error) {
+      console.error('Failed to parse mock STT message:', error)
+    }
+  }
+}
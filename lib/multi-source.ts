@@ -0,0 +1,267 @@
+import type { PCM16Chunk } from './encoder'
+import type { ChunkLevel } from './meter'
+import type { ConnectionStateMachine } from './connection-state'
+import { DEFAULT_CHUNK_MS } from './audio'
+
+// Multi-source capture: several microphones, or the channels of one multi-channel
+// device (e.g. a stereo interview rig), each tagged with a speaker and streamed
+// to its own STT session (see MultiSourceSTT)
+
+export type CaptureMode = 'single' | 'multi'
+
+export interface CaptureSource {
+  // Prefixes the item IDs of this source's segments - no ':'
+  id: string
+  speaker: string
+  // null = system default input
+  deviceId: string | null
+  // 0-based channel of a multi-channel device; null captures the device as mono
+  channel: number | null
+}
+
+// Every source is a separate, billable STT session
+export const MAX_CAPTURE_SOURCES = 4
+export const MAX_CHANNELS = 8
+
+export function createCaptureSource(speaker: string, deviceId: string | null = null, channel: number | null = null): CaptureSource {
+  return { id: `src${Math.random().toString(36).slice(2, 8)}`, speaker, deviceId, channel }
+}
+
+// Left and right of the default input - the usual two-mic interview setup
+export const DEFAULT_CAPTURE_SOURCES: CaptureSource[] = [
+  { id: 'src1', speaker: 'Speaker 1', deviceId: null, channel: 0 },
+  { id: 'src2', speaker: 'Speaker 2', deviceId: null, channel: 1 },
+]
+
+// Returns one message per problem, like validateSessionConfig
+export function validateCaptureSources(sources: CaptureSource[]): string[] {
+  const errors: string[] = []
+  if (sources.length < 2) {
+    errors.push('Add at least two sources (or switch to a single microphone)')
+  }
+  if (sources.length > MAX_CAPTURE_SOURCES) {
+    errors.push(`At most ${MAX_CAPTURE_SOURCES} sources are supported`)
+  }
+
+  const speakers: string[] = []
+  const inputs: string[] = []
+  sources.forEach((source, index) => {
+    const speaker = source.speaker.trim()
+    const label = speaker || `Source ${index + 1}`
+    if (!speaker) {
+      errors.push(`${label} needs a speaker name`)
+    } else if (speakers.indexOf(speaker) !== -1) {
+      errors.push(`Speaker name "${speaker}" is used twice`)
+    }
+    speakers.push(speaker)
+
+    if (source.channel !== null && !(source.channel >= 0 && source.channel < MAX_CHANNELS && source.channel % 1 === 0)) {
+      errors.push(`${label}: channel must be between 1 and ${MAX_CHANNELS}`)
+    }
+
+    // A whole (mono) device overlaps every channel of it
+    const device = source.deviceId || 'default'
+    const overlaps = inputs.some(input => input === `${device}#${source.channel}` ||
+      (input.indexOf(`${device}#`) === 0 && (source.channel === null || input === `${device}#null`)))
+    if (overlaps) {
+      errors.push(`${label} captures the same input as another source`)
+    }
+    inputs.push(`${device}#${source.channel}`)
+  })
+  return errors
+}
+
+export interface MultiSourceCallbacks {
+  // Per-chunk levels, as AudioCallbacks.onLevel, for each source
+  onLevel?: (sourceId: string, level: ChunkLevel) => void
+  // A device was unplugged - its sources stop; the others keep going
+  onInputError?: (sourceIds: string[], error: string) => void
+}
+
+interface DeviceStream {
+  deviceId: string | null
+  stream: MediaStream
+  sourceNode: MediaStreamAudioSourceNode | null
+}
+
+// One AudioContext, one stream per device, one worklet per source. Unlike AudioManager
+// there is no device switching - a lost device just goes quiet
+export class MultiSourceCapture {
+  private sources: CaptureSource[]
+  private callbacks: MultiSourceCallbacks
+  private connection: ConnectionStateMachine | null
+  private audioContext: AudioContext | null = null
+  private devices: DeviceStream[] = []
+  private workletNodes: AudioWorkletNode[] = []
+  private targetSampleRate = 16000
+  private isPaused = false
+
+  constructor(sources: CaptureSource[], callbacks: MultiSourceCallbacks = {}, connection: ConnectionStateMachine | null = null) {
+    this.sources = sources
+    this.callbacks = callbacks
+    this.connection = connection
+  }
+
+  async initialize(targetSampleRate: number): Promise<void> {
+    this.connection?.transition('acquiring-mic')
+    this.targetSampleRate = targetSampleRate
+
+    try {
+      // Sequentially - some browsers reject overlapping permission prompts
+      const deviceIds: (string | null)[] = []
+      this.sources.forEach(source => {
+        if (deviceIds.indexOf(source.deviceId) === -1) {
+          deviceIds.push(source.deviceId)
+        }
+      })
+      for (let i = 0; i < deviceIds.length; i++) {
+        const stream = await this.openStream(deviceIds[i])
+        this.watchStream(deviceIds[i], stream)
+        this.devices.push({ deviceId: deviceIds[i], stream, sourceNode: null })
+      }
+
+      this.audioContext = new AudioContext({ sampleRate: targetSampleRate })
+      if (this.audioContext.state === 'suspended') {
+        await this.audioContext.resume()
+      }
+      await this.audioContext.audioWorklet.addModule('/audio-processor.js')
+    } catch (error) {
+      console.error('Multi-source audio initialization failed:', error)
+      await this.cleanup()
+      throw error
+    }
+  }
+
+  // Chunks carry their source's ID in `sourceId`
+  async startStreaming(onAudioChunk: (chunk: PCM16Chunk) => void, chunkMs: number = DEFAULT_CHUNK_MS): Promise<void> {
+    const audioContext = this.audioContext
+    if (!audioContext) {
+      throw new Error('MultiSourceCapture not initialized')
+    }
+
+    this.devices.forEach(device => {
+      device.sourceNode = audioContext.createMediaStreamSource(device.stream)
+    })
+
+    this.sources.forEach(source => {
+      const device = this.devices.filter(d => d.deviceId === source.deviceId)[0]
+      const workletNode = new AudioWorkletNode(audioContext, 'audio-processor', {
+        processorOptions: {
+          chunkSamples: Math.round((this.targetSampleRate * chunkMs) / 1000),
+          targetSampleRate: this.targetSampleRate,
+          channel: source.channel ?? 0,
+        },
+      })
+
+      workletNode.port.onmessage = (event) => {
+        if (event.data.type !== 'audioChunk' || this.isPaused) {
+          return
+        }
+        const ageMs = Math.max(0, (audioContext.currentTime - event.data.startTime) * 1000)
+        const pcm16: Int16Array = event.data.pcm16
+        if (event.data.level) {
+          this.callbacks.onLevel?.(source.id, {
+            ...event.data.level,
+            samples: pcm16.length,
+            durationMs: (pcm16.length / this.targetSampleRate) * 1000,
+          })
+        }
+        onAudioChunk({ pcm16, capturedAt: performance.now() - ageMs, sourceId: source.id })
+      }
+
+      device.sourceNode?.connect(workletNode)
+      workletNode.connect(audioContext.destination)
+      this.workletNodes.push(workletNode)
+    })
+  }
+
+  async pause(suspendContext: boolean = false): Promise<void> {
+    this.isPaused = true
+    if (suspendContext && this.audioContext?.state === 'running') {
+      await this.audioContext.suspend()
+    }
+  }
+
+  async resume(): Promise<void> {
+    if (this.audioContext?.state === 'suspended') {
+      await this.audioContext.resume()
+    }
+    this.isPaused = false
+  }
+
+  get paused(): boolean {
+    return this.isPaused
+  }
+
+  // Device labels, for the session record
+  get deviceLabel(): string | null {
+    const labels = this.devices.map(device => device.stream.getAudioTracks()[0]?.label).filter(Boolean)
+    return labels.length > 0 ? labels.join(' + ') : null
+  }
+
+  stopStreaming(): void {
+    this.isPaused = false
+    this.workletNodes.forEach(node => {
+      node.port.postMessage({ type: 'stop' })
+      node.port.onmessage = null
+      node.disconnect()
+    })
+    this.workletNodes = []
+    this.devices.forEach(device => {
+      device.sourceNode?.disconnect()
+      device.sourceNode = null
+    })
+  }
+
+  async cleanup(): Promise<void> {
+    this.stopStreaming()
+    this.devices.forEach(device => device.stream.getTracks().forEach(track => track.stop()))
+    this.devices = []
+
+    if (this.audioContext && this.audioContext.state !== 'closed') {
+      await this.audioContext.close()
+    }
+    this.audioContext = null
+  }
+
+  // Channel selection needs the raw channels: the browser's voice processing downmixes to mono
+  private async openStream(deviceId: string | null): Promise<MediaStream> {
+    const channels = this.sources
+      .filter(source => source.deviceId === deviceId && source.channel !== null)
+      .map(source => (source.channel as number) + 1)
+    const audio: MediaTrackConstraints = channels.length > 0
+      ? {
+        channelCount: { ideal: Math.max.apply(null, channels) },
+        echoCancellation: false,
+        noiseSuppression: false,
+        autoGainControl: false,
+        sampleRate: this.targetSampleRate,
+      }
+      : { channelCount: 1, echoCancellation: true, noiseSuppression: true, sampleRate: this.targetSampleRate }
+
+    const stream = await navigator.mediaDevices.getUserMedia({
+      audio: deviceId ? { ...audio, deviceId: { exact: deviceId } } : audio,
+    })
+
+    // A missing channel would silently record another one under the wrong speaker
+    const track = stream.getAudioTracks()[0]
+    const delivered = track?.getSettings().channelCount
+    const missing = this.sources.filter(source =>
+      source.deviceId === deviceId && source.channel !== null && delivered !== undefined && source.channel >= delivered)
+    if (missing.length > 0) {
+      stream.getTracks().forEach(t => t.stop())
+      const wanted = missing.map(source => `channel ${(source.channel as number) + 1} (${source.speaker})`).join(', ')
+      throw new Error(`${track.label || 'The input device'} only delivers ${delivered} channel(s), so ${wanted} can't be captured. ` +
+        'Pick a channel it has, or capture the whole device.')
+    }
+    return stream
+  }
+
+  private watchStream(deviceId: string | null, stream: MediaStream): void {
+    const track = stream.getAudioTracks()[0]
+    track?.addEventListener('ended', () => {
+      const sourceIds = this.sources.filter(source => source.deviceId === deviceId).map(source => source.id)
+      this.callbacks.onInputError?.(sourceIds, `${track.label || 'An input device'} was disconnected`)
+    })
+  }
+}
@@ -0,0 +1,92 @@
+import type { PCM16Chunk, STTCallbacks, STTProvider, STTStats } from './provider'
+import type { CaptureSource } from './multi-source'
+
+// One STT session per capture source behind the ordinary provider contract.
+// Item IDs are prefixed with the source ID so segments from different sessions
+// never collide, and the page can tell who said what (see sourceOfItem)
+
+const ITEM_SEPARATOR = ':'
+
+export function sourceItemId(sourceId: string, itemId: string): string {
+  return `${sourceId}${ITEM_SEPARATOR}${itemId}`
+}
+
+// The source ID of a prefixed item ID, or null for a single-source item
+export function sourceOfItem(itemId: string): string | null {
+  const index = itemId.indexOf(ITEM_SEPARATOR)
+  return index > 0 ? itemId.slice(0, index) : null
+}
+
+// `createSession` builds the provider for one source. Only the first (primary) source
+// should be given the page's connection state machine: it drives the UI state and
+// its fatal errors end the recording. The others report errors but fail on their own
+export type SessionFactory = (source: CaptureSource, callbacks: STTCallbacks, isPrimary: boolean) => STTProvider
+
+export class MultiSourceSTT implements STTProvider {
+  private sessions: { source: CaptureSource; provider: STTProvider }[]
+
+  constructor(sources: CaptureSource[], callbacks: STTCallbacks, createSession: SessionFactory) {
+    if (sources.length === 0) {
+      throw new Error('MultiSourceSTT needs at least one source')
+    }
+
+    this.sessions = sources.map((source, index) => {
+      const isPrimary = index === 0
+      const tag = (itemId: string) => sourceItemId(source.id, itemId)
+      const provider = createSession(source, {
+        onPartialTranscript: (text, itemId) => callbacks.onPartialTranscript(text, tag(itemId)),
+        onFinalTranscript: (text, itemId) => callbacks.onFinalTranscript(text, tag(itemId)),
+        onSpeechStart: (itemId, audioStartMs) => callbacks.onSpeechStart?.(tag(itemId), audioStartMs),
+        onSpeechEnd: (itemId, audioEndMs) => callbacks.onSpeechEnd?.(tag(itemId), audioEndMs),
+        onError: (error) => callbacks.onError(isPrimary ? error : `${source.speaker}: ${error}`),
+        // The connection indicator follows the primary session
+        onConnectionStateChange: (connected) => {
+          if (isPrimary) {
+            callbacks.onConnectionStateChange(connected)
+          }
+        },
+        onReconnecting: isPrimary ? callbacks.onReconnecting : undefined,
+        onDiagnostic: callbacks.onDiagnostic,
+      }, isPrimary)
+      return { source, provider }
+    })
+  }
+
+  get sampleRate(): number {
+    return this.primary.sampleRate
+  }
+
+  get model(): string {
+    return this.primary.model
+  }
+
+  async connect(): Promise<void> {
+    await Promise.all(this.sessions.map(session => session.provider.connect()))
+  }
+
+  disconnect(): void {
+    this.sessions.forEach(session => session.provider.disconnect())
+  }
+
+  // Tagged chunks go to their source's session; untagged ones (e.g. tail silence on pause) go to all
+  sendAudioData(chunk: PCM16Chunk): void {
+    this.sessions.forEach(session => {
+      if (chunk.sourceId === undefined || chunk.sourceId === session.source.id) {
+        session.provider.sendAudioData(chunk)
+      }
+    })
+  }
+
+  commit(): void {
+    this.sessions.forEach(session => session.provider.commit())
+  }
+
+  // The primary session's counters - the diagnostics panel shows one connection
+  getStats(): STTStats {
+    return this.primary.getStats()
+  }
+
+  private get primary(): STTProvider {
+    return this.sessions[0].provider
+  }
+}
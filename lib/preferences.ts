@@ -0,0 +1,28 @@
+// Persisted user preferences (localStorage)
+// Reads fall back to defaults during SSR, in private mode, or when the stored value is corrupt
+const STORAGE_PREFIX = 'live-audio-app:'
+
+export function loadPreference<T>(key: string, fallback: T): T {
+  if (typeof window === 'undefined') {
+    return fallback
+  }
+
+  try {
+    const raw = window.localStorage.getItem(STORAGE_PREFIX + key)
+    return raw === null ? fallback : (JSON.parse(raw) as T)
+  } catch {
+    return fallback
+  }
+}
+
+export function savePreference<T>(key: string, value: T): void {
+  if (typeof window === 'undefined') {
+    return
+  }
+
+  try {
+    window.localStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(value))
+  } catch (error) {
+    console.warn(`Failed to save preference "${key}":`, error)
+  }
+}
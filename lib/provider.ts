@@ -0,0 +1,87 @@
+// STT provider abstraction - the page talks to this contract, not to a concrete client
+import { OpenAIRealtimeSTT } from './stt'
+import { MockSTT } from './mock-stt'
+import type { PCM16Chunk } from './encoder'
+import type { STTStats } from './stats'
+import { DEFAULT_SESSION_CONFIG, SessionConfig } from './session-config'
+import type { ConnectionStateMachine } from './connection-state'
+
+export type { PCM16Chunk, STTStats }
+
+export interface STTCallbacks {
+  // `itemId` ties partials and the final text of one utterance together; events
+  // for different items may interleave and finals may arrive out of order
+  // Partials carry the item's full text so far (deltas are accumulated by the provider)
+  onPartialTranscript: (text: string, itemId: string) => void
+  onFinalTranscript: (text: string, itemId: string) => void
+  // Speech boundaries as offsets into the audio passed to sendAudioData, in ms
+  onSpeechStart?: (itemId: string, audioStartMs: number) => void
+  onSpeechEnd?: (itemId: string, audioEndMs: number) => void
+  // Fatal errors move `connection` to 'error' before this is called; anything else is informational
+  onError: (error: string) => void
+  onConnectionStateChange: (connected: boolean) => void
+  // Connection dropped unexpectedly and a new attempt is scheduled after `delayMs`
+  onReconnecting?: (attempt: number, delayMs: number) => void
+  // A server event the provider didn't recognise or couldn't validate - the event is dropped
+  onDiagnostic?: (diagnostic: STTDiagnostic) => void
+}
+
+export interface STTDiagnostic {
+  kind: 'unknown_event' | 'malformed_event'
+  // Null when the frame had no readable type
+  eventType: string | null
+  detail: string
+}
+
+export interface STTProvider {
+  // Mono PCM16 rate the backend expects - audio is resampled to this before sending
+  readonly sampleRate: number
+  // Recorded with saved sessions
+  readonly model: string
+  connect(): Promise<void>
+  disconnect(): void
+  // Chunks arrive already encoded (see public/audio-processor.js) - providers only forward them
+  sendAudioData(chunk: PCM16Chunk): void
+  // Close the current turn - only meaningful in 'manual' commit mode. Only audio already
+  // sent is committed, so flush the capture first (AudioManager.flush)
+  commit(): void
+  getStats(): STTStats
+}
+
+export type STTProviderName = 'openai' | 'mock'
+
+// 'server_vad' lets the server decide turn boundaries; 'manual' disables it and waits for commit()
+export type CommitMode = 'server_vad' | 'manual'
+
+export interface STTOptions {
+  commitMode?: CommitMode
+  session?: SessionConfig
+  // Lifecycle the provider reports its connection steps to
+  connection?: ConnectionStateMachine | null
+}
+
+export const DEFAULT_STT_OPTIONS: Required<STTOptions> = {
+  commitMode: 'server_vad',
+  session: DEFAULT_SESSION_CONFIG,
+  connection: null,
+}
+
+// Selected at build time so e2e runs can swap the backend without code changes
+export const DEFAULT_STT_PROVIDER: STTProviderName =
+  process.env.NEXT_PUBLIC_STT_PROVIDER === 'mock' ? 'mock' : 'openai'
+
+export function createSTTProvider(
+  callbacks: STTCallbacks,
+  name: STTProviderName = DEFAULT_STT_PROVIDER,
+  options: STTOptions = {}
+): STTProvider {
+  const resolved = { ...DEFAULT_STT_OPTIONS, ...options }
+
+  switch (name) {
+    case 'mock':
+      return new MockSTT(callbacks, resolved)
+    case 'openai':
+    default:
+      return new OpenAIRealtimeSTT(callbacks, resolved)
+  }
+}
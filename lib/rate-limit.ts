@@ -0,0 +1,73 @@
+// Fixed-window rate limiting for server routes
+// The store is pluggable: MemoryRateLimitStore is per server instance, so
+// deployments running several instances should supply a shared one (e.g. Redis)
+
+export interface RateLimitStore {
+  // Count a hit against `key` and return the total for the current window
+  hit(key: string, windowMs: number): Promise<{ count: number; resetAt: number }>
+}
+
+export interface RateLimitResult {
+  allowed: boolean
+  remaining: number
+  // Seconds until the window resets - set when not allowed
+  retryAfterSeconds: number
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private windows = new Map<string, { count: number; resetAt: number }>()
+  private lastPrune = 0
+
+  // Expired windows are dropped at most this often, so the map can't grow without bound
+  private readonly PRUNE_INTERVAL_MS = 60000
+
+  async hit(key: string, windowMs: number): Promise<{ count: number; resetAt: number }> {
+    const now = Date.now()
+    this.prune(now)
+
+    let window = this.windows.get(key)
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + windowMs }
+      this.windows.set(key, window)
+    }
+    window.count++
+    return { count: window.count, resetAt: window.resetAt }
+  }
+
+  private prune(now: number): void {
+    if (now - this.lastPrune < this.PRUNE_INTERVAL_MS) {
+      return
+    }
+    this.lastPrune = now
+
+    const expired: string[] = []
+    this.windows.forEach((window, key) => {
+      if (window.resetAt <= now) {
+        expired.push(key)
+      }
+    })
+    expired.forEach(key => this.windows.delete(key))
+  }
+}
+
+export class RateLimiter {
+  private store: RateLimitStore
+  private limit: number
+  private windowMs: number
+
+  constructor(limit: number, windowMs: number, store: RateLimitStore = new MemoryRateLimitStore()) {
+    this.limit = limit
+    this.windowMs = windowMs
+    this.store = store
+  }
+
+  async check(key: string): Promise<RateLimitResult> {
+    const { count, resetAt } = await this.store.hit(key, this.windowMs)
+    const allowed = count <= this.limit
+    return {
+      allowed,
+      remaining: Math.max(0, this.limit - count),
+      retryAfterSeconds: allowed ? 0 : Math.max(1, Math.ceil((resetAt - Date.now()) / 1000)),
+    }
+  }
+}
@@ -0,0 +1,104 @@
+import { readFileSync } from 'fs'
+import { join } from 'path'
+import { describe, expect, it } from 'vitest'
+import { RealtimeServerEvent, ServerEventHandlers, dispatchServerEvent, parseServerEvent } from './realtime-events'
+
+// Frames recorded from Realtime API sessions, one per line as they arrived on the socket
+function frames(name: string): string[] {
+  return readFileSync(join(__dirname, 'fixtures', name), 'utf8').split('\n').filter(Boolean)
+}
+
+const KNOWN = frames('realtime-server-events.jsonl')
+const UNKNOWN = frames('realtime-unknown-events.jsonl')
+const MALFORMED = frames('realtime-malformed-events.jsonl')
+
+// Handlers that record which one ran and with what; typed, so every event type has one
+function recordingHandlers(calls: [string, RealtimeServerEvent][]): ServerEventHandlers {
+  const record = (type: string) => (event: RealtimeServerEvent) => { calls.push([type, event]) }
+  return {
+    'session.created': record('session.created'),
+    'session.updated': record('session.updated'),
+    'input_audio_buffer.speech_started': record('input_audio_buffer.speech_started'),
+    'input_audio_buffer.speech_stopped': record('input_audio_buffer.speech_stopped'),
+    'input_audio_buffer.committed': record('input_audio_buffer.committed'),
+    'input_audio_buffer.cleared': record('input_audio_buffer.cleared'),
+    'conversation.item.created': record('conversation.item.created'),
+    'conversation.item.input_audio_transcription.delta': record('conversation.item.input_audio_transcription.delta'),
+    'conversation.item.input_audio_transcription.completed': record('conversation.item.input_audio_transcription.completed'),
+    'conversation.item.input_audio_transcription.failed': record('conversation.item.input_audio_transcription.failed'),
+    'rate_limits.updated': record('rate_limits.updated'),
+    'error': record('error'),
+  }
+}
+
+describe('parseServerEvent', () => {
+  it('covers every known event type in the recorded frames', () => {
+    const types = KNOWN.map(frame => JSON.parse(frame).type)
+    Object.keys(recordingHandlers([])).forEach(type => expect(types).toContain(type))
+  })
+
+  it.each(KNOWN.map(frame => [JSON.parse(frame).type, frame]))('accepts a recorded %s event', (type, frame) => {
+    const result = parseServerEvent(frame)
+    expect(result).toEqual({ ok: true, event: JSON.parse(frame) })
+    expect(result.ok && result.event.type).toBe(type)
+  })
+
+  it.each(UNKNOWN.map(frame => [JSON.parse(frame).type, frame]))('reports %s as an unknown event', (type, frame) => {
+    expect(parseServerEvent(frame)).toEqual({
+      ok: false,
+      diagnostic: { kind: 'unknown_event', eventType: type, detail: `Unhandled event type "${type}"` },
+    })
+  })
+
+  it('reports every malformed frame', () => {
+    MALFORMED.forEach(frame => {
+      const result = parseServerEvent(frame)
+      expect(result.ok, frame).toBe(false)
+      expect(!result.ok && result.diagnostic.kind, frame).toBe('malformed_event')
+    })
+  })
+
+  it('names the event and the fields that failed validation', () => {
+    const details = MALFORMED.map(frame => {
+      const result = parseServerEvent(frame)
+      return result.ok ? null : [result.diagnostic.eventType, result.diagnostic.detail]
+    })
+    expect(details).toEqual([
+      ['conversation.item.input_audio_transcription.completed', 'transcript should be string, got missing'],
+      ['conversation.item.input_audio_transcription.delta', 'delta should be string, got missing'],
+      ['input_audio_buffer.speech_started', 'audio_start_ms should be number, got string'],
+      ['input_audio_buffer.committed', 'previous_item_id should be string or null, got number'],
+      ['rate_limits.updated', 'rate_limits should be array, got object'],
+      ['error', 'error should be object, got string'],
+      [null, 'Missing event type'],
+      [null, 'Missing event type'],
+      [null, 'Expected a JSON object'],
+      [null, 'Expected a JSON object'],
+      [null, 'Invalid JSON'],
+    ])
+  })
+
+  it('rejects binary frames', () => {
+    expect(parseServerEvent(new ArrayBuffer(8))).toEqual({
+      ok: false,
+      diagnostic: { kind: 'malformed_event', eventType: null, detail: 'Expected a text frame' },
+    })
+  })
+})
+
+describe('dispatchServerEvent', () => {
+  it('routes each recorded event to the handler for its type, in order', () => {
+    const events = KNOWN.map(frame => {
+      const result = parseServerEvent(frame)
+      if (!result.ok) {
+        throw new Error(result.diagnostic.detail)
+      }
+      return result.event
+    })
+
+    const calls: [string, RealtimeServerEvent][] = []
+    const handlers = recordingHandlers(calls)
+    events.forEach(event => dispatchServerEvent(event, handlers))
+    expect(calls).toEqual(events.map(event => [event.type, event]))
+  })
+})
@@ -0,0 +1,229 @@
+// Typed client and server events for the OpenAI Realtime API (transcription subset)
+// Server events are validated at runtime before dispatch, so a renamed event or a
+// changed field shows up as a diagnostic instead of a silently missing transcript
+import type { STTDiagnostic } from './provider'
+import type { RealtimeSessionConfig } from './session-config'
+
+// --- Client events (browser -> API) ---
+
+export interface SessionUpdateEvent {
+  type: 'session.update'
+  session: RealtimeSessionConfig
+}
+
+export interface InputAudioBufferAppendEvent {
+  type: 'input_audio_buffer.append'
+  // Base64 PCM16 at the session's input rate
+  audio: string
+}
+
+export interface InputAudioBufferCommitEvent {
+  type: 'input_audio_buffer.commit'
+}
+
+export interface InputAudioBufferClearEvent {
+  type: 'input_audio_buffer.clear'
+}
+
+export type RealtimeClientEvent =
+  | SessionUpdateEvent
+  | InputAudioBufferAppendEvent
+  | InputAudioBufferCommitEvent
+  | InputAudioBufferClearEvent
+
+// --- Server events (API -> browser) ---
+
+export interface RealtimeErrorDetail {
+  type?: string
+  code?: string
+  message?: string
+}
+
+export interface SessionCreatedEvent {
+  type: 'session.created'
+  session: { id?: string }
+}
+
+export interface SessionUpdatedEvent {
+  type: 'session.updated'
+  session: object
+}
+
+export interface SpeechStartedEvent {
+  type: 'input_audio_buffer.speech_started'
+  item_id: string
+  // Offset into the session's audio, in ms
+  audio_start_ms: number
+}
+
+export interface SpeechStoppedEvent {
+  type: 'input_audio_buffer.speech_stopped'
+  item_id: string
+  audio_end_ms: number
+}
+
+export interface InputAudioBufferCommittedEvent {
+  type: 'input_audio_buffer.committed'
+  item_id: string
+  previous_item_id?: string | null
+}
+
+export interface InputAudioBufferClearedEvent {
+  type: 'input_audio_buffer.cleared'
+}
+
+export interface ConversationItemCreatedEvent {
+  type: 'conversation.item.created'
+  item: object
+}
+
+// The user's speech as it is transcribed - not to be confused with response.text.delta,
+// which is the model's own reply
+export interface TranscriptionDeltaEvent {
+  type: 'conversation.item.input_audio_transcription.delta'
+  item_id: string
+  delta: string
+}
+
+export interface TranscriptionCompletedEvent {
+  type: 'conversation.item.input_audio_transcription.completed'
+  item_id: string
+  transcript: string
+}
+
+export interface TranscriptionFailedEvent {
+  type: 'conversation.item.input_audio_transcription.failed'
+  item_id: string
+  error: RealtimeErrorDetail
+}
+
+export interface RateLimitsUpdatedEvent {
+  type: 'rate_limits.updated'
+  rate_limits: object[]
+}
+
+export interface ServerErrorEvent {
+  type: 'error'
+  error: RealtimeErrorDetail
+}
+
+export type RealtimeServerEvent =
+  | SessionCreatedEvent
+  | SessionUpdatedEvent
+  | SpeechStartedEvent
+  | SpeechStoppedEvent
+  | InputAudioBufferCommittedEvent
+  | InputAudioBufferClearedEvent
+  | ConversationItemCreatedEvent
+  | TranscriptionDeltaEvent
+  | TranscriptionCompletedEvent
+  | TranscriptionFailedEvent
+  | RateLimitsUpdatedEvent
+  | ServerErrorEvent
+
+export type RealtimeServerEventType = RealtimeServerEvent['type']
+
+export type ServerEventOf<T extends RealtimeServerEventType> = Extract<RealtimeServerEvent, { type: T }>
+
+// One handler per server event - adding an event to the union without handling it
+// is a type error at every call site
+export type ServerEventHandlers = {
+  [T in RealtimeServerEventType]: (event: ServerEventOf<T>) => void
+}
+
+// --- Runtime validation ---
+
+type FieldKind = 'string' | 'number' | 'object' | 'array'
+
+// Required fields per event; a trailing '?' marks a field that may be missing or null
+type EventSchema = { [field: string]: FieldKind | `${FieldKind}?` }
+
+const SERVER_EVENT_SCHEMAS: { [T in RealtimeServerEventType]: EventSchema } = {
+  'session.created': { session: 'object' },
+  'session.updated': { session: 'object' },
+  'input_audio_buffer.speech_started': { item_id: 'string', audio_start_ms: 'number' },
+  'input_audio_buffer.speech_stopped': { item_id: 'string', audio_end_ms: 'number' },
+  'input_audio_buffer.committed': { item_id: 'string', previous_item_id: 'string?' },
+  'input_audio_buffer.cleared': {},
+  'conversation.item.created': { item: 'object' },
+  'conversation.item.input_audio_transcription.delta': { item_id: 'string', delta: 'string' },
+  'conversation.item.input_audio_transcription.completed': { item_id: 'string', transcript: 'string' },
+  'conversation.item.input_audio_transcription.failed': { item_id: 'string', error: 'object' },
+  'rate_limits.updated': { rate_limits: 'array' },
+  'error': { error: 'object' },
+}
+
+export type ParseResult =
+  | { ok: true; event: RealtimeServerEvent }
+  | { ok: false; diagnostic: STTDiagnostic }
+
+function kindOf(value: unknown): FieldKind | 'missing' | 'other' {
+  if (value === undefined || value === null) {
+    return 'missing'
+  }
+  if (Array.isArray(value)) {
+    return 'array'
+  }
+  const kind = typeof value
+  return kind === 'string' || kind === 'number' || kind === 'object' ? kind : 'other'
+}
+
+function schemaErrors(message: { [field: string]: unknown }, schema: EventSchema): string[] {
+  const errors: string[] = []
+  Object.keys(schema).forEach(field => {
+    const spec = schema[field]
+    const optional = spec.charAt(spec.length - 1) === '?'
+    const expected = optional ? spec.slice(0, -1) : spec
+    const actual = kindOf(message[field])
+
+    if (actual === 'missing' ? !optional : actual !== expected) {
+      errors.push(`${field} should be ${expected}${optional ? ' or null' : ''}, got ${actual}`)
+    }
+  })
+  return errors
+}
+
+// Parse one WebSocket frame - anything that isn't a known, well-formed event becomes a diagnostic
+export function parseServerEvent(data: unknown): ParseResult {
+  const malformed = (eventType: string | null, detail: string): ParseResult =>
+    ({ ok: false, diagnostic: { kind: 'malformed_event', eventType, detail } })
+
+  if (typeof data !== 'string') {
+    return malformed(null, 'Expected a text frame')
+  }
+
+  let message: unknown
+  try {
+    message = JSON.parse(data)
+  } catch {
+    return malformed(null, 'Invalid JSON')
+  }
+
+  if (kindOf(message) !== 'object') {
+    return malformed(null, 'Expected a JSON object')
+  }
+  const fields = message as { [field: string]: unknown }
+  if (typeof fields.type !== 'string') {
+    return malformed(null, 'Missing event type')
+  }
+
+  const type = fields.type
+  if (!SERVER_EVENT_SCHEMAS.hasOwnProperty(type)) {
+    return { ok: false, diagnostic: { kind: 'unknown_event', eventType: type, detail: `Unhandled event type "${type}"` } }
+  }
+
+  const errors = schemaErrors(fields, SERVER_EVENT_SCHEMAS[type as RealtimeServerEventType])
+  if (errors.length > 0) {
+    return malformed(type, errors.join('; '))
+  }
+  return { ok: true, event: message as RealtimeServerEvent }
+}
+
+export function dispatchServerEvent(event: RealtimeServerEvent, handlers: ServerEventHandlers): void {
+  const handler = handlers[event.type] as (event: RealtimeServerEvent) => void
+  handler(event)
+}
+
+export function serializeClientEvent(event: RealtimeClientEvent): string {
+  return JSON.stringify(event)
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it, vi } from 'vitest'
+import { AudioBlock, AudioSpool, OffsetMap, WavRecorder, recoverRecording } from './recorder'
+
+// A tiny rate keeps the 10 s spool blocks small
+const RATE = 100
+
+function samples(from: number, count: number): Int16Array<ArrayBuffer> {
+  const out = new Int16Array(count)
+  for (let i = 0; i < count; i++) {
+    out[i] = from + i
+  }
+  return out
+}
+
+function memorySpool(failIndex: number | null = null): AudioSpool & { blocks: AudioBlock[] } {
+  const blocks: AudioBlock[] = []
+  return {
+    blocks,
+    write: async (block) => {
+      if (block.index === failIndex) {
+        throw new Error('quota exceeded')
+      }
+      blocks.push(block)
+    },
+    readAll: async () => blocks.slice(),
+  }
+}
+
+async function pcm(blob: Blob): Promise<number[]> {
+  return Array.from(new Int16Array((await blob.arrayBuffer()).slice(44)))
+}
+
+describe('WavRecorder', () => {
+  it('spools full blocks and rebuilds the recording in order', async () => {
+    const spool = memorySpool()
+    const recorder = new WavRecorder(RATE, spool)
+    for (let i = 0; i < 25; i++) {
+      recorder.push(samples(i * RATE, RATE))
+    }
+
+    const blob = await recorder.toBlob()
+    expect(spool.blocks.map(block => block.index)).toEqual([0, 1])
+    expect(recorder.durationMs).toBe(25000)
+    expect(blob.size).toBe(44 + 25 * RATE * 2)
+    expect(await pcm(blob)).toEqual(Array.from(samples(0, 25 * RATE)))
+  })
+
+  it('keeps a block it failed to spool', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const recorder = new WavRecorder(RATE, memorySpool(0))
+    for (let i = 0; i < 20; i++) {
+      recorder.push(samples(i * RATE, RATE))
+    }
+    expect(await pcm(await recorder.toBlob())).toEqual(Array.from(samples(0, 20 * RATE)))
+  })
+
+  it('holds everything in memory without a spool', async () => {
+    const recorder = new WavRecorder(RATE)
+    const chunk = samples(0, 30)
+    recorder.push(chunk)
+    recorder.push(samples(30, 30))
+    expect(recorder.offsetOf(chunk)).toBe(0)
+    expect(await pcm(await recorder.toBlob())).toEqual(Array.from(samples(0, 60)))
+  })
+})
+
+describe('recoverRecording', () => {
+  it('rebuilds a crashed recording up to the first missing block', async () => {
+    const block = (index: number) => ({ index, data: new Blob([samples(index * 10, 10)]) })
+    const audio = recoverRecording([block(1), block(0), block(3)], RATE, [{ sentMs: 0, recordedMs: 0 }])
+    expect(audio?.durationMs).toBe(200)
+    expect(audio?.offsets).toEqual([{ sentMs: 0, recordedMs: 0 }])
+    expect(await pcm(audio!.blob)).toEqual(Array.from(samples(0, 20)))
+  })
+
+  it('returns null with nothing to recover', () => {
+    expect(recoverRecording([], RATE)).toBeNull()
+  })
+})
+
+describe('OffsetMap', () => {
+  it('stores only changes in the sent-to-recorded gap', () => {
+    const map = new OffsetMap()
+    map.add(0, 0)
+    map.add(40, 40.4)
+    map.add(80, 3080)
+    map.add(120, 3120)
+    expect(map.toJSON()).toEqual([{ sentMs: 0, recordedMs: 0 }, { sentMs: 80, recordedMs: 3080 }])
+    expect(map.toRecordedMs(60)).toBe(60)
+    expect(map.toRecordedMs(100)).toBe(3100)
+  })
+})
@@ -0,0 +1,232 @@
+// Opt-in local recording of the captured PCM16 stream
+// WAV rather than MediaRecorder/Opus: it is built from the exact samples the
+// worklet produced, so recording offsets line up with the sent audio sample for sample
+// Audio is spooled out in blocks as it is captured (see AudioSpool), so an hour-long
+// recording doesn't sit in memory and a crashed tab doesn't lose it
+
+export interface OffsetAnchor {
+  sentMs: number
+  recordedMs: number
+}
+
+export interface SessionAudio {
+  blob: Blob
+  durationMs: number
+  // Maps transcript offsets (sent audio) onto the recording - see OffsetMap
+  offsets: OffsetAnchor[]
+}
+
+// Raw PCM16 samples of one stretch of a recording, in capture order
+export interface AudioBlock {
+  index: number
+  data: Blob
+}
+
+// Durable storage for a recording in progress - IndexedDB in the app (SessionHistory.audioSpool)
+export interface AudioSpool {
+  write(block: AudioBlock): Promise<void>
+  readAll(): Promise<AudioBlock[]>
+}
+
+const WAV_HEADER_BYTES = 44
+
+// Where each captured chunk starts on the capture timeline - all audio the mic delivered
+// while not paused, which is what a recording holds. Local VAD sends only part of it
+export class ChunkClock {
+  private sampleRate: number
+  private samples = 0
+  private offsets = new WeakMap<Int16Array, number>()
+
+  constructor(sampleRate: number) {
+    this.sampleRate = sampleRate
+  }
+
+  push(pcm16: Int16Array): void {
+    this.offsets.set(pcm16, this.durationMs)
+    this.samples += pcm16.length
+  }
+
+  // Offset (ms) of a chunk previously pushed
+  offsetOf(pcm16: Int16Array): number | undefined {
+    return this.offsets.get(pcm16)
+  }
+
+  get durationMs(): number {
+    return (this.samples / this.sampleRate) * 1000
+  }
+
+  reset(): void {
+    this.samples = 0
+    this.offsets = new WeakMap()
+  }
+}
+
+export class WavRecorder {
+  private sampleRate: number
+  private spool: AudioSpool | null
+  // Captured since the last block was spooled
+  private chunks: Int16Array[] = []
+  private pendingSamples = 0
+  private blockCount = 0
+  // Blocks whose spool write hasn't succeeded (yet) - kept so the recording stays whole
+  private unsaved: { [index: number]: Blob } = {}
+  private writes: Promise<void> = Promise.resolve()
+  // Where each chunk starts in the recording, so sent chunks can be placed on it
+  private clock: ChunkClock
+
+  // ~480 KB at 24 kHz
+  private readonly BLOCK_SECONDS = 10
+
+  // Without a spool the whole recording is held in memory until toBlob()
+  constructor(sampleRate: number, spool: AudioSpool | null = null) {
+    this.sampleRate = sampleRate
+    this.spool = spool
+    this.clock = new ChunkClock(sampleRate)
+  }
+
+  push(pcm16: Int16Array): void {
+    this.clock.push(pcm16)
+    this.chunks.push(pcm16)
+    this.pendingSamples += pcm16.length
+    if (this.spool && this.pendingSamples >= this.sampleRate * this.BLOCK_SECONDS) {
+      this.spoolPending(this.spool)
+    }
+  }
+
+  // Recording offset (ms) of a chunk previously pushed, if it was recorded
+  offsetOf(pcm16: Int16Array): number | undefined {
+    return this.clock.offsetOf(pcm16)
+  }
+
+  get durationMs(): number {
+    return this.clock.durationMs
+  }
+
+  // The whole recording as a WAV. Spooled blocks are read back from the spool, whose
+  // blobs are disk-backed, so this doesn't pull the recording into memory either
+  async toBlob(): Promise<Blob> {
+    await this.writes
+    const parts: Blob[] = []
+    if (this.spool && this.blockCount > 0) {
+      const stored: { [index: number]: Blob } = {}
+      const blocks = await this.spool.readAll()
+      blocks.forEach(block => {
+        stored[block.index] = block.data
+      })
+      for (let index = 0; index < this.blockCount; index++) {
+        const data = this.unsaved[index] || stored[index]
+        if (!data) {
+          throw new Error(`Recording block ${index} is missing`)
+        }
+        parts.push(data)
+      }
+    }
+    return encodeWav(parts.concat(new Blob(this.chunks as Int16Array<ArrayBuffer>[])), this.sampleRate)
+  }
+
+  private spoolPending(spool: AudioSpool): void {
+    const block = { index: this.blockCount++, data: new Blob(this.chunks as Int16Array<ArrayBuffer>[]) }
+    this.chunks = []
+    this.pendingSamples = 0
+    this.unsaved[block.index] = block.data
+
+    // One write at a time, in order
+    this.writes = this.writes
+      .then(() => spool.write(block))
+      .then(() => {
+        delete this.unsaved[block.index]
+      })
+      .catch(error => {
+        // Keeps the block in memory - the recording survives, just not a crash
+        console.error(`Failed to spool recording block ${block.index}:`, error)
+      })
+  }
+}
+
+// 16-bit mono PCM WAV from raw sample parts (Int16Arrays, or blobs of them). Int16Array
+// parts are written in platform byte order, which is little-endian on every platform browsers ship on
+export function encodeWav(chunks: (Int16Array | Blob)[], sampleRate: number): Blob {
+  let dataBytes = 0
+  chunks.forEach(chunk => {
+    dataBytes += chunk instanceof Blob ? chunk.size : chunk.byteLength
+  })
+
+  const header = new DataView(new ArrayBuffer(WAV_HEADER_BYTES))
+  const writeTag = (offset: number, tag: string) => {
+    for (let i = 0; i < tag.length; i++) {
+      header.setUint8(offset + i, tag.charCodeAt(i))
+    }
+  }
+
+  writeTag(0, 'RIFF')
+  header.setUint32(4, 36 + dataBytes, true)
+  writeTag(8, 'WAVE')
+  writeTag(12, 'fmt ')
+  header.setUint32(16, 16, true) // fmt chunk size
+  header.setUint16(20, 1, true) // PCM
+  header.setUint16(22, 1, true) // mono
+  header.setUint32(24, sampleRate, true)
+  header.setUint32(28, sampleRate * 2, true) // byte rate
+  header.setUint16(32, 2, true) // block align
+  header.setUint16(34, 16, true) // bits per sample
+  writeTag(36, 'data')
+  header.setUint32(40, dataBytes, true)
+
+  // Chunks come from transferred worklet buffers, never SharedArrayBuffers
+  const parts: BlobPart[] = [header.buffer as ArrayBuffer]
+  chunks.forEach(chunk => parts.push(chunk as Blob | Int16Array<ArrayBuffer>))
+  return new Blob(parts, { type: 'audio/wav' })
+}
+
+// Rebuild the recording of a session that never got a Stop from its spooled blocks -
+// everything up to the last block written (at most BLOCK_SECONDS is lost)
+export function recoverRecording(blocks: AudioBlock[], sampleRate: number, offsets: OffsetAnchor[] = []): SessionAudio | null {
+  const ordered = blocks.slice().sort((a, b) => a.index - b.index)
+  // A gap means a failed write - only the audio before it lines up with the offsets
+  const contiguous: Blob[] = []
+  for (let i = 0; i < ordered.length && ordered[i].index === i; i++) {
+    contiguous.push(ordered[i].data)
+  }
+  if (contiguous.length === 0) {
+    return null
+  }
+
+  const blob = encodeWav(contiguous, sampleRate)
+  return { blob, durationMs: ((blob.size - WAV_HEADER_BYTES) / 2 / sampleRate) * 1000, offsets }
+}
+
+// Piecewise-linear map from the sent-audio timeline onto the recording (the capture timeline)
+// Without local VAD the two are identical; with it, silence is recorded but not
+// sent, so the gap between them grows at each speech onset. Only changes in that
+// gap are stored, which keeps the map small enough to save with the session
+export class OffsetMap {
+  private anchors: OffsetAnchor[]
+
+  // Sub-millisecond drift from float chunk durations isn't a new gap
+  private readonly TOLERANCE_MS = 1
+
+  constructor(anchors: OffsetAnchor[] = []) {
+    this.anchors = anchors.slice()
+  }
+
+  // Called with each sent chunk's position on both timelines, in send order
+  add(sentMs: number, recordedMs: number): void {
+    const last = this.anchors[this.anchors.length - 1]
+    if (last && Math.abs((recordedMs - sentMs) - (last.recordedMs - last.sentMs)) <= this.TOLERANCE_MS) {
+      return
+    }
+    this.anchors.push({ sentMs, recordedMs })
+  }
+
+  toRecordedMs(sentMs: number): number {
+    let anchor: OffsetAnchor | null = null
+    for (let i = 0; i < this.anchors.length && this.anchors[i].sentMs <= sentMs; i++) {
+      anchor = this.anchors[i]
+    }
+    return anchor ? anchor.recordedMs + (sentMs - anchor.sentMs) : sentMs
+  }
+
+  toJSON(): OffsetAnchor[] {
+    return this.anchors.slice()
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest } from 'next/server'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { clientIp, isAllowedOrigin, trustProxyFromEnv } from './request-guard'
+
+function request(headers: { [name: string]: string }): NextRequest {
+  return new NextRequest('http://app.example/api/openai-token', { method: 'POST', headers })
+}
+
+describe('clientIp', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('ignores X-Forwarded-For without a trusted proxy', () => {
+    expect(clientIp(request({ 'x-forwarded-for': '10.0.0.1' }))).toBeNull()
+  })
+
+  it('has no key without a client address, except in development', () => {
+    expect(clientIp(request({}), true)).toBeNull()
+    vi.stubEnv('NODE_ENV', 'development')
+    expect(clientIp(request({}))).toBe('local')
+  })
+
+  it('takes the first X-Forwarded-For hop behind a trusted proxy', () => {
+    expect(clientIp(request({ 'x-forwarded-for': '10.0.0.1, 10.0.0.2' }), true)).toBe('10.0.0.1')
+  })
+})
+
+describe('isAllowedOrigin', () => {
+  it('matches the Host header, not a client-sent X-Forwarded-Host', () => {
+    const spoofed = request({ origin: 'https://evil.example', host: 'app.example', 'x-forwarded-host': 'evil.example' })
+    expect(isAllowedOrigin(spoofed, [])).toBe(false)
+    expect(isAllowedOrigin(spoofed, [], true)).toBe(true)
+    expect(isAllowedOrigin(request({ origin: 'https://app.example', host: 'app.example' }), [])).toBe(true)
+  })
+
+  it('uses the allowlist when one is set', () => {
+    expect(isAllowedOrigin(request({ origin: 'https://app.example', host: 'app.example' }), ['https://other.example'])).toBe(false)
+    expect(isAllowedOrigin(request({ origin: 'https://other.example', host: 'app.example' }), ['https://other.example'])).toBe(true)
+  })
+
+  it('refuses requests without an Origin', () => {
+    expect(isAllowedOrigin(request({ host: 'app.example' }), [])).toBe(false)
+  })
+})
+
+describe('trustProxyFromEnv', () => {
+  it('is off unless TRUST_PROXY is set', () => {
+    expect(trustProxyFromEnv({ NODE_ENV: 'test' })).toBe(false)
+    expect(trustProxyFromEnv({ NODE_ENV: 'test', TRUST_PROXY: 'true' })).toBe(true)
+  })
+})
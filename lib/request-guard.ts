@@ -0,0 +1,54 @@
+import type { NextRequest } from 'next/server'
+
+// Request checks shared by the billable API routes (/api/openai-token, /api/assist)
+
+export function envNumber(name: string, fallback: number, env: NodeJS.ProcessEnv = process.env): number {
+  const value = Number(env[name])
+  return value > 0 ? value : fallback
+}
+
+// TOKEN_ALLOWED_ORIGINS, comma-separated; empty means same-origin only
+export function allowedOriginsFromEnv(env: NodeJS.ProcessEnv = process.env): string[] {
+  return (env.TOKEN_ALLOWED_ORIGINS || '')
+    .split(',')
+    .map(origin => origin.trim())
+    .filter(Boolean)
+}
+
+// TRUST_PROXY=true: a proxy in front of the server sets X-Forwarded-For / X-Forwarded-Host.
+// Without one, those headers come straight from the client and can say anything
+export function trustProxyFromEnv(env: NodeJS.ProcessEnv = process.env): boolean {
+  return env.TRUST_PROXY === 'true' || env.TRUST_PROXY === '1'
+}
+
+export function isAllowedOrigin(request: NextRequest, allowedOrigins: string[], trustProxy: boolean = false): boolean {
+  const origin = request.headers.get('origin')
+  if (!origin) {
+    return false
+  }
+  if (allowedOrigins.length > 0) {
+    return allowedOrigins.indexOf(origin) !== -1
+  }
+
+  const forwardedHost = trustProxy ? request.headers.get('x-forwarded-host') : null
+  try {
+    return new URL(origin).host === (forwardedHost || request.headers.get('host'))
+  } catch {
+    return false
+  }
+}
+
+// The per-IP rate-limit key: the platform's client address where it provides one, else the
+// first X-Forwarded-For hop behind a trusted proxy. Null when there is neither - a shared
+// key would let one client lock everyone out, and a client-chosen header would let each
+// request pick a fresh key, so the routes refuse to run. `next dev` is one local user
+export function clientIp(request: NextRequest, trustProxy: boolean = false): string | null {
+  if (request.ip) {
+    return request.ip
+  }
+  const forwarded = trustProxy ? request.headers.get('x-forwarded-for') : null
+  if (forwarded) {
+    return forwarded.split(',')[0].trim()
+  }
+  return process.env.NODE_ENV === 'development' ? 'local' : null
+}
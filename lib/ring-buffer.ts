@@ -0,0 +1,72 @@
+// Fixed-capacity PCM16 ring buffer
+// Holds the most recent audio while the STT connection is down - when full,
+// the oldest samples are overwritten so memory stays bounded
+export class PCM16RingBuffer {
+  private buffer: Int16Array
+  private writeIndex = 0
+  private length = 0
+  private overwritten = 0
+
+  constructor(capacity: number) {
+    this.buffer = new Int16Array(capacity)
+  }
+
+  get capacity(): number {
+    return this.buffer.length
+  }
+
+  get size(): number {
+    return this.length
+  }
+
+  // Samples lost to overwriting since the last drain/clear
+  get droppedSamples(): number {
+    return this.overwritten
+  }
+
+  push(samples: Int16Array): void {
+    const capacity = this.buffer.length
+    if (capacity === 0) {
+      this.overwritten += samples.length
+      return
+    }
+
+    // Only the tail of an oversized write can survive
+    let source = samples
+    if (source.length > capacity) {
+      this.overwritten += source.length - capacity
+      source = source.subarray(source.length - capacity)
+    }
+
+    const firstPart = Math.min(source.length, capacity - this.writeIndex)
+    this.buffer.set(source.subarray(0, firstPart), this.writeIndex)
+    this.buffer.set(source.subarray(firstPart), 0)
+    this.writeIndex = (this.writeIndex + source.length) % capacity
+
+    const newLength = this.length + source.length
+    if (newLength > capacity) {
+      this.overwritten += newLength - capacity
+    }
+    this.length = Math.min(newLength, capacity)
+  }
+
+  // Return buffered samples oldest-first and empty the buffer
+  drain(): Int16Array {
+    const capacity = this.buffer.length
+    const out = new Int16Array(this.length)
+    const start = (this.writeIndex - this.length + capacity) % capacity
+
+    const firstPart = Math.min(this.length, capacity - start)
+    out.set(this.buffer.subarray(start, start + firstPart), 0)
+    out.set(this.buffer.subarray(0, this.length - firstPart), firstPart)
+
+    this.clear()
+    return out
+  }
+
+  clear(): void {
+    this.writeIndex = 0
+    this.length = 0
+    this.overwritten = 0
+  }
+}
@@ -0,0 +1,164 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_RULE_SET, PostProcessRule, RuleSet, applyRules, exportRuleSet, importRuleSet, matchCase, validateRuleSet } from './rules'
+
+function rules(overrides: Partial<RuleSet>): RuleSet {
+  return { ...DEFAULT_RULE_SET, ...overrides }
+}
+
+const NUMBERS = rules({ normalizeNumbers: true })
+const PUNCTUATION = rules({ normalizePunctuation: true })
+
+describe('matchCase', () => {
+  it('copies ALL CAPS, Capitalized and lower case', () => {
+    expect(matchCase('TEH', 'the')).toBe('THE')
+    expect(matchCase('Teh', 'the')).toBe('The')
+    expect(matchCase('teh', 'the')).toBe('the')
+  })
+
+  it('treats a single capital as Capitalized, not ALL CAPS', () => {
+    expect(matchCase('I', 'me')).toBe('Me')
+    expect(matchCase('123', 'abc')).toBe('abc')
+  })
+})
+
+describe('applyRules', () => {
+  it('writes glossary terms and their aliases with the term spelling', () => {
+    const ruleSet = rules({ glossary: [{ term: 'OpenAI', aliases: ['open ai', 'open eye'] }] })
+    expect(applyRules('ask open  AI or Open Eye about openai', ruleSet)).toBe('ask OpenAI or OpenAI about OpenAI')
+    expect(applyRules('reopen aim', ruleSet)).toBe('reopen aim')
+  })
+
+  it('runs enabled rules top to bottom', () => {
+    const ruleSet = rules({
+      rules: [
+        { kind: 'replace', find: 'teh', replace: 'the', preserveCase: true, wholeWord: true, enabled: true },
+        { kind: 'regex', pattern: '(\\w+) \\1', flags: 'i', replace: '$1', enabled: true },
+        { kind: 'replace', find: 'the', replace: 'a', preserveCase: false, wholeWord: true, enabled: false },
+      ],
+    })
+    expect(applyRules('Teh the cat sat on TEH mat, tehran', ruleSet)).toBe('The cat sat on THE mat, tehran')
+  })
+
+  it('skips a regex that does not compile', () => {
+    const rule: PostProcessRule = { kind: 'regex', pattern: '(', flags: '', replace: 'x', enabled: true }
+    expect(applyRules('left alone', rules({ rules: [rule] }))).toBe('left alone')
+  })
+
+  it('masks built-in and extra profanity, keeping the first letter', () => {
+    expect(applyRules('oh shitty darn', rules({ maskProfanity: true, profanityWords: ['darn'] }))).toBe('oh s***** d***')
+  })
+
+  it('runs numbers before punctuation', () => {
+    expect(applyRules('up twenty five percent ,great', rules({ normalizeNumbers: true, normalizePunctuation: true })))
+      .toBe('Up 25%, great')
+  })
+})
+
+describe('number normalization', () => {
+  it.each([
+    ['twenty five', '25'],
+    ['one hundred and five', '105'],
+    ['two thousand and twenty four', '2024'],
+    ['five hundred thousand', '500000'],
+    ['one million two hundred thousand', '1200000'],
+    ['three billion forty million', '3040000000'],
+    ['nineteen hundred', '1900'],
+    ['twenty-one', '21'],
+  ])('turns "%s" into %s', (words, digits) => {
+    expect(applyRules(words, NUMBERS)).toBe(digits)
+  })
+
+  it('keeps single words below ten as words', () => {
+    expect(applyRules('one of them has seven', NUMBERS)).toBe('one of them has seven')
+    expect(applyRules('eleven', NUMBERS)).toBe('11')
+  })
+
+  it('leaves runs that are not one number alone', () => {
+    ;['five five', 'twenty thirty', 'hundred', 'thousand million', 'one thousand two million', 'five hundred hundred']
+      .forEach(words => expect(applyRules(words, NUMBERS)).toBe(words))
+  })
+
+  it('writes percent as %', () => {
+    expect(applyRules('fifty per cent', NUMBERS)).toBe('50%')
+  })
+})
+
+describe('punctuation normalization', () => {
+  it('fixes spacing, doubled marks and the leading capital', () => {
+    expect(applyRules('well  ,that was it!!Really?? yes..', PUNCTUATION)).toBe('Well, that was it! Really? yes.')
+    expect(applyRules('wait...', PUNCTUATION)).toBe('Wait...')
+  })
+
+  it('adds a space after a full stop only before a new sentence', () => {
+    expect(applyRules('it ended.Then it began', PUNCTUATION)).toBe('It ended. Then it began')
+  })
+
+  it('keeps dots inside names, domains, abbreviations and numbers', () => {
+    expect(applyRules('built with Node.js on openai.com, e.g. in the U.S. at 3.5x', PUNCTUATION))
+      .toBe('Built with Node.js on openai.com, e.g. in the U.S. at 3.5x')
+    expect(applyRules('about 1,000 users', PUNCTUATION)).toBe('About 1,000 users')
+  })
+})
+
+describe('validateRuleSet', () => {
+  it('accepts the defaults', () => {
+    expect(validateRuleSet(DEFAULT_RULE_SET)).toEqual([])
+  })
+
+  it('reports each problem', () => {
+    expect(validateRuleSet({
+      version: 2,
+      glossary: [{ term: ' ', aliases: 'x' }],
+      rules: [
+        { kind: 'regex', pattern: '(', flags: 'g', replace: '', enabled: true },
+        { kind: 'regex', pattern: '(', flags: 'i', replace: '', enabled: true },
+        { kind: 'replace', find: '', replace: 1, preserveCase: 'yes', wholeWord: true },
+        { kind: 'other', replace: '', enabled: false },
+      ],
+      profanityWords: null,
+      maskProfanity: false,
+      normalizeNumbers: 'no',
+      normalizePunctuation: false,
+    })).toEqual([
+      'version must be 1',
+      'glossary[0].term must be a non-empty string',
+      'glossary[0].aliases must be an array of strings',
+      'rules[0].flags may only contain i, m, s, u',
+      expect.stringContaining('rules[1].pattern is not a valid regular expression'),
+      'rules[2].enabled must be true or false',
+      'rules[2].replace must be a string',
+      'rules[2].find must be a non-empty string',
+      'rules[2].preserveCase and wholeWord must be true or false',
+      'rules[3].kind must be replace or regex',
+      'profanityWords must be an array of strings',
+      'normalizeNumbers must be true or false',
+    ])
+  })
+
+  it('rejects a non-object', () => {
+    expect(validateRuleSet([])).toContain('glossary must be an array')
+    expect(validateRuleSet(null)).toEqual(['rules must be an object'])
+  })
+})
+
+describe('import and export', () => {
+  it('round-trips a rule set', () => {
+    const ruleSet = rules({
+      glossary: [{ term: 'OpenAI', aliases: ['open ai'] }],
+      rules: [{ kind: 'regex', pattern: 'um+', flags: 'i', replace: '', enabled: true }],
+      maskProfanity: true,
+      profanityWords: ['darn'],
+    })
+    expect(importRuleSet(exportRuleSet(ruleSet))).toEqual({ ruleSet, errors: [] })
+  })
+
+  it('fills in fields missing from an older export', () => {
+    expect(importRuleSet('{"version":1,"glossary":[],"rules":[]}')).toEqual({ ruleSet: DEFAULT_RULE_SET, errors: [] })
+  })
+
+  it('refuses invalid files', () => {
+    expect(importRuleSet('{')).toEqual({ ruleSet: null, errors: ['File is not valid JSON'] })
+    expect(importRuleSet('{"version":3}').errors).toEqual(['version must be 1'])
+    expect(importRuleSet('"rules"').errors).toEqual(['rules must be an object'])
+  })
+})
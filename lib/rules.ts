@@ -0,0 +1,383 @@
+// Custom vocabulary and post-processing rules for final transcript text
+// The glossary is also sent to the model as a prompt hint (see withGlossaryPrompt);
+// everything else is a deterministic pass over each final segment, in this order:
+// glossary -> user rules (top to bottom) -> numbers -> punctuation -> profanity
+import { PROMPT_MAX_LENGTH } from './session-config'
+
+export interface GlossaryEntry {
+  // Canonical spelling, e.g. 'OpenAI' - always written exactly like this
+  term: string
+  // Mishearings to correct, e.g. ['open ai', 'open eye']; the term itself is
+  // always matched case-insensitively
+  aliases: string[]
+}
+
+export interface ReplaceRule {
+  kind: 'replace'
+  find: string
+  replace: string
+  // 'Teh' -> 'The', 'TEH' -> 'THE'
+  preserveCase: boolean
+  wholeWord: boolean
+}
+
+export interface RegexRule {
+  kind: 'regex'
+  pattern: string
+  // Any of 'i', 'm', 's', 'u'; 'g' is always added
+  flags: string
+  // May use $1, $<name> etc.
+  replace: string
+}
+
+export type PostProcessRule = (ReplaceRule | RegexRule) & { enabled: boolean }
+
+export interface RuleSet {
+  version: 1
+  glossary: GlossaryEntry[]
+  rules: PostProcessRule[]
+  maskProfanity: boolean
+  // Extra words to mask on top of the built-in list
+  profanityWords: string[]
+  // 'twenty five percent' -> '25%'
+  normalizeNumbers: boolean
+  // Spacing around punctuation, repeated marks, leading capital
+  normalizePunctuation: boolean
+}
+
+export const DEFAULT_RULE_SET: RuleSet = {
+  version: 1,
+  glossary: [],
+  rules: [],
+  maskProfanity: false,
+  profanityWords: [],
+  normalizeNumbers: false,
+  normalizePunctuation: false,
+}
+
+// Stems - inflections ('-ing', '-ed', ...) are covered by the pattern
+const PROFANITY_STEMS = ['fuck', 'shit', 'bitch', 'bastard', 'asshole', 'cunt', 'dickhead', 'motherfuck', 'bullshit']
+
+const REGEX_FLAGS = 'imsu'
+
+// --- Validation, import and export ---
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string')
+}
+
+// Returns one message per problem - empty when the rule set is usable
+export function validateRuleSet(input: unknown): string[] {
+  if (typeof input !== 'object' || input === null) {
+    return ['rules must be an object']
+  }
+
+  const ruleSet = input as Record<string, unknown>
+  const errors: string[] = []
+
+  if (ruleSet.version !== 1) {
+    errors.push('version must be 1')
+  }
+
+  if (!Array.isArray(ruleSet.glossary)) {
+    errors.push('glossary must be an array')
+  } else {
+    ruleSet.glossary.forEach((entry, index) => {
+      if (typeof entry?.term !== 'string' || !entry.term.trim()) {
+        errors.push(`glossary[${index}].term must be a non-empty string`)
+      }
+      if (!isStringArray(entry?.aliases)) {
+        errors.push(`glossary[${index}].aliases must be an array of strings`)
+      }
+    })
+  }
+
+  if (!Array.isArray(ruleSet.rules)) {
+    errors.push('rules must be an array')
+  } else {
+    ruleSet.rules.forEach((rule, index) => {
+      const label = `rules[${index}]`
+      if (typeof rule?.enabled !== 'boolean') {
+        errors.push(`${label}.enabled must be true or false`)
+      }
+      if (typeof rule?.replace !== 'string') {
+        errors.push(`${label}.replace must be a string`)
+      }
+
+      if (rule?.kind === 'replace') {
+        if (typeof rule.find !== 'string' || !rule.find) {
+          errors.push(`${label}.find must be a non-empty string`)
+        }
+        if (typeof rule.preserveCase !== 'boolean' || typeof rule.wholeWord !== 'boolean') {
+          errors.push(`${label}.preserveCase and wholeWord must be true or false`)
+        }
+      } else if (rule?.kind === 'regex') {
+        if (typeof rule.flags !== 'string' || rule.flags.split('').some((flag: string) => REGEX_FLAGS.indexOf(flag) === -1)) {
+          errors.push(`${label}.flags may only contain ${REGEX_FLAGS.split('').join(', ')}`)
+        } else if (typeof rule.pattern !== 'string' || !rule.pattern) {
+          errors.push(`${label}.pattern must be a non-empty string`)
+        } else {
+          try {
+            new RegExp(rule.pattern, rule.flags + 'g')
+          } catch (error) {
+            errors.push(`${label}.pattern is not a valid regular expression: ${error instanceof Error ? error.message : error}`)
+          }
+        }
+      } else {
+        errors.push(`${label}.kind must be replace or regex`)
+      }
+    })
+  }
+
+  if (!isStringArray(ruleSet.profanityWords)) {
+    errors.push('profanityWords must be an array of strings')
+  }
+  const flags = ['maskProfanity', 'normalizeNumbers', 'normalizePunctuation']
+  flags.forEach(flag => {
+    if (typeof ruleSet[flag] !== 'boolean') {
+      errors.push(`${flag} must be true or false`)
+    }
+  })
+
+  return errors
+}
+
+// Rule sets saved by an older version may lack newer fields
+export function withRuleDefaults(ruleSet: Partial<RuleSet> | null | undefined): RuleSet {
+  return { ...DEFAULT_RULE_SET, ...(ruleSet || {}) }
+}
+
+export function exportRuleSet(ruleSet: RuleSet): string {
+  return JSON.stringify(ruleSet, null, 2) + '\n'
+}
+
+export function importRuleSet(json: string): { ruleSet: RuleSet | null; errors: string[] } {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(json)
+  } catch {
+    return { ruleSet: null, errors: ['File is not valid JSON'] }
+  }
+
+  const ruleSet = typeof parsed === 'object' && parsed !== null ? withRuleDefaults(parsed as Partial<RuleSet>) : parsed
+  const errors = validateRuleSet(ruleSet)
+  return errors.length > 0 ? { ruleSet: null, errors } : { ruleSet: ruleSet as RuleSet, errors: [] }
+}
+
+// Glossary as editable text, one entry per line: 'Term: alias one, alias two'
+export function formatGlossary(glossary: GlossaryEntry[]): string {
+  return glossary.map(entry => (entry.aliases.length > 0 ? `${entry.term}: ${entry.aliases.join(', ')}` : entry.term)).join('\n')
+}
+
+export function parseGlossary(text: string): GlossaryEntry[] {
+  const entries: GlossaryEntry[] = []
+  text.split('\n').forEach(line => {
+    const separator = line.indexOf(':')
+    const term = (separator === -1 ? line : line.slice(0, separator)).trim()
+    if (!term) {
+      return
+    }
+    const aliases = separator === -1 ? [] : line.slice(separator + 1).split(',').map(alias => alias.trim()).filter(alias => alias)
+    entries.push({ term, aliases })
+  })
+  return entries
+}
+
+// --- Prompt hint ---
+
+// Append glossary terms to the session prompt, as many as fit in PROMPT_MAX_LENGTH
+export function withGlossaryPrompt(prompt: string, ruleSet: RuleSet): string {
+  const base = prompt.trim()
+  const terms: string[] = []
+  ruleSet.glossary.forEach(entry => {
+    const term = entry.term.trim()
+    if (term && terms.indexOf(term) === -1) {
+      terms.push(term)
+    }
+  })
+
+  let hint = ''
+  terms.forEach(term => {
+    const next = hint ? `${hint}, ${term}` : `Vocabulary: ${term}`
+    if ((base ? base.length + 1 : 0) + next.length + 1 <= PROMPT_MAX_LENGTH) {
+      hint = next
+    }
+  })
+
+  if (!hint) {
+    return base
+  }
+  return base ? `${base} ${hint}.` : `${hint}.`
+}
+
+// --- Post-processing ---
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+// Literal text with any run of whitespace matching any other, bounded by word edges where it has them
+function literalPattern(text: string, wholeWord: boolean): string {
+  const body = text.trim().split(/\s+/).map(escapeRegExp).join('\\s+')
+  if (!wholeWord) {
+    return body
+  }
+  const start = /^\w/.test(text.trim()) ? '\\b' : ''
+  const end = /\w$/.test(text.trim()) ? '\\b' : ''
+  return `${start}${body}${end}`
+}
+
+// Give `replacement` the casing pattern of `source`: ALL CAPS, Capitalized, or as written
+export function matchCase(source: string, replacement: string): string {
+  const letters = source.replace(/[^A-Za-z]/g, '')
+  if (letters.length > 1 && letters === letters.toUpperCase()) {
+    return replacement.toUpperCase()
+  }
+  if (letters && letters[0] === letters[0].toUpperCase()) {
+    return replacement.charAt(0).toUpperCase() + replacement.slice(1)
+  }
+  return replacement
+}
+
+function applyGlossary(text: string, glossary: GlossaryEntry[]): string {
+  let result = text
+  glossary.forEach(entry => {
+    const term = entry.term.trim()
+    if (!term) {
+      return
+    }
+    const variants = [term].concat(entry.aliases.filter(alias => alias.trim()))
+    const pattern = new RegExp(variants.map(variant => literalPattern(variant, true)).join('|'), 'gi')
+    result = result.replace(pattern, () => term)
+  })
+  return result
+}
+
+function applyRule(text: string, rule: PostProcessRule): string {
+  if (rule.kind === 'regex') {
+    // A pattern still being typed may not compile - skip it rather than drop the segment
+    let pattern: RegExp
+    try {
+      pattern = new RegExp(rule.pattern, rule.flags + 'g')
+    } catch {
+      return text
+    }
+    return rule.pattern ? text.replace(pattern, rule.replace) : text
+  }
+
+  if (!rule.find.trim()) {
+    return text
+  }
+
+  const pattern = new RegExp(literalPattern(rule.find, rule.wholeWord), 'gi')
+  return text.replace(pattern, (match) => (rule.preserveCase ? matchCase(match, rule.replace) : rule.replace))
+}
+
+const UNITS: { [word: string]: number } = {
+  zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9,
+  ten: 10, eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16,
+  seventeen: 17, eighteen: 18, nineteen: 19,
+  twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60, seventy: 70, eighty: 80, ninety: 90,
+}
+const SCALES: { [word: string]: number } = { hundred: 100, thousand: 1000, million: 1000000, billion: 1000000000 }
+
+const NUMBER_WORD = `(?:${Object.keys(UNITS).concat(Object.keys(SCALES)).join('|')})`
+// A run of number words, joined by spaces, hyphens or 'and' ('one hundred and five')
+const NUMBER_RUN = new RegExp(`\\b${NUMBER_WORD}(?:(?:\\s+and\\s+|[\\s-]+)${NUMBER_WORD})*\\b`, 'gi')
+
+// Value of a run of number words, or null if it isn't a well-formed number. 'hundred'
+// multiplies within a group of three digits; larger scales close the group and must
+// come in descending order ('one million two hundred thousand')
+function parseNumberWords(run: string): number | null {
+  const words = run.toLowerCase().split(/[\s-]+/).filter(word => word !== 'and')
+  let total = 0
+  let current = 0
+  let lastScale = Infinity
+  let last: 'unit' | 'ten' | 'hundred' | 'scale' | null = null
+
+  for (let i = 0; i < words.length; i++) {
+    const word = words[i]
+    if (UNITS.hasOwnProperty(word)) {
+      const value = UNITS[word]
+      const isTen = value >= 20 && value % 10 === 0
+      // 'twenty five' is fine, 'five five' or 'twenty thirty' is not one number
+      if (last === 'unit' || (last === 'ten' && (isTen || value >= 10))) {
+        return null
+      }
+      current += value
+      last = isTen ? 'ten' : 'unit'
+    } else if (word === 'hundred') {
+      // Once per group, after its count ('five hundred', not 'hundred hundred' or 'million hundred')
+      if (last === null || last === 'hundred' || last === 'scale' || current >= 100) {
+        return null
+      }
+      current *= 100
+      last = 'hundred'
+    } else {
+      const scale = SCALES[word]
+      if (last === null || last === 'scale' || scale >= lastScale) {
+        return null
+      }
+      total += current * scale
+      current = 0
+      lastScale = scale
+      last = 'scale'
+    }
+  }
+  return total + current
+}
+
+// Spelled-out numbers to digits. Single words below ten stay words ('one of them'),
+// and anything that doesn't parse as one number is left alone
+function normalizeNumbers(text: string): string {
+  return text
+    .replace(NUMBER_RUN, (run) => {
+      const value = parseNumberWords(run)
+      const isSingleWord = !/[\s-]/.test(run.trim())
+      return value === null || (isSingleWord && value < 10) ? run : String(value)
+    })
+    .replace(/(\d)\s+per\s*cent\b/gi, '$1%')
+}
+
+function normalizePunctuation(text: string): string {
+  const result = text
+    .replace(/\s+/g, ' ')
+    .replace(/\s+([,.!?;:])/g, '$1')
+    // Collapse doubled marks, but keep an ellipsis
+    .replace(/([,!?;:])\1+/g, '$1')
+    .replace(/(^|[^.])\.\.(?!\.)/g, '$1.')
+    // One space after a mark that ends a clause, unless it's inside a number (1,000)
+    .replace(/([,!?;:])(?=[A-Za-z])/g, '$1 ')
+    // A full stop only before a capital, and not after an initial, so 'Node.js',
+    // 'openai.com', 'e.g.' and 'U.S.' keep their dots as they are
+    .replace(/(\w{2}|[^\w\s.])\.(?=[A-Z])/g, '$1. ')
+    .trim()
+  return result.charAt(0).toUpperCase() + result.slice(1)
+}
+
+function maskProfanity(text: string, extraWords: string[]): string {
+  const stems = PROFANITY_STEMS.map(escapeRegExp).join('|')
+  const extras = extraWords.filter(word => word.trim()).map(word => literalPattern(word, true))
+  const pattern = new RegExp(`\\b(?:${stems})\\w*${extras.length > 0 ? '|' + extras.join('|') : ''}`, 'gi')
+  return text.replace(pattern, (word) => word.charAt(0) + word.slice(1).replace(/\S/g, '*'))
+}
+
+// Run the whole pass over one final segment's text
+export function applyRules(text: string, ruleSet: RuleSet): string {
+  let result = applyGlossary(text, ruleSet.glossary)
+  ruleSet.rules.forEach(rule => {
+    if (rule.enabled) {
+      result = applyRule(result, rule)
+    }
+  })
+  if (ruleSet.normalizeNumbers) {
+    result = normalizeNumbers(result)
+  }
+  if (ruleSet.normalizePunctuation) {
+    result = normalizePunctuation(result)
+  }
+  if (ruleSet.maskProfanity) {
+    result = maskProfanity(result, ruleSet.profanityWords)
+  }
+  return result
+}
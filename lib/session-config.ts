@@ -0,0 +1,126 @@
+import type { CommitMode } from './provider'
+
+// Transcription session settings, shared by the settings panel, the token route
+// and the client's session.update - so the session is created and configured alike
+
+export const REALTIME_MODEL = 'gpt-4o-realtime-preview'
+
+export type TranscriptionModel = 'whisper-1' | 'gpt-4o-transcribe' | 'gpt-4o-mini-transcribe'
+
+export type NoiseReduction = 'off' | 'near_field' | 'far_field'
+
+export interface SessionConfig {
+  transcriptionModel: TranscriptionModel
+  // ISO-639-1 code (e.g. 'en'); '' lets the model detect the language
+  language: string
+  // Domain vocabulary / spelling hints passed to the transcription model
+  prompt: string
+  // Server VAD activation threshold, 0-1 - higher needs louder speech
+  vadThreshold: number
+  // Silence (ms) before server VAD ends a turn
+  silenceDurationMs: number
+  noiseReduction: NoiseReduction
+}
+
+export const TRANSCRIPTION_MODELS: { model: TranscriptionModel; label: string }[] = [
+  { model: 'whisper-1', label: 'Whisper' },
+  { model: 'gpt-4o-transcribe', label: 'GPT-4o Transcribe' },
+  { model: 'gpt-4o-mini-transcribe', label: 'GPT-4o mini Transcribe' },
+]
+
+export const NOISE_REDUCTION_MODES: { mode: NoiseReduction; label: string }[] = [
+  { mode: 'off', label: 'Off' },
+  { mode: 'near_field', label: 'Near field (headset)' },
+  { mode: 'far_field', label: 'Far field (laptop / room mic)' },
+]
+
+export const DEFAULT_SESSION_CONFIG: SessionConfig = {
+  transcriptionModel: 'whisper-1',
+  language: '',
+  prompt: '',
+  vadThreshold: 0.5,
+  silenceDurationMs: 500,
+  noiseReduction: 'off',
+}
+
+export const PROMPT_MAX_LENGTH = 1000
+export const SILENCE_DURATION_RANGE = { min: 200, max: 2000 }
+
+// Fill in defaults for missing fields, e.g. settings saved by an older version
+export function withDefaults(config: Partial<SessionConfig> | null | undefined): SessionConfig {
+  return { ...DEFAULT_SESSION_CONFIG, ...(config || {}) }
+}
+
+// A JSON object, not an array or primitive
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+// Returns one message per invalid field - empty when the config is usable
+export function validateSessionConfig(input: unknown): string[] {
+  if (!isPlainObject(input)) {
+    return ['config must be an object']
+  }
+
+  const config = input as Record<string, unknown>
+  const errors: string[] = []
+
+  if (!TRANSCRIPTION_MODELS.some(m => m.model === config.transcriptionModel)) {
+    errors.push(`transcriptionModel must be one of ${TRANSCRIPTION_MODELS.map(m => m.model).join(', ')}`)
+  }
+  if (typeof config.language !== 'string' || !/^([a-z]{2})?$/.test(config.language)) {
+    errors.push('language must be a two-letter ISO-639-1 code, or empty for auto-detect')
+  }
+  if (typeof config.prompt !== 'string' || config.prompt.length > PROMPT_MAX_LENGTH) {
+    errors.push(`prompt must be a string of at most ${PROMPT_MAX_LENGTH} characters`)
+  }
+  if (typeof config.vadThreshold !== 'number' || !(config.vadThreshold >= 0 && config.vadThreshold <= 1)) {
+    errors.push('vadThreshold must be a number between 0 and 1')
+  }
+  if (
+    typeof config.silenceDurationMs !== 'number' ||
+    Math.round(config.silenceDurationMs) !== config.silenceDurationMs ||
+    config.silenceDurationMs < SILENCE_DURATION_RANGE.min ||
+    config.silenceDurationMs > SILENCE_DURATION_RANGE.max
+  ) {
+    errors.push(`silenceDurationMs must be a whole number from ${SILENCE_DURATION_RANGE.min} to ${SILENCE_DURATION_RANGE.max}`)
+  }
+  if (!NOISE_REDUCTION_MODES.some(m => m.mode === config.noiseReduction)) {
+    errors.push(`noiseReduction must be one of ${NOISE_REDUCTION_MODES.map(m => m.mode).join(', ')}`)
+  }
+
+  return errors
+}
+
+// Realtime API session fields, used both to create the session and in session.update
+export function toRealtimeSession(config: SessionConfig, commitMode: CommitMode) {
+  const transcription: { model: string; language?: string; prompt?: string } = {
+    model: config.transcriptionModel,
+  }
+  if (config.language) {
+    transcription.language = config.language
+  }
+  if (config.prompt.trim()) {
+    transcription.prompt = config.prompt.trim()
+  }
+
+  return {
+    modalities: ['text'],
+    instructions: 'You are a real-time speech transcription service. Transcribe the audio input accurately.',
+    input_audio_format: 'pcm16',
+    input_audio_transcription: transcription,
+    input_audio_noise_reduction: config.noiseReduction === 'off' ? null : { type: config.noiseReduction },
+    // We only want transcription events, never a model reply to each turn
+    turn_detection: commitMode === 'server_vad'
+      ? {
+        type: 'server_vad',
+        threshold: config.vadThreshold,
+        silence_duration_ms: config.silenceDurationMs,
+        create_response: false,
+      }
+      : null,
+  }
+}
+
+// The `session` object of a session.update event
+export type RealtimeSessionConfig = ReturnType<typeof toRealtimeSession>
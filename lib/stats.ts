@@ -0,0 +1,111 @@
+// Message counters and connection diagnostics shared by STT providers
+export interface STTStats {
+  messagesSent: number
+  audioChunksSent: number
+  bytesSent: number
+  // Messages per second over the last completed one-second window
+  messageRate: number
+  // Time audio spent waiting in the aggregator before it was sent
+  avgChunkLatencyMs: number
+  maxChunkLatencyMs: number
+  // Incoming side, for the diagnostics panel
+  eventsReceived: number
+  // Provider-assigned ID of the current session, if it has one
+  sessionId: string | null
+  // Last request/acknowledgement round trip (e.g. session.update -> session.updated)
+  roundTripMs: number | null
+  lastCloseCode: number | null
+}
+
+const RATE_WINDOW_MS = 1000
+
+export class StreamStats {
+  private messagesSent = 0
+  private audioChunksSent = 0
+  private bytesSent = 0
+  private latencyTotalMs = 0
+  private maxLatencyMs = 0
+  private windowStart = 0
+  private windowCount = 0
+  private messageRate = 0
+  private eventsReceived = 0
+  private sessionId: string | null = null
+  private roundTripMs: number | null = null
+  private lastCloseCode: number | null = null
+
+  recordMessage(bytes: number): void {
+    const t = now()
+    if (this.windowStart === 0) {
+      this.windowStart = t
+    }
+
+    this.messagesSent++
+    this.bytesSent += bytes
+    this.windowCount++
+
+    const elapsed = t - this.windowStart
+    if (elapsed >= RATE_WINDOW_MS) {
+      this.messageRate = (this.windowCount * 1000) / elapsed
+      this.windowStart = t
+      this.windowCount = 0
+    }
+  }
+
+  recordChunk(capturedAt: number): void {
+    const latency = Math.max(0, now() - capturedAt)
+    this.audioChunksSent++
+    this.latencyTotalMs += latency
+    this.maxLatencyMs = Math.max(this.maxLatencyMs, latency)
+  }
+
+  recordEvent(): void {
+    this.eventsReceived++
+  }
+
+  recordSession(sessionId: string | null): void {
+    this.sessionId = sessionId
+  }
+
+  // `sentAt` from now() when the request went out
+  recordRoundTrip(sentAt: number): void {
+    this.roundTripMs = Math.max(0, now() - sentAt)
+  }
+
+  recordClose(code: number): void {
+    this.lastCloseCode = code
+  }
+
+  snapshot(): STTStats {
+    return {
+      messagesSent: this.messagesSent,
+      audioChunksSent: this.audioChunksSent,
+      bytesSent: this.bytesSent,
+      messageRate: this.messageRate,
+      avgChunkLatencyMs: this.audioChunksSent > 0 ? this.latencyTotalMs / this.audioChunksSent : 0,
+      maxChunkLatencyMs: this.maxLatencyMs,
+      eventsReceived: this.eventsReceived,
+      sessionId: this.sessionId,
+      roundTripMs: this.roundTripMs,
+      lastCloseCode: this.lastCloseCode,
+    }
+  }
+
+  reset(): void {
+    this.messagesSent = 0
+    this.audioChunksSent = 0
+    this.bytesSent = 0
+    this.latencyTotalMs = 0
+    this.maxLatencyMs = 0
+    this.windowStart = 0
+    this.windowCount = 0
+    this.messageRate = 0
+    this.eventsReceived = 0
+    this.sessionId = null
+    this.roundTripMs = null
+    this.lastCloseCode = null
+  }
+}
+
+export function now(): number {
+  return typeof performance !== 'undefined' ? performance.now() : Date.now()
+}
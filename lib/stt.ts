@@ -1,191 +1,638 @@
 import { PCM16Encoder } from './encoder'
+import { PCM16RingBuffer } from './ring-buffer'
+import { now, StreamStats, STTStats } from './stats'
+import { DEFAULT_STT_OPTIONS } from './provider'
+import type { PCM16Chunk, STTCallbacks, STTOptions, STTProvider } from './provider'
+import { REALTIME_MODEL, toRealtimeSession } from './session-config'
+import { describeTokenError, TokenErrorBody } from './token-errors'
+import { dispatchServerEvent, parseServerEvent, serializeClientEvent } from './realtime-events'
+import type { RealtimeClientEvent, ServerEventHandlers } from './realtime-events'
 
-export interface STTCallbacks {
-  onPartialTranscript: (text: string) => void
-  onFinalTranscript: (text: string) => void
-  onError: (error: string) => void
-  onConnectionStateChange: (connected: boolean) => void
+export type { STTCallbacks }
+
+// The Realtime API's `pcm16` input format is 24 kHz mono little-endian
+const OPENAI_SAMPLE_RATE = 24000
+
+// 'direct' connects the browser to api.openai.com with an ephemeral token;
+// 'relay' goes through our server (server.js), which holds the API key
+export type OpenAITransport = 'direct' | 'relay'
+
+export const OPENAI_TRANSPORT: OpenAITransport =
+  process.env.NEXT_PUBLIC_STT_TRANSPORT === 'relay' ? 'relay' : 'direct'
+
+// Must match RELAY_PATH in scripts/stt-relay.js; NEXT_PUBLIC_STT_RELAY_URL overrides
+// it for a relay running elsewhere (e.g. `node scripts/stt-relay.js`)
+const RELAY_PATH = '/api/stt-relay'
+const RELAY_URL = process.env.NEXT_PUBLIC_STT_RELAY_URL || ''
+
+// One Realtime session: the active one, a standby being prepared to replace it,
+// or a retired one still delivering transcripts for audio it already received
+interface RealtimeSocket {
+  ws: WebSocket
+  // Where this session's audio starts on the sendAudioData timeline - server
+  // timestamps restart at 0 with every session
+  baseMs: number
+  isReady: boolean
+  readyAt: number
+  // Between speech_started and speech_stopped (server_vad only)
+  isSpeaking: boolean
+  // Audio appended since the last commit - manual commits and forced handovers need it
+  uncommittedMs: number
+  // Committed items still waiting for their transcript
+  pendingItems: { [itemId: string]: true }
+  sessionId: string | null
+  // now() when a session.update or commit went out, until the server acknowledges it
+  requestSentAt: number | null
 }
 
-export class OpenAIRealtimeSTT {
-  private ws: WebSocket | null = null
+export class OpenAIRealtimeSTT implements STTProvider {
+  readonly sampleRate = OPENAI_SAMPLE_RATE
+  readonly model = REALTIME_MODEL
   private callbacks: STTCallbacks
-  private isConnected = false
   private reconnectAttempts = 0
   private maxReconnectAttempts = 3
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null
+  private lastFailure = ''
+
+  private current: RealtimeSocket | null = null
+  private standby: RealtimeSocket | null = null
+  private retired: RealtimeSocket[] = []
+
+  // An ephemeral secret only has to be valid when a socket opens; it is reused
+  // until shortly before `expires_at`, then a fresh one is fetched
   private clientSecret: string | null = null
+  private clientSecretExpiresAt = 0
+  private readonly SECRET_EXPIRY_MARGIN_MS = 10000
 
-  constructor(callbacks: STTCallbacks) {
-    this.callbacks = callbacks
-  }
+  // Realtime sessions are capped at 30 minutes. A replacement is opened well
+  // before that and takes over at the next pause in speech; by the force
+  // deadline it takes over regardless, committing the turn in progress
+  private readonly ROTATE_AFTER_MS = 25 * 60 * 1000
+  private readonly FORCE_HANDOVER_AFTER_MS = 28 * 60 * 1000
+  private readonly ROTATION_RETRY_MS = 30000
+  // A retired session is closed once its last transcript arrives, or after this long
+  private readonly RETIRE_TIMEOUT_MS = 15000
+  private rotationTimer: ReturnType<typeof setTimeout> | null = null
+  private forceHandoverTimer: ReturnType<typeof setTimeout> | null = null
 
-  async connect(): Promise<void> {
-    try {
-      // Get session token from our API
-      const tokenResponse = await fetch('/api/openai-token', {
-        method: 'POST',
-      })
-
-      if (!tokenResponse.ok) {
-        const errorData = await tokenResponse.json().catch(() => ({}))
-        if (errorData.error?.includes('API key') || errorData.error?.includes('your_openai_api_key')) {
-          throw new Error('Please set your OPENAI_API_KEY in .env.local file. Get your API key from https://platform.openai.com/account/api-keys')
-        }
-        throw new Error(`Failed to get OpenAI token: ${errorData.error || 'Unknown error'}`)
-      }
+  // Accumulated transcription deltas per item, until its `completed` event arrives
+  private partials: { [itemId: string]: string } = {}
 
-      const data = await tokenResponse.json()
-      this.clientSecret = data.client_secret
+  // Total audio handed to sendAudioData, in ms - the timeline segment offsets use
+  private audioMsReceived = 0
 
-      if (!this.clientSecret) {
-        throw new Error('No client_secret received from server')
-      }
+  // True between connect() and disconnect() - an unexpected close while active triggers a reconnect
+  private isActive = false
+
+  // Reconnect backoff: 500ms, 1s, 2s, ... capped
+  private readonly RECONNECT_BASE_DELAY_MS = 500
+  private readonly RECONNECT_MAX_DELAY_MS = 8000
 
-      // Connect to OpenAI Realtime WebSocket
-      // Format: wss://api.openai.com/v1/realtime?model=MODEL&client_secret=SECRET
-      const wsUrl = `wss://api.openai.com/v1/realtime?model=gpt-4o-realtime-preview&client_secret=${encodeURIComponent(this.clientSecret)}`
-      this.ws = new WebSocket(wsUrl)
+  // Audio captured while the session is down, replayed once the next session is configured
+  private readonly BACKFILL_MAX_SECONDS = 10
+  private readonly BACKFILL_CHUNK_SAMPLES = this.sampleRate / 2
+  private backfill = new PCM16RingBuffer(this.sampleRate * this.BACKFILL_MAX_SECONDS)
 
-      this.ws.onopen = this.handleOpen.bind(this)
-      this.ws.onmessage = this.handleMessage.bind(this)
-      this.ws.onclose = this.handleClose.bind(this)
-      this.ws.onerror = this.handleError.bind(this)
+  private options: Required<STTOptions>
+  private stats = new StreamStats()
+  private transport: OpenAITransport
+
+  constructor(callbacks: STTCallbacks, options: STTOptions = {}, transport: OpenAITransport = OPENAI_TRANSPORT) {
+    this.callbacks = callbacks
+    this.options = { ...DEFAULT_STT_OPTIONS, ...options }
+    this.transport = transport
+  }
 
+  async connect(): Promise<void> {
+    this.isActive = true
+    this.reconnectAttempts = 0
+    this.backfill.clear()
+    this.stats.reset()
+    this.partials = {}
+    this.audioMsReceived = 0
+
+    try {
+      await this.openSession()
     } catch (error) {
       console.error('Failed to connect to OpenAI:', error)
+      this.isActive = false
       this.callbacks.onError(error instanceof Error ? error.message : 'Connection failed')
       throw error
     }
   }
 
   disconnect(): void {
-    if (this.ws) {
-      this.ws.close()
-      this.ws = null
+    this.isActive = false
+    this.clearReconnectTimer()
+    this.clearRotationTimers()
+    this.backfill.clear()
+
+    const sockets = this.retired.slice()
+    if (this.current) {
+      sockets.push(this.current)
     }
-    this.isConnected = false
+    if (this.standby) {
+      sockets.push(this.standby)
+    }
+    this.current = null
+    this.standby = null
+    this.retired = []
+    sockets.forEach(socket => socket.ws.close(1000))
+
     this.callbacks.onConnectionStateChange(false)
   }
 
-  // Send PCM16 audio data to OpenAI
-  sendAudioData(audioData: Float32Array): void {
-    if (!this.isConnected || !this.ws) {
-      // Drop frames if not connected (follows streaming policy)
+  // Forward an encoded chunk as an append
+  sendAudioData(chunk: PCM16Chunk): void {
+    if (!this.isActive) {
+      // Drop chunks if not connected (follows streaming policy)
       return
     }
 
+    this.audioMsReceived += (chunk.pcm16.length / this.sampleRate) * 1000
+
     try {
-      // Validate and encode audio data
-      if (!PCM16Encoder.validateAudioData(audioData)) {
-        return // Drop invalid frames
+      // Hold audio while the session is (re)connecting so nothing said during a blip is lost
+      if (!this.current || !this.current.isReady) {
+        this.backfill.push(chunk.pcm16)
+        return
       }
 
-      const pcm16Buffer = PCM16Encoder.encode(audioData)
-
-      // Send audio data over WebSocket as base64
-      this.ws.send(JSON.stringify({
-        type: 'input_audio_buffer.append',
-        audio: this.arrayBufferToBase64(pcm16Buffer),
-      }))
-
-      // Commit the audio buffer to trigger processing
-      this.ws.send(JSON.stringify({
-        type: 'input_audio_buffer.commit',
-      }))
+      this.appendAudio(this.current, chunk.pcm16)
+      this.stats.recordChunk(chunk.capturedAt)
 
     } catch (error) {
       console.error('Failed to send audio data:', error)
-      // Continue streaming - don't fail on individual frame errors
+      // Continue streaming - don't fail on individual chunk errors
     }
   }
 
-  private handleOpen(): void {
-    console.log('WebSocket connected to OpenAI Realtime STT')
-    this.isConnected = true
-    this.reconnectAttempts = 0
-    this.callbacks.onConnectionStateChange(true)
+  // End the current turn by hand - with server_vad the server commits on its own
+  commit(): void {
+    if (this.options.commitMode !== 'manual' || !this.current || !this.current.isReady) {
+      return
+    }
 
-    // Configure the session for transcription
-    setTimeout(() => {
-      if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-        this.ws.send(JSON.stringify({
-          type: 'session.update',
-          session: {
-            modalities: ['text'],
-            instructions: 'You are a real-time speech transcription service. Transcribe the audio input accurately.',
-            input_audio_format: 'pcm16',
-            input_audio_transcription: {
-              model: 'whisper-1',
-            },
-            turn_detection: {
-              type: 'server_vad',
-            },
-          },
-        }))
+    this.commitTurn(this.current)
+    // A turn boundary is the natural place to switch to a waiting replacement
+    this.maybeHandOver()
+  }
+
+  getStats(): STTStats {
+    return this.stats.snapshot()
+  }
+
+  // Open the primary socket - directly with a client secret, or through the relay
+  private async openSession(): Promise<void> {
+    const wsUrl = await this.socketUrl()
+
+    // The session may have been stopped while the token request was in flight
+    if (!this.isActive) {
+      return
+    }
+
+    this.current = this.createSocket(wsUrl)
+    this.options.connection?.transition('connecting')
+  }
+
+  private createSocket(wsUrl: string): RealtimeSocket {
+    const socket: RealtimeSocket = {
+      ws: new WebSocket(wsUrl),
+      baseMs: 0,
+      isReady: false,
+      readyAt: 0,
+      isSpeaking: false,
+      uncommittedMs: 0,
+      pendingItems: {},
+      sessionId: null,
+      requestSentAt: null,
+    }
+
+    socket.ws.onopen = () => this.handleOpen(socket)
+    const handlers = this.eventHandlers(socket)
+    socket.ws.onmessage = (event) => this.handleMessage(handlers, event)
+    socket.ws.onclose = (event) => this.handleClose(socket, event)
+    socket.ws.onerror = this.handleError.bind(this)
+    return socket
+  }
+
+  private async socketUrl(): Promise<string> {
+    return this.transport === 'relay' ? this.relayUrl() : this.directUrl()
+  }
+
+  // Format: wss://api.openai.com/v1/realtime?model=MODEL&client_secret=SECRET
+  private async directUrl(): Promise<string> {
+    if (!this.clientSecret || Date.now() > this.clientSecretExpiresAt - this.SECRET_EXPIRY_MARGIN_MS) {
+      // A replacement session is prepared in the background - the lifecycle stays 'streaming'
+      if (!this.current) {
+        this.options.connection?.transition('fetching-token')
       }
-    }, 100)
+      await this.fetchClientSecret()
+    }
+    return `wss://api.openai.com/v1/realtime?model=${this.model}&client_secret=${encodeURIComponent(this.clientSecret || '')}`
+  }
+
+  // The relay authenticates upstream itself; the session is configured by session.update alone
+  private relayUrl(): string {
+    const base = RELAY_URL ||
+      `${window.location.protocol === 'https:' ? 'wss:' : 'ws:'}//${window.location.host}${RELAY_PATH}`
+    return `${base}?model=${encodeURIComponent(this.model)}`
+  }
+
+  private async fetchClientSecret(): Promise<void> {
+    // Get session token from our API
+    // The route creates the session with the same settings session.update sends
+    const tokenResponse = await fetch('/api/openai-token', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ config: this.options.session, commitMode: this.options.commitMode }),
+    })
+
+    if (!tokenResponse.ok) {
+      const errorData: Partial<TokenErrorBody> = await tokenResponse.json().catch(() => ({}))
+      throw new Error(describeTokenError(errorData))
+    }
+
+    // `client_secret` is `{ value, expires_at }` (epoch seconds)
+    const data = await tokenResponse.json()
+    const secret = data.client_secret
+    const value = typeof secret === 'string' ? secret : secret?.value
+    if (!value) {
+      throw new Error('No client_secret received from server')
+    }
+
+    this.clientSecret = value
+    // Without an expiry, assume the documented one-minute lifetime
+    this.clientSecretExpiresAt = typeof secret?.expires_at === 'number'
+      ? secret.expires_at * 1000
+      : Date.now() + 60000
+  }
+
+  private send(socket: RealtimeSocket, message: RealtimeClientEvent): void {
+    if (socket.ws.readyState !== WebSocket.OPEN) {
+      return
+    }
+
+    const payload = serializeClientEvent(message)
+    socket.ws.send(payload)
+    this.stats.recordMessage(payload.length)
+  }
+
+  // Send audio data over WebSocket as base64 - commits are left to server VAD or commit()
+  private appendAudio(socket: RealtimeSocket, pcm16: Int16Array): void {
+    this.send(socket, {
+      type: 'input_audio_buffer.append',
+      audio: PCM16Encoder.toBase64(pcm16),
+    })
+    socket.uncommittedMs += (pcm16.length / this.sampleRate) * 1000
+  }
+
+  // The API rejects commits of less than 100ms of audio
+  private commitTurn(socket: RealtimeSocket): void {
+    if (socket.uncommittedMs >= 100) {
+      this.send(socket, { type: 'input_audio_buffer.commit' })
+      socket.uncommittedMs = 0
+      socket.requestSentAt = now()
+    }
+  }
+
+  // Make a configured session the one audio goes to
+  private activate(socket: RealtimeSocket): void {
+    this.current = socket
+    this.reconnectAttempts = 0
+    this.stats.recordSession(socket.sessionId)
+    // Buffered audio (if any) is replayed first, so the session starts where it begins
+    socket.baseMs = this.audioMsReceived - (this.backfill.size / this.sampleRate) * 1000
+    this.flushBackfill(socket)
+    this.scheduleRotation(socket)
+  }
+
+  // Replay audio captured during the outage, oldest first
+  private flushBackfill(socket: RealtimeSocket): void {
+    const dropped = this.backfill.droppedSamples
+    const samples = this.backfill.drain()
+    if (samples.length === 0) {
+      return
+    }
+
+    if (dropped > 0) {
+      console.warn(`Backfill overflowed, ${(dropped / this.sampleRate).toFixed(1)}s of audio lost`)
+    }
+    console.log(`Replaying ${(samples.length / this.sampleRate).toFixed(1)}s of buffered audio`)
+
+    for (let offset = 0; offset < samples.length; offset += this.BACKFILL_CHUNK_SAMPLES) {
+      const chunk = samples.subarray(offset, offset + this.BACKFILL_CHUNK_SAMPLES)
+      this.appendAudio(socket, chunk)
+    }
+  }
+
+  private scheduleRotation(socket: RealtimeSocket): void {
+    this.clearRotationTimers()
+    const age = Date.now() - socket.readyAt
+
+    this.rotationTimer = setTimeout(() => this.startRotation(), Math.max(0, this.ROTATE_AFTER_MS - age))
+    this.forceHandoverTimer = setTimeout(() => {
+      this.forceHandoverTimer = null
+      this.maybeHandOver(true)
+    }, Math.max(0, this.FORCE_HANDOVER_AFTER_MS - age))
   }
 
-  private handleMessage(event: MessageEvent): void {
+  // Open and configure the replacement session; audio keeps flowing to the current one meanwhile
+  private async startRotation(): Promise<void> {
+    this.rotationTimer = null
+    if (!this.isActive || !this.current || this.standby) {
+      return
+    }
+
+    console.log('Session nearing its time limit - opening a replacement')
     try {
-      const message = JSON.parse(event.data)
-
-      switch (message.type) {
-        case 'conversation.item.input_audio_transcription.completed':
-          if (message.transcript) {
-            this.callbacks.onFinalTranscript(message.transcript)
-          }
-          break
-
-        case 'response.text.delta':
-          if (message.delta) {
-            this.callbacks.onPartialTranscript(message.delta)
-          }
-          break
-
-        case 'error':
-          console.error('OpenAI error:', message.error)
-          const errorMsg = message.error?.message || message.error?.code || JSON.stringify(message.error) || 'OpenAI error'
-          this.callbacks.onError(errorMsg)
-          break
-
-        case 'session.created':
-        case 'session.updated':
-          console.log('Session ready:', message.type)
-          break
-
-        default:
-          if (message.type) {
-            console.log('OpenAI message:', message.type)
-          }
+      const wsUrl = await this.socketUrl()
+      if (!this.isActive || !this.current || this.standby) {
+        return
       }
+      this.standby = this.createSocket(wsUrl)
     } catch (error) {
-      console.error('Failed to parse OpenAI message:', error)
+      console.warn('Failed to open replacement session, retrying:', error)
+      this.rotationTimer = setTimeout(() => this.startRotation(), this.ROTATION_RETRY_MS)
     }
   }
 
-  private handleClose(event: CloseEvent): void {
-    console.log('WebSocket closed:', event.code, event.reason)
-    this.isConnected = false
-    this.callbacks.onConnectionStateChange(false)
+  // Switch to the standby once it's configured and the current session is between turns
+  // Each chunk goes to exactly one session, so nothing is lost or transcribed twice
+  private maybeHandOver(force: boolean = false): void {
+    const previous = this.current
+    const next = this.standby
+    if (!previous || !next || !next.isReady) {
+      if (force && this.isActive) {
+        // The replacement isn't ready yet - hand over as soon as it is
+        this.forceHandoverTimer = setTimeout(() => this.maybeHandOver(true), 1000)
+      }
+      return
+    }
+
+    const betweenTurns = this.options.commitMode === 'manual'
+      ? previous.uncommittedMs === 0
+      : !previous.isSpeaking
+    if (!betweenTurns && !force) {
+      return
+    }
 
-    if (event.code !== 1000) {
-      const closeReason = event.reason || `WebSocket closed with code ${event.code}`
-      this.callbacks.onError(`Connection closed: ${closeReason} (Code: ${event.code})`)
+    // Close the turn in progress so its audio is still transcribed by the old session
+    if (!betweenTurns) {
+      this.commitTurn(previous)
     }
+
+    this.standby = null
+    this.activate(next)
+    this.retire(previous)
+    console.log(`Handed over to a new session${betweenTurns ? '' : ' mid-turn'}`)
   }
 
-  private handleError(error: Event): void {
-    console.error('WebSocket error:', error)
-    this.callbacks.onError('WebSocket connection error')
+  // Stop sending to a session but keep it open for the transcripts it still owes
+  private retire(socket: RealtimeSocket): void {
+    this.retired.push(socket)
+    setTimeout(() => this.closeRetired(socket), this.RETIRE_TIMEOUT_MS)
+    // Let a just-sent commit register before checking whether anything is pending
+    setTimeout(() => this.closeRetiredIfDone(socket), 1500)
+  }
+
+  private closeRetiredIfDone(socket: RealtimeSocket): void {
+    if (!socket.isSpeaking && Object.keys(socket.pendingItems).length === 0) {
+      this.closeRetired(socket)
+    }
+  }
+
+  private closeRetired(socket: RealtimeSocket): void {
+    const index = this.retired.indexOf(socket)
+    if (index !== -1) {
+      this.retired.splice(index, 1)
+      socket.ws.close(1000)
+    }
+  }
+
+  private scheduleReconnect(): void {
+    if (this.reconnectAttempts >= this.maxReconnectAttempts) {
+      this.options.connection?.transition('error')
+      this.isActive = false
+      this.backfill.clear()
+      this.callbacks.onConnectionStateChange(false)
+      this.callbacks.onError(`Connection closed: ${this.lastFailure}. Gave up after ${this.maxReconnectAttempts} reconnect attempts.`)
+      return
+    }
+
+    const delay = Math.min(
+      this.RECONNECT_BASE_DELAY_MS * Math.pow(2, this.reconnectAttempts),
+      this.RECONNECT_MAX_DELAY_MS
+    )
+    this.reconnectAttempts++
+    this.options.connection?.transition('reconnecting')
+    console.log(`Reconnecting in ${delay}ms (attempt ${this.reconnectAttempts}/${this.maxReconnectAttempts})`)
+    this.callbacks.onReconnecting?.(this.reconnectAttempts, delay)
+
+    this.clearReconnectTimer()
+    this.reconnectTimer = setTimeout(async () => {
+      this.reconnectTimer = null
+      if (!this.isActive) {
+        return
+      }
+
+      try {
+        await this.openSession()
+      } catch (error) {
+        console.error('Reconnect failed:', error)
+        this.lastFailure = error instanceof Error ? error.message : 'Reconnect failed'
+        this.scheduleReconnect()
+      }
+    }, delay)
+  }
+
+  private clearReconnectTimer(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer)
+      this.reconnectTimer = null
+    }
+  }
+
+  private clearRotationTimers(): void {
+    if (this.rotationTimer) {
+      clearTimeout(this.rotationTimer)
+      this.rotationTimer = null
+    }
+    if (this.forceHandoverTimer) {
+      clearTimeout(this.forceHandoverTimer)
+      this.forceHandoverTimer = null
+    }
+  }
+
+  private handleOpen(socket: RealtimeSocket): void {
+    console.log('WebSocket connected to OpenAI Realtime STT')
+    if (socket === this.current) {
+      this.options.connection?.transition('configuring')
+    }
+
+    // Configure the session for transcription
+    setTimeout(() => this.sendSessionUpdate(socket), 100)
+  }
+
+  private sendSessionUpdate(socket: RealtimeSocket): void {
+    this.send(socket, {
+      type: 'session.update',
+      session: toRealtimeSession(this.options.session, this.options.commitMode),
+    })
+    socket.requestSentAt = now()
+  }
+
+  private handleMessage(handlers: ServerEventHandlers, event: MessageEvent): void {
+    this.stats.recordEvent()
+    const result = parseServerEvent(event.data)
+    if (!result.ok) {
+      this.callbacks.onDiagnostic?.(result.diagnostic)
+      return
+    }
+
+    dispatchServerEvent(result.event, handlers)
+  }
+
+  // Each socket gets its own handlers, so events from a standby or retired session
+  // update that session's state
+  private eventHandlers(socket: RealtimeSocket): ServerEventHandlers {
+    return {
+      'session.created': (message) => {
+        socket.sessionId = message.session.id ?? null
+        if (socket === this.current) {
+          this.stats.recordSession(socket.sessionId)
+        }
+      },
+
+      'session.updated': () => {
+        this.recordRoundTrip(socket)
+        if (socket.isReady) {
+          return
+        }
+
+        // Session is configured - only now is it safe to stream (and replay) audio
+        socket.isReady = true
+        socket.readyAt = Date.now()
+
+        if (socket === this.standby) {
+          this.maybeHandOver()
+        } else if (socket === this.current) {
+          this.partials = {}
+          this.activate(socket)
+          this.options.connection?.transition('streaming')
+          this.callbacks.onConnectionStateChange(true)
+        }
+      },
+
+      'input_audio_buffer.speech_started': (message) => {
+        socket.isSpeaking = true
+        this.callbacks.onSpeechStart?.(message.item_id, socket.baseMs + message.audio_start_ms)
+      },
+
+      'input_audio_buffer.speech_stopped': (message) => {
+        socket.isSpeaking = false
+        this.callbacks.onSpeechEnd?.(message.item_id, socket.baseMs + message.audio_end_ms)
+        if (socket === this.current) {
+          this.maybeHandOver()
+        }
+      },
+
+      'input_audio_buffer.committed': (message) => {
+        this.recordRoundTrip(socket)
+        socket.uncommittedMs = 0
+        socket.pendingItems[message.item_id] = true
+      },
+
+      'input_audio_buffer.cleared': () => {
+        socket.uncommittedMs = 0
+      },
+
+      'conversation.item.created': () => {},
+
+      'conversation.item.input_audio_transcription.delta': (message) => {
+        if (message.delta) {
+          const text = (this.partials[message.item_id] || '') + message.delta
+          this.partials[message.item_id] = text
+          this.callbacks.onPartialTranscript(text, message.item_id)
+        }
+      },
+
+      'conversation.item.input_audio_transcription.completed': (message) => {
+        delete this.partials[message.item_id]
+        delete socket.pendingItems[message.item_id]
+        if (message.transcript) {
+          this.callbacks.onFinalTranscript(message.transcript, message.item_id)
+        }
+        this.closeRetiredIfDone(socket)
+      },
+
+      'conversation.item.input_audio_transcription.failed': (message) => {
+        console.warn('Transcription failed:', message.item_id, message.error)
+        delete socket.pendingItems[message.item_id]
+        this.closeRetiredIfDone(socket)
+      },
+
+      'rate_limits.updated': () => {},
+
+      'error': (message) => {
+        console.error('OpenAI error:', message.error)
+        this.callbacks.onError(message.error.message || message.error.code || JSON.stringify(message.error))
+      },
+    }
+  }
+
+  private recordRoundTrip(socket: RealtimeSocket): void {
+    if (socket.requestSentAt !== null) {
+      this.stats.recordRoundTrip(socket.requestSentAt)
+      socket.requestSentAt = null
+    }
   }
 
-  private arrayBufferToBase64(buffer: ArrayBuffer): string {
-    let binary = ''
-    const bytes = new Uint8Array(buffer)
-    for (let i = 0; i < bytes.byteLength; i++) {
-      binary += String.fromCharCode(bytes[i])
+  private handleClose(socket: RealtimeSocket, event: CloseEvent): void {
+    console.log('WebSocket closed:', event.code, event.reason)
+
+    const retiredIndex = this.retired.indexOf(socket)
+    if (retiredIndex !== -1) {
+      this.retired.splice(retiredIndex, 1)
+      return
+    }
+
+    if (socket === this.standby) {
+      // Rotation failed - the current session is unaffected, so just try again later
+      this.standby = null
+      if (this.isActive && !this.rotationTimer) {
+        this.rotationTimer = setTimeout(() => this.startRotation(), this.ROTATION_RETRY_MS)
+      }
+      return
+    }
+
+    // Ignore sockets we have already replaced or closed on purpose
+    if (socket !== this.current) {
+      return
+    }
+
+    this.current = null
+    this.clearRotationTimers()
+    this.stats.recordClose(event.code)
+
+    // A configured replacement can take over straight away
+    const standby = this.standby as RealtimeSocket | null
+    if (standby && standby.isReady) {
+      this.standby = null
+      this.activate(standby)
+      return
+    }
+    if (standby) {
+      this.standby = null
+      standby.ws.close(1000)
     }
-    return btoa(binary)
+
+    this.lastFailure = `${event.reason || 'WebSocket closed'} (Code: ${event.code})`
+    this.scheduleReconnect()
+  }
+
+  private handleError(error: Event): void {
+    // The close event that follows decides whether to reconnect or give up
+    console.error('WebSocket error:', error)
   }
 }
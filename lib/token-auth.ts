@@ -0,0 +1,120 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+import type { NextRequest } from 'next/server'
+
+// Pluggable authentication for /api/openai-token (server-only - uses node:crypto)
+// Selected with TOKEN_AUTH_MODE; anything else can be plugged in by implementing TokenAuthenticator
+
+export interface AuthResult {
+  ok: boolean
+  // Known for cookie sessions; used for per-user rate limits
+  userId: string | null
+}
+
+export interface TokenAuthenticator {
+  authenticate(request: NextRequest): AuthResult | Promise<AuthResult>
+}
+
+export type TokenAuthMode = 'none' | 'shared-secret' | 'signed-cookie'
+
+export const SHARED_SECRET_HEADER = 'x-app-secret'
+export const SESSION_COOKIE_NAME = 'live_audio_session'
+
+// No authentication - rate limits and the origin check still apply
+export const anonymousAuth: TokenAuthenticator = {
+  authenticate: () => ({ ok: true, userId: null }),
+}
+
+const denyAll: TokenAuthenticator = {
+  authenticate: () => ({ ok: false, userId: null }),
+}
+
+// A fixed secret in a request header - for deployments behind a proxy or SSO
+// gateway that injects it; never ship the secret to the browser
+export class SharedSecretAuth implements TokenAuthenticator {
+  private secret: string
+  private headerName: string
+
+  constructor(secret: string, headerName: string = SHARED_SECRET_HEADER) {
+    this.secret = secret
+    this.headerName = headerName
+  }
+
+  authenticate(request: NextRequest): AuthResult {
+    const provided = request.headers.get(this.headerName)
+    return { ok: provided !== null && safeEqual(provided, this.secret), userId: null }
+  }
+}
+
+// An HMAC-signed session cookie issued by the app's login flow (see signSessionCookie)
+// or by scripts/issue-session-cookie.js
+export class SignedCookieAuth implements TokenAuthenticator {
+  private secret: string
+  private cookieName: string
+
+  constructor(secret: string, cookieName: string = SESSION_COOKIE_NAME) {
+    this.secret = secret
+    this.cookieName = cookieName
+  }
+
+  authenticate(request: NextRequest): AuthResult {
+    const userId = verifySessionCookie(request.cookies.get(this.cookieName)?.value, this.secret)
+    return { ok: userId !== null, userId }
+  }
+}
+
+// Cookie value: <base64url user ID>.<expiry, epoch seconds>.<base64url HMAC-SHA256 of the first two>
+export function signSessionCookie(userId: string, secret: string, ttlSeconds: number, now: number = Date.now()): string {
+  const payload = `${Buffer.from(userId).toString('base64url')}.${Math.floor(now / 1000) + ttlSeconds}`
+  return `${payload}.${sign(payload, secret)}`
+}
+
+// The user ID, or null if the cookie is missing, malformed, tampered with or expired
+export function verifySessionCookie(value: string | undefined, secret: string, now: number = Date.now()): string | null {
+  const parts = (value || '').split('.')
+  if (parts.length !== 3) {
+    return null
+  }
+
+  const [encodedUser, expires, signature] = parts
+  if (!safeEqual(signature, sign(`${encodedUser}.${expires}`, secret))) {
+    return null
+  }
+  if (!(Number(expires) * 1000 > now)) {
+    return null
+  }
+  return Buffer.from(encodedUser, 'base64url').toString()
+}
+
+// TOKEN_AUTH_MODE + TOKEN_AUTH_SECRET; a mode without a secret fails closed
+export function authenticatorFromEnv(env: NodeJS.ProcessEnv = process.env): TokenAuthenticator {
+  const mode = (env.TOKEN_AUTH_MODE || 'none') as TokenAuthMode
+  const secret = env.TOKEN_AUTH_SECRET || ''
+
+  if (mode === 'none') {
+    return anonymousAuth
+  }
+  if (!secret) {
+    console.error(`TOKEN_AUTH_MODE=${mode} needs TOKEN_AUTH_SECRET - refusing all token requests`)
+    return denyAll
+  }
+
+  switch (mode) {
+    case 'shared-secret':
+      return new SharedSecretAuth(secret)
+    case 'signed-cookie':
+      return new SignedCookieAuth(secret)
+    default:
+      console.error(`Unknown TOKEN_AUTH_MODE "${mode}" - refusing all token requests`)
+      return denyAll
+  }
+}
+
+function sign(payload: string, secret: string): string {
+  return createHmac('sha256', secret).update(payload).digest('base64url')
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a)
+  const bufferB = Buffer.from(b)
+  return bufferA.length === bufferB.length && timingSafeEqual(bufferA, bufferB)
+}
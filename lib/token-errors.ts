@@ -0,0 +1,57 @@
+// Error codes returned by /api/openai-token as `{ code, error, retryAfterSeconds? }`
+// Shared so the client maps codes to messages instead of parsing error text
+
+export type TokenErrorCode =
+  | 'not_configured' // OPENAI_API_KEY missing on the server
+  | 'unauthorized' // request failed the configured authentication
+  | 'forbidden_origin' // Origin header missing or not allowed
+  | 'rate_limited' // per-IP or per-user limit hit - see retryAfterSeconds
+  | 'no_client_ip' // no client address to rate-limit on (see clientIp)
+  | 'invalid_config' // session config failed validation
+  | 'upstream_auth' // OpenAI rejected the server's API key
+  | 'upstream_error' // any other OpenAI failure
+  | 'internal_error'
+
+export interface TokenErrorBody {
+  code: TokenErrorCode
+  // Server-side detail, e.g. which config fields were invalid
+  error: string
+  retryAfterSeconds?: number
+}
+
+export const TOKEN_ERROR_STATUS: { [code in TokenErrorCode]: number } = {
+  not_configured: 500,
+  unauthorized: 401,
+  forbidden_origin: 403,
+  rate_limited: 429,
+  no_client_ip: 500,
+  invalid_config: 400,
+  upstream_auth: 502,
+  upstream_error: 502,
+  internal_error: 500,
+}
+
+// User-facing message for a failed token request
+export function describeTokenError(body: Partial<TokenErrorBody>): string {
+  switch (body.code) {
+    case 'not_configured':
+    case 'upstream_auth':
+      return 'The server has no valid OpenAI API key. Set OPENAI_API_KEY in .env.local - get one from https://platform.openai.com/account/api-keys'
+    case 'unauthorized':
+      return 'You are not signed in, or your session has expired. Sign in again and retry.'
+    case 'forbidden_origin':
+      return 'This page is not allowed to request transcription sessions from the server.'
+    case 'rate_limited':
+      return body.retryAfterSeconds
+        ? `Too many sessions started - try again in ${body.retryAfterSeconds}s.`
+        : 'Too many sessions started - try again shortly.'
+    case 'no_client_ip':
+      return 'The server cannot tell clients apart for rate limiting. Behind a proxy that sets X-Forwarded-For, set TRUST_PROXY=true.'
+    case 'invalid_config':
+      return `The server rejected the session settings: ${body.error || 'invalid config'}`
+    case 'upstream_error':
+      return 'OpenAI could not create a session - try again shortly.'
+    default:
+      return `Failed to get OpenAI token: ${body.error || 'Unknown error'}`
+  }
+}
@@ -0,0 +1,66 @@
+// Plain-text search over transcript segments, shared by highlighting and find-and-replace
+// Queries are literal text, not regular expressions
+
+export interface SearchOptions {
+  caseSensitive?: boolean
+  // Only match the query as a whole word
+  wholeWord?: boolean
+}
+
+export interface TextRange {
+  start: number
+  end: number
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+// A global pattern for the query, or null for an empty query
+export function searchPattern(query: string, options: SearchOptions = {}): RegExp | null {
+  if (!query) {
+    return null
+  }
+
+  const escaped = escapeRegExp(query)
+  const source = options.wholeWord ? `\\b${escaped}\\b` : escaped
+  return new RegExp(source, options.caseSensitive ? 'g' : 'gi')
+}
+
+// Non-overlapping matches in order
+export function findRanges(text: string, pattern: RegExp | null): TextRange[] {
+  if (!pattern) {
+    return []
+  }
+
+  const ranges: TextRange[] = []
+  pattern.lastIndex = 0
+  let match = pattern.exec(text)
+  while (match) {
+    if (match[0].length === 0) {
+      // Can't happen for a non-empty literal, but never loop forever
+      pattern.lastIndex++
+    } else {
+      ranges.push({ start: match.index, end: match.index + match[0].length })
+    }
+    match = pattern.exec(text)
+  }
+  return ranges
+}
+
+// Split text into alternating plain / matched parts for rendering
+export function splitByMatches(text: string, pattern: RegExp | null): { text: string; isMatch: boolean }[] {
+  const parts: { text: string; isMatch: boolean }[] = []
+  let position = 0
+  findRanges(text, pattern).forEach(range => {
+    if (range.start > position) {
+      parts.push({ text: text.slice(position, range.start), isMatch: false })
+    }
+    parts.push({ text: text.slice(range.start, range.end), isMatch: true })
+    position = range.end
+  })
+  if (position < text.length || parts.length === 0) {
+    parts.push({ text: text.slice(position), isMatch: false })
+  }
+  return parts
+}
@@ -0,0 +1,246 @@
+// Structured transcript: one segment per provider item, with audio offsets and timing
+// Audio offsets are measured on the timeline of audio actually sent (advanceAudio),
+// which is also the timeline the provider's own timestamps refer to
+
+// 'marker' segments carry no text - they record a pause in the recording
+export type SegmentStatus = 'partial' | 'final' | 'marker'
+
+export interface TranscriptSegment {
+  // Provider item ID (OpenAI `item_id`), or a generated one
+  id: string
+  text: string
+  // The provider's text, kept once the user has edited `text`
+  originalText?: string
+  // Who said it - set in multi-source capture, from the source's speaker name
+  speaker?: string
+  status: SegmentStatus
+  // Offsets into the sent audio, in ms
+  startMs: number
+  endMs: number | null
+  // Wall-clock time (epoch ms) the segment was first seen / finalized
+  // (for a pause marker: when the pause started / ended)
+  createdAt: number
+  finalizedAt: number | null
+}
+
+// Optional timing the provider knows better than we do
+export interface SegmentTiming {
+  audioStartMs?: number
+  audioEndMs?: number
+}
+
+type Listener = () => void
+
+export class TranscriptStore {
+  private segments: TranscriptSegment[] = []
+  private listeners: Listener[] = []
+  private audioMs = 0
+
+  // Arrow properties so they can be handed straight to useSyncExternalStore
+  subscribe = (listener: Listener): (() => void) => {
+    this.listeners.push(listener)
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener)
+    }
+  }
+
+  getSnapshot = (): readonly TranscriptSegment[] => {
+    return this.segments
+  }
+
+  // Called for every chunk sent, so segments can be placed on the audio timeline
+  advanceAudio(ms: number): void {
+    this.audioMs += ms
+  }
+
+  get audioPositionMs(): number {
+    return this.audioMs
+  }
+
+  // Replace an item's in-progress text
+  setPartial(id: string, text: string, timing: SegmentTiming = {}): void {
+    const segment = this.ensure(id, timing)
+    if (segment.status === 'final') {
+      return // a late partial must not overwrite the final text
+    }
+    this.update(id, { text, ...this.timingPatch(segment, timing) })
+  }
+
+  // Record the completed text for an item - wherever it sits in the transcript
+  finalize(id: string, text: string, timing: SegmentTiming = {}): void {
+    const segment = this.ensure(id, timing)
+    // A user edit wins over a late final - the final only replaces the original
+    const edited = segment.originalText !== undefined
+    this.update(id, {
+      text: edited ? segment.text : text,
+      originalText: edited ? text : undefined,
+      status: 'final',
+      startMs: timing.audioStartMs ?? segment.startMs,
+      endMs: timing.audioEndMs ?? segment.endMs ?? this.audioMs,
+      finalizedAt: Date.now(),
+    })
+  }
+
+  // Provider-reported end of speech for an item that may not have text yet
+  setTiming(id: string, timing: SegmentTiming): void {
+    const segment = this.ensure(id, timing)
+    this.update(id, this.timingPatch(segment, timing))
+  }
+
+  // Label an item with its source's speaker (creates the item if it's new)
+  setSpeaker(id: string, speaker: string): void {
+    const segment = this.ensure(id, {})
+    if (segment.speaker !== speaker) {
+      this.update(id, { speaker })
+    }
+  }
+
+  // User correction of a final segment; editing back to the original clears it
+  edit(id: string, text: string): void {
+    const segment = this.find(id)
+    if (!segment || segment.status !== 'final' || text === segment.text) {
+      return
+    }
+
+    const original = segment.originalText ?? segment.text
+    this.update(id, { text, originalText: text === original ? undefined : original })
+  }
+
+  revert(id: string): void {
+    const segment = this.find(id)
+    if (segment && segment.originalText !== undefined) {
+      this.update(id, { text: segment.originalText, originalText: undefined })
+    }
+  }
+
+  // Replace every match of `pattern` (global) in final segments; returns the number replaced
+  replaceAll(pattern: RegExp, replacement: string): number {
+    let count = 0
+    this.segments.forEach(segment => {
+      if (segment.status !== 'final') {
+        return
+      }
+
+      // A function replacement keeps `$&` and friends literal
+      const text = segment.text.replace(pattern, () => {
+        count++
+        return replacement
+      })
+      this.edit(segment.id, text)
+    })
+    return count
+  }
+
+  // Mark a pause at the current audio position; no audio is sent while paused,
+  // so the marker takes no time on the timeline
+  addMarker(id: string): void {
+    const segment: TranscriptSegment = {
+      id,
+      text: '',
+      status: 'marker',
+      startMs: this.audioMs,
+      endMs: this.audioMs,
+      createdAt: Date.now(),
+      finalizedAt: null,
+    }
+    this.commit(this.sorted(this.segments.concat(segment)))
+  }
+
+  endMarker(id: string): void {
+    const segment = this.find(id)
+    if (segment && segment.status === 'marker') {
+      this.update(id, { finalizedAt: Date.now() })
+    }
+  }
+
+  // Discard unfinished segments (e.g. on stop, when no final will follow)
+  dropPartials(): void {
+    const next = this.segments.filter(s => s.status !== 'partial')
+    if (next.length !== this.segments.length) {
+      this.commit(next)
+    }
+  }
+
+  // True while any item is still waiting for its final text
+  get hasPartials(): boolean {
+    return this.segments.some(s => s.status === 'partial')
+  }
+
+  clear(): void {
+    this.audioMs = 0
+    this.commit([])
+  }
+
+  // Replace the contents with saved segments (e.g. reopening a past session)
+  load(segments: readonly TranscriptSegment[]): void {
+    this.audioMs = segments.reduce((max, s) => Math.max(max, s.endMs ?? s.startMs), 0)
+    this.commit(this.sorted(segments.slice()))
+  }
+
+  private ensure(id: string, timing: SegmentTiming): TranscriptSegment {
+    const existing = this.find(id)
+    if (existing) {
+      return existing
+    }
+
+    // Without provider timing, a new item starts where the last one ended
+    const last = this.segments[this.segments.length - 1]
+    const fallbackStart = last ? (last.endMs ?? last.startMs) : 0
+
+    const segment: TranscriptSegment = {
+      id,
+      text: '',
+      status: 'partial',
+      startMs: timing.audioStartMs ?? Math.min(fallbackStart, this.audioMs),
+      endMs: timing.audioEndMs ?? null,
+      createdAt: Date.now(),
+      finalizedAt: null,
+    }
+    this.commit(this.sorted(this.segments.concat(segment)))
+    return segment
+  }
+
+  private timingPatch(segment: TranscriptSegment, timing: SegmentTiming): Partial<TranscriptSegment> {
+    return {
+      startMs: timing.audioStartMs ?? segment.startMs,
+      endMs: timing.audioEndMs ?? segment.endMs,
+    }
+  }
+
+  private update(id: string, patch: Partial<TranscriptSegment>): void {
+    const next = this.segments.map(s => (s.id === id ? { ...s, ...patch } : s))
+    this.commit(patch.startMs !== undefined ? this.sorted(next) : next)
+  }
+
+  // Audio order; Array.prototype.sort is stable, so ties keep arrival order
+  private sorted(segments: TranscriptSegment[]): TranscriptSegment[] {
+    return segments.slice().sort((a, b) => a.startMs - b.startMs)
+  }
+
+  private find(id: string): TranscriptSegment | undefined {
+    for (let i = 0; i < this.segments.length; i++) {
+      if (this.segments[i].id === id) {
+        return this.segments[i]
+      }
+    }
+    return undefined
+  }
+
+  private commit(segments: TranscriptSegment[]): void {
+    this.segments = segments
+    this.listeners.forEach(listener => listener())
+  }
+}
+
+// m:ss (or h:mm:ss) label for an audio offset
+export function formatOffset(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000))
+  const hours = Math.floor(totalSeconds / 3600)
+  const minutes = Math.floor((totalSeconds % 3600) / 60)
+  const seconds = totalSeconds % 60
+  const pad = (n: number) => (n < 10 ? `0${n}` : `${n}`)
+
+  return hours > 0
+    ? `${hours}:${pad(minutes)}:${pad(seconds)}`
+    : `${minutes}:${pad(seconds)}`
+}
@@ -0,0 +1,168 @@
+import type { PCM16Chunk } from './encoder'
+
+// Local energy / zero-crossing voice activity detection
+// Gates which chunks are uploaded: silence is dropped, with pre-roll so word
+// onsets aren't clipped and hangover so trailing syllables (and the server's
+// own end-of-turn detection) still get some silence
+
+export interface VADOptions {
+  // Minimum RMS (0-1) for a chunk to count as speech; the adaptive noise floor can raise it
+  minEnergy?: number
+  // Speech must be this many times louder than the running noise floor
+  noiseFloorRatio?: number
+  // Chunks whose zero-crossing rate exceeds this are treated as hiss unless clearly loud
+  maxZeroCrossingRate?: number
+  // Keep sending this long after the last speech chunk. Should exceed the server
+  // VAD's silence duration (500ms by default) when server_vad decides commits
+  hangoverMs?: number
+  // Audio kept from before speech onset and sent with the first speech chunk
+  preRollMs?: number
+}
+
+export interface VADCallbacks {
+  onSpeechStart?: () => void
+  onSpeechEnd?: () => void
+}
+
+export interface VADStats {
+  totalMs: number
+  sentMs: number
+  savedMs: number
+}
+
+export const DEFAULT_VAD_OPTIONS: Required<VADOptions> = {
+  minEnergy: 0.01,
+  noiseFloorRatio: 3,
+  maxZeroCrossingRate: 0.35,
+  hangoverMs: 700,
+  preRollMs: 240,
+}
+
+export class VoiceActivityGate {
+  private options: Required<VADOptions>
+  private callbacks: VADCallbacks
+  private sampleRate: number
+
+  private isSpeaking = false
+  private hangoverLeftMs = 0
+  private noiseFloor = 0
+  private preRoll: PCM16Chunk[] = []
+  private preRollMs = 0
+
+  private totalMs = 0
+  private sentMs = 0
+
+  constructor(sampleRate: number, callbacks: VADCallbacks = {}, options: VADOptions = {}) {
+    this.sampleRate = sampleRate
+    this.callbacks = callbacks
+    this.options = { ...DEFAULT_VAD_OPTIONS, ...options }
+  }
+
+  get speaking(): boolean {
+    return this.isSpeaking
+  }
+
+  // Returns the chunks to upload now - empty during silence, pre-roll + chunk at onset
+  process(chunk: PCM16Chunk): PCM16Chunk[] {
+    const durationMs = (chunk.pcm16.length / this.sampleRate) * 1000
+    this.totalMs += durationMs
+
+    const isSpeech = this.classify(chunk.pcm16)
+
+    if (this.isSpeaking) {
+      if (isSpeech) {
+        this.hangoverLeftMs = this.options.hangoverMs
+      } else {
+        this.hangoverLeftMs -= durationMs
+      }
+
+      if (this.hangoverLeftMs <= 0) {
+        this.isSpeaking = false
+        this.callbacks.onSpeechEnd?.()
+        this.bufferPreRoll(chunk, durationMs)
+        return []
+      }
+
+      this.sentMs += durationMs
+      return [chunk]
+    }
+
+    if (!isSpeech) {
+      this.bufferPreRoll(chunk, durationMs)
+      return []
+    }
+
+    this.isSpeaking = true
+    this.hangoverLeftMs = this.options.hangoverMs
+    this.callbacks.onSpeechStart?.()
+
+    const out = this.preRoll.concat(chunk)
+    this.sentMs += this.preRollMs + durationMs
+    this.preRoll = []
+    this.preRollMs = 0
+    return out
+  }
+
+  getStats(): VADStats {
+    return {
+      totalMs: this.totalMs,
+      sentMs: this.sentMs,
+      savedMs: Math.max(0, this.totalMs - this.sentMs),
+    }
+  }
+
+  reset(): void {
+    this.isSpeaking = false
+    this.hangoverLeftMs = 0
+    this.noiseFloor = 0
+    this.preRoll = []
+    this.preRollMs = 0
+    this.totalMs = 0
+    this.sentMs = 0
+  }
+
+  private classify(pcm16: Int16Array): boolean {
+    if (pcm16.length === 0) {
+      return false
+    }
+
+    let sumSquares = 0
+    let crossings = 0
+    for (let i = 0; i < pcm16.length; i++) {
+      const sample = pcm16[i] / 0x8000
+      sumSquares += sample * sample
+      if (i > 0 && (pcm16[i] >= 0) !== (pcm16[i - 1] >= 0)) {
+        crossings++
+      }
+    }
+
+    const rms = Math.sqrt(sumSquares / pcm16.length)
+    const zcr = crossings / pcm16.length
+    const threshold = Math.max(this.options.minEnergy, this.noiseFloor * this.options.noiseFloorRatio)
+
+    // Loud enough and not hiss-like - or so loud that hiss doesn't matter (fricatives, plosives)
+    const isSpeech = rms >= threshold &&
+      (zcr <= this.options.maxZeroCrossingRate || rms >= threshold * 3)
+
+    // Track the background level slowly, only from non-speech chunks
+    if (!isSpeech) {
+      this.noiseFloor = this.noiseFloor === 0 ? rms : this.noiseFloor * 0.95 + rms * 0.05
+    }
+
+    return isSpeech
+  }
+
+  private bufferPreRoll(chunk: PCM16Chunk, durationMs: number): void {
+    this.preRoll.push(chunk)
+    this.preRollMs += durationMs
+
+    while (this.preRoll.length > 1 && this.preRollMs - this.chunkMs(this.preRoll[0]) >= this.options.preRollMs) {
+      this.preRollMs -= this.chunkMs(this.preRoll[0])
+      this.preRoll.shift()
+    }
+  }
+
+  private chunkMs(chunk: PCM16Chunk): number {
+    return (chunk.pcm16.length / this.sampleRate) * 1000
+  }
+}
@@ -1,10 +1,122 @@
 // AudioWorkletProcessor for real-time audio streaming
-// Runs in audio thread, no buffering, continuous streaming only
+// Runs in audio thread: resamples to the provider rate if the device didn't honor it,
+// converts Float32 frames to PCM16 and posts fixed-size chunks to the main thread
+// as transferable buffers (no copies, no encoding on the UI thread)
+
+const DEFAULT_CHUNK_SAMPLES = 640 // 40ms at 16 kHz
+const CLIP_THRESHOLD = 0.99 // |sample| at or above this counts as clipped
+
+// Anti-aliasing sinc resampler - mirror of Resampler in lib/encoder.ts, keep the two in sync
+// (lib/encoder.test.ts runs this file and fails if the outputs differ)
+const RESAMPLER_ZERO_CROSSINGS = 8
+const RESAMPLER_ROLLOFF = 0.9
+const RESAMPLER_TABLE_RESOLUTION = 256
+
+class Resampler {
+  constructor(inputRate, outputRate) {
+    this.step = inputRate / outputRate
+
+    const cutoff = 0.5 * Math.min(1, outputRate / inputRate) * RESAMPLER_ROLLOFF
+    this.halfWidth = RESAMPLER_ZERO_CROSSINGS / (2 * cutoff)
+
+    const size = Math.ceil(this.halfWidth * RESAMPLER_TABLE_RESOLUTION) + 2
+    this.kernel = new Float32Array(size)
+    for (let i = 0; i < size; i++) {
+      const d = i / RESAMPLER_TABLE_RESOLUTION
+      if (d >= this.halfWidth) {
+        break
+      }
+      const x = 2 * cutoff * d
+      const sinc = x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x)
+      const w = d / this.halfWidth
+      const window = 0.42 + 0.5 * Math.cos(Math.PI * w) + 0.08 * Math.cos(2 * Math.PI * w)
+      this.kernel[i] = 2 * cutoff * sinc * window
+    }
+
+    // Reused across calls (process() runs every 128 frames on the audio thread), grown
+    // only when a larger block arrives
+    this.history = new Float32Array(0)
+    this.historyLength = 0
+    this.output = new Float32Array(0)
+    this.position = 0
+  }
+
+  // Resamples the next block into this.output; returns how many samples were written
+  process(input) {
+    const length = this.historyLength + input.length
+    if (length > this.history.length) {
+      const grown = new Float32Array(length)
+      grown.set(this.history.subarray(0, this.historyLength))
+      this.history = grown
+      this.output = new Float32Array(Math.ceil(length / this.step) + 1)
+    }
+    const history = this.history
+    history.set(input, this.historyLength)
+
+    let count = 0
+    const last = length - 1
+    while (this.position + this.halfWidth <= last) {
+      const start = Math.max(0, Math.ceil(this.position - this.halfWidth))
+      const end = Math.floor(this.position + this.halfWidth)
+
+      let sum = 0
+      for (let k = start; k <= end; k++) {
+        const index = Math.abs(this.position - k) * RESAMPLER_TABLE_RESOLUTION
+        const i0 = Math.floor(index)
+        const weight = this.kernel[i0] + (this.kernel[i0 + 1] - this.kernel[i0]) * (index - i0)
+        sum += history[k] * weight
+      }
+
+      this.output[count++] = sum
+      this.position += this.step
+    }
+
+    const keepFrom = Math.max(0, Math.floor(this.position - this.halfWidth))
+    history.copyWithin(0, keepFrom, length)
+    this.historyLength = length - keepFrom
+    this.position -= keepFrom
+
+    return count
+  }
+}
 
 class AudioProcessor extends AudioWorkletProcessor {
-  constructor() {
+  constructor(options) {
     super()
     this.isActive = true
+
+    const processorOptions = (options && options.processorOptions) || {}
+    this.chunkSamples = Math.max(128, Math.round(processorOptions.chunkSamples || DEFAULT_CHUNK_SAMPLES))
+    this.chunk = new Int16Array(this.chunkSamples)
+    this.fill = 0
+    this.chunkStartTime = 0
+
+    // Which channel of a multi-channel input to read (e.g. one mic of a stereo interview rig)
+    this.channel = Math.max(0, Math.floor(processorOptions.channel || 0))
+
+    // Per-chunk level metering
+    this.sumSquares = 0
+    this.peak = 0
+    this.clipped = 0
+
+    // `sampleRate` is the AudioContext's actual rate, which the device may have forced
+    this.targetSampleRate = processorOptions.targetSampleRate || sampleRate
+    this.resampler = this.targetSampleRate !== sampleRate
+      ? new Resampler(sampleRate, this.targetSampleRate)
+      : null
+
+    this.port.onmessage = (event) => {
+      if (event.data.type === 'stop') {
+        this.isActive = false
+      } else if (event.data.type === 'flush') {
+        // Post the chunk being filled so a manual commit includes the end of the turn;
+        // 'flushed' follows it on the same port, so it arrives after the chunk
+        if (this.fill > 0) {
+          this.postChunk()
+        }
+        this.port.postMessage({ type: 'flushed' })
+      }
+    }
   }
 
   process(inputs, outputs, parameters) {
@@ -12,29 +124,71 @@ class AudioProcessor extends AudioWorkletProcessor {
       return false
     }
 
-    // Get the first input (microphone) and first channel (mono)
+    // Get the first input (microphone) and the selected channel, falling back to the
+    // first if the device delivers fewer channels than asked for
     const input = inputs[0]
     if (!input || input.length === 0) {
       return true
     }
 
-    const channelData = input[0] // Mono channel
+    const channelData = input[this.channel] || input[0]
     if (!channelData || channelData.length === 0) {
       return true
     }
 
-    // Create a copy of the audio data (Float32Array)
-    const audioData = new Float32Array(channelData)
+    const count = this.resampler ? this.resampler.process(channelData) : channelData.length
+    const samples = this.resampler ? this.resampler.output : channelData
 
-    // Send audio data to main thread immediately (no buffering)
-    this.port.postMessage({
-      type: 'audioData',
-      audioData: audioData,
-    })
+    for (let i = 0; i < count; i++) {
+      if (this.fill === 0) {
+        // Audio-clock time of this chunk's first sample, for latency accounting
+        this.chunkStartTime = currentTime + i / this.targetSampleRate
+      }
+
+      const sample = samples[i]
+      const magnitude = Math.abs(sample)
+      this.sumSquares += sample * sample
+      if (magnitude > this.peak) {
+        this.peak = magnitude
+      }
+      if (magnitude >= CLIP_THRESHOLD) {
+        this.clipped++
+      }
+
+      // Clamp to [-1.0, 1.0] and scale to 16-bit signed integers (same as PCM16Encoder.encode)
+      const clamped = Math.max(-1.0, Math.min(1.0, sample))
+      this.chunk[this.fill++] = clamped < 0 ? clamped * 0x8000 : clamped * 0x7FFF
+
+      if (this.fill === this.chunkSamples) {
+        this.postChunk()
+      }
+    }
 
     // Continue processing
     return true
   }
+
+  // Posts the first `fill` samples - a full chunk, or a partial one on flush
+  postChunk() {
+    const pcm16 = this.fill === this.chunkSamples ? this.chunk : this.chunk.slice(0, this.fill)
+    this.port.postMessage({
+      type: 'audioChunk',
+      pcm16: pcm16,
+      startTime: this.chunkStartTime,
+      level: {
+        rms: Math.sqrt(this.sumSquares / this.fill),
+        peak: this.peak,
+        clippedSamples: this.clipped,
+      },
+    }, [pcm16.buffer])
+
+    // The old buffer now belongs to the main thread
+    this.chunk = new Int16Array(this.chunkSamples)
+    this.fill = 0
+    this.sumSquares = 0
+    this.peak = 0
+    this.clipped = 0
+  }
 }
 
 // Register the processor
@@ -0,0 +1,43 @@
+// Issue a session cookie for TOKEN_AUTH_MODE=signed-cookie
+// Usage: TOKEN_AUTH_SECRET=... node scripts/issue-session-cookie.js <user-id> [--ttl-hours 12]
+//
+// Prints the `live_audio_session` cookie value for one user, for deployments without
+// a login flow of their own (an app with one calls signSessionCookie from
+// lib/token-auth.ts when the user signs in). Set it in the browser for the app's
+// origin; the user ID keys that user's rate limit.
+
+const { createHmac } = require('crypto')
+
+const SESSION_COOKIE_NAME = 'live_audio_session'
+const DEFAULT_TTL_HOURS = 12
+
+// As signSessionCookie in lib/token-auth.ts - keep in sync
+// (scripts/issue-session-cookie.test.ts checks cookies from here verify there)
+function signSessionCookie(userId, secret, ttlSeconds, now = Date.now()) {
+  const payload = `${Buffer.from(userId).toString('base64url')}.${Math.floor(now / 1000) + ttlSeconds}`
+  return `${payload}.${createHmac('sha256', secret).update(payload).digest('base64url')}`
+}
+
+function parseArgs(argv) {
+  const options = { userId: '', ttlHours: DEFAULT_TTL_HOURS }
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--ttl-hours') {
+      options.ttlHours = Number(argv[++i])
+    } else {
+      options.userId = argv[i]
+    }
+  }
+  return options
+}
+
+if (require.main === module) {
+  const { userId, ttlHours } = parseArgs(process.argv.slice(2))
+  const secret = process.env.TOKEN_AUTH_SECRET
+  if (!userId || !(ttlHours > 0) || !secret) {
+    console.error('Usage: TOKEN_AUTH_SECRET=... node scripts/issue-session-cookie.js <user-id> [--ttl-hours 12]')
+    process.exit(1)
+  }
+  console.log(`${SESSION_COOKIE_NAME}=${signSessionCookie(userId, secret, ttlHours * 3600)}`)
+}
+
+module.exports = { signSessionCookie, parseArgs, SESSION_COOKIE_NAME }
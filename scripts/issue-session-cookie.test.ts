@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest'
+import { SESSION_COOKIE_NAME, signSessionCookie as libSignSessionCookie, verifySessionCookie } from '../lib/token-auth'
+import { parseArgs, SESSION_COOKIE_NAME as SCRIPT_COOKIE_NAME, signSessionCookie } from './issue-session-cookie'
+
+describe('issue-session-cookie', () => {
+  it('signs cookies the token route accepts', () => {
+    const cookie = signSessionCookie('user-1', 's3cret', 3600)
+    expect(verifySessionCookie(cookie, 's3cret')).toBe('user-1')
+    expect(verifySessionCookie(cookie, 'other')).toBeNull()
+    expect(SCRIPT_COOKIE_NAME).toBe(SESSION_COOKIE_NAME)
+  })
+
+  it('matches signSessionCookie in lib/token-auth.ts', () => {
+    const now = Date.UTC(2026, 0, 1)
+    expect(signSessionCookie('ana@example.com', 's3cret', 60, now)).toBe(libSignSessionCookie('ana@example.com', 's3cret', 60, now))
+  })
+
+  it('reads the user ID and lifetime', () => {
+    expect(parseArgs(['user-1'])).toEqual({ userId: 'user-1', ttlHours: 12 })
+    expect(parseArgs(['--ttl-hours', '2', 'user-1'])).toEqual({ userId: 'user-1', ttlHours: 2 })
+  })
+})
@@ -0,0 +1,111 @@
+// Local mock STT server for offline development and e2e tests
+// Usage: node scripts/mock-stt-server.js [script.json] [--port 8787] [--loop]
+//
+// Each client gets its own replay of the script. Events fire when the amount of
+// audio received (in ms at the sample rate) passes their `atMs`, so the output
+// depends only on what was sent - never on wall-clock timing.
+//
+// Event types: speech_started, speech_stopped, partial (replaces the utterance
+// text), delta (appends to it), final, error. Each is sent with `audioMs`, the
+// audio time it fired at.
+
+const fs = require('fs')
+const path = require('path')
+const { WebSocketServer } = require('ws')
+
+const SAMPLE_RATE = 16000
+
+const DEFAULT_SCRIPT = [
+  { atMs: 200, type: 'speech_started' },
+  { atMs: 400, type: 'delta', text: 'Hello' },
+  { atMs: 800, type: 'delta', text: ', this is' },
+  { atMs: 1100, type: 'speech_stopped' },
+  { atMs: 1200, type: 'final', text: 'Hello, this is the mock transcription server.' },
+  { atMs: 1500, type: 'speech_started' },
+  { atMs: 1800, type: 'delta', text: 'Everything' },
+  { atMs: 2400, type: 'delta', text: ' here is scripted' },
+  { atMs: 2900, type: 'speech_stopped' },
+  { atMs: 3000, type: 'final', text: 'Everything here is scripted and deterministic.' },
+]
+
+function parseArgs(argv) {
+  const options = { port: 8787, loop: false, scriptPath: null }
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]
+    if (arg === '--port') {
+      options.port = Number(argv[++i])
+    } else if (arg === '--loop') {
+      options.loop = true
+    } else {
+      options.scriptPath = arg
+    }
+  }
+  return options
+}
+
+function loadScript(scriptPath) {
+  if (!scriptPath) {
+    return DEFAULT_SCRIPT
+  }
+
+  const events = JSON.parse(fs.readFileSync(path.resolve(scriptPath), 'utf8'))
+  if (!Array.isArray(events)) {
+    throw new Error('Mock STT script must be a JSON array of events')
+  }
+  return events.slice().sort((a, b) => a.atMs - b.atMs)
+}
+
+function startServer({ port, loop, script }) {
+  const server = new WebSocketServer({ port })
+  const scriptLength = script.length > 0 ? script[script.length - 1].atMs : 0
+
+  server.on('connection', (socket) => {
+    let samplesReceived = 0
+    let nextEvent = 0
+    let loopOffsetMs = 0
+
+    console.log('Mock STT client connected')
+
+    socket.on('message', (raw) => {
+      let message
+      try {
+        message = JSON.parse(raw.toString())
+      } catch {
+        socket.send(JSON.stringify({ type: 'error', message: 'Malformed JSON' }))
+        return
+      }
+
+      if (message.type !== 'audio') {
+        return
+      }
+
+      samplesReceived += Number(message.samples) || 0
+      const audioMs = (samplesReceived / SAMPLE_RATE) * 1000
+
+      while (nextEvent < script.length && audioMs >= script[nextEvent].atMs + loopOffsetMs) {
+        const { atMs, ...event } = script[nextEvent]
+        socket.send(JSON.stringify({ ...event, audioMs: atMs + loopOffsetMs }))
+        nextEvent++
+
+        if (nextEvent === script.length && loop && scriptLength > 0) {
+          nextEvent = 0
+          loopOffsetMs += scriptLength
+        }
+      }
+    })
+
+    socket.on('close', () => {
+      console.log('Mock STT client disconnected')
+    })
+  })
+
+  console.log(`Mock STT server listening on ws://localhost:${port} (${script.length} events${loop ? ', looping' : ''})`)
+  return server
+}
+
+if (require.main === module) {
+  const options = parseArgs(process.argv.slice(2))
+  startServer({ ...options, script: loadScript(options.scriptPath) })
+}
+
+module.exports = { startServer, loadScript, DEFAULT_SCRIPT }
@@ -0,0 +1,592 @@
+// Server-side relay for the OpenAI Realtime WebSocket
+// The browser connects here instead of to api.openai.com; each client socket is
+// paired with an upstream socket authenticated with the server's OPENAI_API_KEY.
+//
+// Mounted on the Next.js server by server.js, or run on its own:
+//   node scripts/stt-relay.js [--port 8788] [--upstream ws://localhost:9000]
+// (--upstream points it at a fake upstream for testing)
+//
+// Every socket is a billable upstream session, so upgrades get the token route's
+// checks (origin -> rate limits -> authentication, same TOKEN_* settings) and the
+// model must be on a server-side list. Every session.update is rebuilt from the same
+// settings the token route accepts (transcription only, no model replies), and a safe one
+// is sent before anything from the client. Per-client limits (keyed on the client IP)
+// are enforced here, so quota is controlled server-side: concurrent sockets,
+// session length, message rate and size, and which message types may be forwarded upstream.
+
+const http = require('http')
+const { createHmac, timingSafeEqual } = require('crypto')
+const { WebSocketServer, WebSocket } = require('ws')
+
+// Must match RELAY_PATH in lib/stt.ts
+const RELAY_PATH = '/api/stt-relay'
+
+const DEFAULT_UPSTREAM_URL = 'wss://api.openai.com/v1/realtime'
+// Must match REALTIME_MODEL in lib/session-config.ts
+const DEFAULT_MODEL = 'gpt-4o-realtime-preview'
+
+const DEFAULT_LIMITS = {
+  // Every capture source has its own session plus a standby while it rotates:
+  // MAX_CAPTURE_SOURCES (lib/multi-source.ts) * 2
+  maxConnectionsPerClient: 8,
+  maxSessionMs: 30 * 60 * 1000,
+  maxMessagesPerSecond: 100,
+  maxMessageBytes: 512 * 1024,
+  // Messages held while the upstream socket is still connecting
+  maxPendingMessages: 250,
+}
+
+// Browser -> upstream message types the relay forwards; anything else is refused
+const ALLOWED_CLIENT_TYPES = [
+  'session.update',
+  'input_audio_buffer.append',
+  'input_audio_buffer.commit',
+  'input_audio_buffer.clear',
+]
+
+// Both legs are pinged this often; a peer that hasn't answered the previous ping is gone
+const PING_INTERVAL_MS = 30000
+
+// WebSocket close codes sent to the browser
+const CLOSE_GOING_AWAY = 1001
+const CLOSE_POLICY = 1008
+const CLOSE_UPSTREAM_FAILED = 1011
+
+// STT_RELAY_* environment overrides for the limits above
+function limitsFromEnv(env) {
+  const limits = {}
+  const read = (name, key, scale) => {
+    const value = Number(env[name])
+    if (env[name] !== undefined && value > 0) {
+      limits[key] = value * scale
+    }
+  }
+  read('STT_RELAY_MAX_CONNECTIONS', 'maxConnectionsPerClient', 1)
+  read('STT_RELAY_MAX_SESSION_MINUTES', 'maxSessionMs', 60 * 1000)
+  read('STT_RELAY_MAX_MESSAGES_PER_SECOND', 'maxMessagesPerSecond', 1)
+  read('STT_RELAY_MAX_MESSAGE_KB', 'maxMessageBytes', 1024)
+  return limits
+}
+
+// Upgrade checks. server.js runs under plain Node and can't load lib/*.ts, so these
+// mirror lib/request-guard.ts, lib/token-auth.ts and lib/rate-limit.ts - keep them in
+// sync (scripts/stt-relay.test.ts checks cookies from signSessionCookie verify here)
+
+// The token route's settings, plus the models the relay may open sessions for
+function guardFromEnv(env) {
+  const number = (name, fallback) => (Number(env[name]) > 0 ? Number(env[name]) : fallback)
+  const list = (value) => (value || '').split(',').map(item => item.trim()).filter(Boolean)
+  const models = list(env.STT_RELAY_MODELS)
+  return {
+    allowedOrigins: list(env.TOKEN_ALLOWED_ORIGINS),
+    authMode: env.TOKEN_AUTH_MODE || 'none',
+    authSecret: env.TOKEN_AUTH_SECRET || '',
+    ipLimitPerMinute: number('TOKEN_RATE_LIMIT_PER_IP', 10),
+    userLimitPerHour: number('TOKEN_RATE_LIMIT_PER_USER', 30),
+    trustProxy: env.TRUST_PROXY === 'true' || env.TRUST_PROXY === '1',
+    models: models.length > 0 ? models : [DEFAULT_MODEL],
+  }
+}
+
+// The socket address, unless the deployment says a proxy in front sets X-Forwarded-For -
+// otherwise any client could pick a new key per connection and dodge every limit
+function clientKey(req, trustProxy) {
+  const forwarded = req.headers['x-forwarded-for']
+  if (trustProxy && typeof forwarded === 'string' && forwarded) {
+    return forwarded.split(',')[0].trim()
+  }
+  return req.socket.remoteAddress || 'unknown'
+}
+
+// As isAllowedOrigin - browsers always send Origin on a WebSocket handshake
+function isAllowedOrigin(req, options) {
+  const origin = req.headers.origin
+  if (!origin) {
+    return false
+  }
+  if (options.allowedOrigins.length > 0) {
+    return options.allowedOrigins.indexOf(origin) !== -1
+  }
+
+  const forwardedHost = options.trustProxy ? req.headers['x-forwarded-host'] : undefined
+  try {
+    return new URL(origin).host === (forwardedHost || req.headers.host)
+  } catch {
+    return false
+  }
+}
+
+// As authenticatorFromEnv: { ok, userId }; a mode without a secret fails closed
+function authenticate(req, options) {
+  const { authMode, authSecret } = options
+  if (authMode === 'none') {
+    return { ok: true, userId: null }
+  }
+  if (!authSecret) {
+    return { ok: false, userId: null }
+  }
+
+  if (authMode === 'shared-secret') {
+    const provided = req.headers['x-app-secret']
+    return { ok: typeof provided === 'string' && safeEqual(provided, authSecret), userId: null }
+  }
+  if (authMode === 'signed-cookie') {
+    const userId = verifySessionCookie(readCookie(req, 'live_audio_session'), authSecret)
+    return { ok: userId !== null, userId }
+  }
+  return { ok: false, userId: null }
+}
+
+// As verifySessionCookie in lib/token-auth.ts
+function verifySessionCookie(value, secret, now = Date.now()) {
+  const parts = (value || '').split('.')
+  if (parts.length !== 3) {
+    return null
+  }
+
+  const [encodedUser, expires, signature] = parts
+  const expected = createHmac('sha256', secret).update(`${encodedUser}.${expires}`).digest('base64url')
+  if (!safeEqual(signature, expected)) {
+    return null
+  }
+  if (!(Number(expires) * 1000 > now)) {
+    return null
+  }
+  return Buffer.from(encodedUser, 'base64url').toString()
+}
+
+function readCookie(req, name) {
+  const cookies = (req.headers.cookie || '').split(';')
+  for (let i = 0; i < cookies.length; i++) {
+    const index = cookies[i].indexOf('=')
+    if (index !== -1 && cookies[i].slice(0, index).trim() === name) {
+      return decodeURIComponent(cookies[i].slice(index + 1).trim())
+    }
+  }
+  return undefined
+}
+
+function safeEqual(a, b) {
+  const bufferA = Buffer.from(a)
+  const bufferB = Buffer.from(b)
+  return bufferA.length === bufferB.length && timingSafeEqual(bufferA, bufferB)
+}
+
+// As RateLimiter with MemoryRateLimitStore: fixed windows, expired ones pruned
+function createRateLimiter(limit, windowMs) {
+  const windows = new Map()
+  let lastPrune = 0
+
+  return (key) => {
+    const now = Date.now()
+    if (now - lastPrune >= 60000) {
+      lastPrune = now
+      windows.forEach((window, windowKey) => {
+        if (window.resetAt <= now) {
+          windows.delete(windowKey)
+        }
+      })
+    }
+
+    let window = windows.get(key)
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + windowMs }
+      windows.set(key, window)
+    }
+    window.count++
+    return window.count <= limit
+  }
+}
+
+// Session settings. A client could otherwise ask for audio output or create_response and
+// get billable model replies, so session.update is never forwarded as sent: its settings are
+// read back into SessionConfig form, checked and rebuilt. Mirrors validateSessionConfig and
+// toRealtimeSession in lib/session-config.ts (scripts/stt-relay.test.ts checks they agree)
+const TRANSCRIPTION_MODELS = ['whisper-1', 'gpt-4o-transcribe', 'gpt-4o-mini-transcribe']
+const NOISE_REDUCTION_MODES = ['off', 'near_field', 'far_field']
+const PROMPT_MAX_LENGTH = 1000
+const SILENCE_DURATION_RANGE = { min: 200, max: 2000 }
+const DEFAULT_SESSION_CONFIG = {
+  transcriptionModel: 'whisper-1',
+  language: '',
+  prompt: '',
+  vadThreshold: 0.5,
+  silenceDurationMs: 500,
+  noiseReduction: 'off',
+}
+
+function isPlainObject(value) {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function validateSessionConfig(config) {
+  const errors = []
+  if (TRANSCRIPTION_MODELS.indexOf(config.transcriptionModel) === -1) {
+    errors.push(`transcriptionModel must be one of ${TRANSCRIPTION_MODELS.join(', ')}`)
+  }
+  if (typeof config.language !== 'string' || !/^([a-z]{2})?$/.test(config.language)) {
+    errors.push('language must be a two-letter ISO-639-1 code, or empty for auto-detect')
+  }
+  if (typeof config.prompt !== 'string' || config.prompt.length > PROMPT_MAX_LENGTH) {
+    errors.push(`prompt must be a string of at most ${PROMPT_MAX_LENGTH} characters`)
+  }
+  if (typeof config.vadThreshold !== 'number' || !(config.vadThreshold >= 0 && config.vadThreshold <= 1)) {
+    errors.push('vadThreshold must be a number between 0 and 1')
+  }
+  if (
+    typeof config.silenceDurationMs !== 'number' ||
+    Math.round(config.silenceDurationMs) !== config.silenceDurationMs ||
+    config.silenceDurationMs < SILENCE_DURATION_RANGE.min ||
+    config.silenceDurationMs > SILENCE_DURATION_RANGE.max
+  ) {
+    errors.push(`silenceDurationMs must be a whole number from ${SILENCE_DURATION_RANGE.min} to ${SILENCE_DURATION_RANGE.max}`)
+  }
+  if (NOISE_REDUCTION_MODES.indexOf(config.noiseReduction) === -1) {
+    errors.push(`noiseReduction must be one of ${NOISE_REDUCTION_MODES.join(', ')}`)
+  }
+  return errors
+}
+
+function toRealtimeSession(config, commitMode) {
+  const transcription = { model: config.transcriptionModel }
+  if (config.language) {
+    transcription.language = config.language
+  }
+  if (config.prompt.trim()) {
+    transcription.prompt = config.prompt.trim()
+  }
+
+  return {
+    modalities: ['text'],
+    instructions: 'You are a real-time speech transcription service. Transcribe the audio input accurately.',
+    input_audio_format: 'pcm16',
+    input_audio_transcription: transcription,
+    input_audio_noise_reduction: config.noiseReduction === 'off' ? null : { type: config.noiseReduction },
+    turn_detection: commitMode === 'server_vad'
+      ? {
+        type: 'server_vad',
+        threshold: config.vadThreshold,
+        silence_duration_ms: config.silenceDurationMs,
+        create_response: false,
+      }
+      : null,
+  }
+}
+
+// { session } to forward in place of the client's, or { errors }. Fields the token route
+// doesn't take (modalities, voice, tools, create_response, ...) are dropped
+function safeSessionUpdate(session) {
+  if (!isPlainObject(session)) {
+    return { errors: ['session must be an object'] }
+  }
+
+  const transcription = isPlainObject(session.input_audio_transcription) ? session.input_audio_transcription : {}
+  const noise = session.input_audio_noise_reduction
+  const turn = session.turn_detection
+  if (turn !== undefined && turn !== null && !(isPlainObject(turn) && turn.type === 'server_vad')) {
+    return { errors: ['turn_detection must be server_vad or null'] }
+  }
+  const vad = turn || {}
+
+  const config = {
+    transcriptionModel: transcription.model ?? DEFAULT_SESSION_CONFIG.transcriptionModel,
+    language: transcription.language ?? DEFAULT_SESSION_CONFIG.language,
+    prompt: transcription.prompt ?? DEFAULT_SESSION_CONFIG.prompt,
+    vadThreshold: vad.threshold ?? DEFAULT_SESSION_CONFIG.vadThreshold,
+    silenceDurationMs: vad.silence_duration_ms ?? DEFAULT_SESSION_CONFIG.silenceDurationMs,
+    noiseReduction: isPlainObject(noise) ? noise.type : 'off',
+  }
+  const errors = validateSessionConfig(config)
+  if (errors.length > 0) {
+    return { errors }
+  }
+  return { session: toRealtimeSession(config, turn === null ? 'manual' : 'server_vad') }
+}
+
+function eventType(payload) {
+  try {
+    return JSON.parse(payload).type
+  } catch {
+    return null
+  }
+}
+
+function rejectUpgrade(socket, status, reason) {
+  socket.write(`HTTP/1.1 ${status} ${reason}\r\nConnection: close\r\nContent-Length: 0\r\n\r\n`)
+  socket.destroy()
+}
+
+// `guard` overrides guardFromEnv(process.env) field by field
+function createRelay({ apiKey, upstreamUrl = DEFAULT_UPSTREAM_URL, limits = {}, guard = {}, pingIntervalMs = PING_INTERVAL_MS, log = console.log }) {
+  const resolvedLimits = { ...DEFAULT_LIMITS, ...limits }
+  const resolvedGuard = { ...guardFromEnv(process.env), ...guard }
+  if (resolvedGuard.authMode !== 'none' && !resolvedGuard.authSecret) {
+    log(`[relay] TOKEN_AUTH_MODE=${resolvedGuard.authMode} needs TOKEN_AUTH_SECRET - refusing all connections`)
+  }
+
+  const server = new WebSocketServer({ noServer: true, maxPayload: resolvedLimits.maxMessageBytes })
+  const connectionsByClient = new Map()
+  const ipLimiter = createRateLimiter(resolvedGuard.ipLimitPerMinute, 60 * 1000)
+  const userLimiter = createRateLimiter(resolvedGuard.userLimitPerHour, 60 * 60 * 1000)
+
+  // Checked in the token route's order: origin -> per-IP limits -> authentication -> per-user limit -> request
+  function handleUpgrade(req, socket, head) {
+    const key = clientKey(req, resolvedGuard.trustProxy)
+    const refuse = (status, reason, detail) => {
+      log(`[relay] ${key} refused: ${detail}`)
+      rejectUpgrade(socket, status, reason)
+    }
+
+    if (!isAllowedOrigin(req, resolvedGuard)) {
+      refuse(403, 'Forbidden', `origin ${req.headers.origin || '(none)'} not allowed`)
+      return
+    }
+
+    if ((connectionsByClient.get(key) || 0) >= resolvedLimits.maxConnectionsPerClient) {
+      refuse(429, 'Too Many Requests', `connection limit (${resolvedLimits.maxConnectionsPerClient}) reached`)
+      return
+    }
+    // Failed authentication counts against the client's limit too
+    if (!ipLimiter(`ip:${key}`)) {
+      refuse(429, 'Too Many Requests', 'session rate limit reached')
+      return
+    }
+
+    const auth = authenticate(req, resolvedGuard)
+    if (!auth.ok) {
+      refuse(401, 'Unauthorized', 'authentication failed')
+      return
+    }
+    if (auth.userId && !userLimiter(`user:${auth.userId}`)) {
+      refuse(429, 'Too Many Requests', 'session rate limit reached')
+      return
+    }
+
+    const { searchParams } = new URL(req.url, 'http://localhost')
+    const model = searchParams.get('model') || resolvedGuard.models[0]
+    if (resolvedGuard.models.indexOf(model) === -1) {
+      refuse(400, 'Bad Request', `model ${model} not allowed`)
+      return
+    }
+
+    server.handleUpgrade(req, socket, head, (client) => relay(client, key, model))
+  }
+
+  function relay(client, key, model) {
+    connectionsByClient.set(key, (connectionsByClient.get(key) || 0) + 1)
+
+    const startedAt = Date.now()
+    let messagesIn = 0
+    let bytesIn = 0
+    let windowStart = startedAt
+    let windowCount = 0
+    let closed = false
+    const pending = []
+
+    log(`[relay] ${key} connected (model ${model})`)
+
+    const upstream = new WebSocket(`${upstreamUrl}?model=${encodeURIComponent(model)}`, {
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        'OpenAI-Beta': 'realtime=v1',
+      },
+    })
+
+    const close = (code, reason) => {
+      if (closed) {
+        return
+      }
+      closed = true
+      clearTimeout(sessionTimer)
+      clearInterval(pingTimer)
+
+      if (client.readyState === WebSocket.OPEN) {
+        client.close(code, reason)
+      }
+      if (upstream.readyState === WebSocket.OPEN) {
+        upstream.close(1000)
+      } else if (upstream.readyState === WebSocket.CONNECTING) {
+        upstream.terminate()
+      }
+
+      const remaining = (connectionsByClient.get(key) || 1) - 1
+      if (remaining > 0) {
+        connectionsByClient.set(key, remaining)
+      } else {
+        connectionsByClient.delete(key)
+      }
+
+      const seconds = ((Date.now() - startedAt) / 1000).toFixed(1)
+      log(`[relay] ${key} closed after ${seconds}s: ${reason} (${messagesIn} messages, ${(bytesIn / 1024).toFixed(0)} KB in)`)
+    }
+
+    const sessionTimer = setTimeout(() => close(CLOSE_POLICY, 'Session time limit reached'), resolvedLimits.maxSessionMs)
+
+    // The keepalive: nothing else crosses a paused session, and proxies or load balancers
+    // drop a quiet socket - whose reconnect would start a fresh upstream session
+    let clientAnswered = true
+    let upstreamAnswered = true
+    client.on('pong', () => { clientAnswered = true })
+    upstream.on('pong', () => { upstreamAnswered = true })
+    const pingTimer = setInterval(() => {
+      if (!clientAnswered) {
+        close(CLOSE_GOING_AWAY, 'Client stopped responding')
+        return
+      }
+      if (upstream.readyState === WebSocket.OPEN && !upstreamAnswered) {
+        close(CLOSE_UPSTREAM_FAILED, 'Upstream stopped responding')
+        return
+      }
+
+      clientAnswered = false
+      client.ping()
+      if (upstream.readyState === WebSocket.OPEN) {
+        upstreamAnswered = false
+        upstream.ping()
+      }
+    }, pingIntervalMs)
+
+    // Errors go back in the Realtime API's own shape, so the client handles them as usual
+    const sendError = (message) => {
+      if (client.readyState === WebSocket.OPEN) {
+        client.send(JSON.stringify({ type: 'error', error: { type: 'relay_error', message } }))
+      }
+    }
+
+    // The upstream default session replies to every turn, so it is made safe before any
+    // client message goes through. Its session.updated is the relay's, not the client's
+    let ownUpdates = 0
+    upstream.on('open', () => {
+      upstream.send(JSON.stringify({ type: 'session.update', session: toRealtimeSession(DEFAULT_SESSION_CONFIG, 'server_vad') }))
+      ownUpdates++
+      pending.forEach(payload => upstream.send(payload))
+      pending.length = 0
+    })
+
+    upstream.on('message', (data) => {
+      const payload = data.toString()
+      if (ownUpdates > 0 && eventType(payload) === 'session.updated') {
+        ownUpdates--
+        return
+      }
+      if (client.readyState === WebSocket.OPEN) {
+        client.send(payload)
+      }
+    })
+
+    upstream.on('unexpected-response', (req, res) => {
+      close(CLOSE_UPSTREAM_FAILED, `Upstream refused the connection (HTTP ${res.statusCode})`)
+    })
+
+    upstream.on('error', (error) => {
+      log(`[relay] ${key} upstream error: ${error.message}`)
+      close(CLOSE_UPSTREAM_FAILED, 'Upstream connection failed')
+    })
+
+    upstream.on('close', (code) => {
+      close(code === 1000 ? 1000 : CLOSE_UPSTREAM_FAILED, `Upstream closed (${code})`)
+    })
+
+    client.on('message', (raw) => {
+      const now = Date.now()
+      if (now - windowStart >= 1000) {
+        windowStart = now
+        windowCount = 0
+      }
+      if (++windowCount > resolvedLimits.maxMessagesPerSecond) {
+        close(CLOSE_POLICY, 'Message rate limit exceeded')
+        return
+      }
+
+      let payload = raw.toString()
+      messagesIn++
+      bytesIn += payload.length
+
+      let message
+      try {
+        message = JSON.parse(payload)
+      } catch {
+        sendError('Malformed JSON')
+        return
+      }
+
+      if (ALLOWED_CLIENT_TYPES.indexOf(message.type) === -1) {
+        sendError(`Message type not allowed by relay: ${message.type}`)
+        return
+      }
+      if (message.type === 'session.update') {
+        const update = safeSessionUpdate(message.session)
+        if (update.errors) {
+          sendError(`Session settings not allowed by relay: ${update.errors.join('; ')}`)
+          return
+        }
+        payload = JSON.stringify({ type: 'session.update', session: update.session })
+      }
+
+      if (upstream.readyState === WebSocket.OPEN) {
+        upstream.send(payload)
+      } else if (pending.length < resolvedLimits.maxPendingMessages) {
+        pending.push(payload)
+      } else {
+        close(CLOSE_POLICY, 'Too many messages before upstream was ready')
+      }
+    })
+
+    client.on('close', () => close(1000, 'Client disconnected'))
+
+    // ws closes with 1009 on its own when maxPayload is exceeded; this logs it
+    client.on('error', (error) => {
+      log(`[relay] ${key} client error: ${error.message}`)
+      close(CLOSE_POLICY, error.message)
+    })
+  }
+
+  return {
+    handleUpgrade,
+    close: () => server.close(),
+  }
+}
+
+function parseArgs(argv) {
+  const options = { port: 8788, upstreamUrl: DEFAULT_UPSTREAM_URL }
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--port') {
+      options.port = Number(argv[++i])
+    } else if (argv[i] === '--upstream') {
+      options.upstreamUrl = argv[++i]
+    }
+  }
+  return options
+}
+
+// Standalone relay on its own port, for running next to `next dev` or against a fake upstream
+function startServer({ port, upstreamUrl, apiKey, limits }) {
+  const relay = createRelay({ apiKey, upstreamUrl, limits })
+  const server = http.createServer((req, res) => {
+    res.writeHead(426, { 'Content-Type': 'text/plain' })
+    res.end('WebSocket upgrade required')
+  })
+
+  server.on('upgrade', (req, socket, head) => {
+    if (new URL(req.url, 'http://localhost').pathname === RELAY_PATH) {
+      relay.handleUpgrade(req, socket, head)
+    } else {
+      rejectUpgrade(socket, 404, 'Not Found')
+    }
+  })
+
+  server.listen(port, () => {
+    console.log(`STT relay listening on ws://localhost:${port}${RELAY_PATH} -> ${upstreamUrl}`)
+  })
+  return server
+}
+
+if (require.main === module) {
+  const options = parseArgs(process.argv.slice(2))
+  if (!process.env.OPENAI_API_KEY) {
+    console.warn('OPENAI_API_KEY is not set - upstream will reject connections')
+  }
+  startServer({ ...options, apiKey: process.env.OPENAI_API_KEY || '', limits: limitsFromEnv(process.env) })
+}
+
+module.exports = { createRelay, startServer, limitsFromEnv, guardFromEnv, safeSessionUpdate, RELAY_PATH, DEFAULT_LIMITS }
@@ -0,0 +1,469 @@
+import http from 'http'
+import type { AddressInfo } from 'net'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { WebSocket, WebSocketServer } from 'ws'
+import { MAX_CAPTURE_SOURCES, createCaptureSource } from '../lib/multi-source'
+import { MultiSourceSTT } from '../lib/multi-stt'
+import { DEFAULT_SESSION_CONFIG, SessionConfig, toRealtimeSession } from '../lib/session-config'
+import { OpenAIRealtimeSTT } from '../lib/stt'
+import { signSessionCookie } from '../lib/token-auth'
+import { createRelay, RELAY_PATH, safeSessionUpdate } from './stt-relay'
+
+// The relay runs against a local fake upstream: a ws server recording what it receives
+// and acknowledging each session.update, as the Realtime API does
+
+interface UpstreamConnection {
+  socket: WebSocket
+  url: string
+  authorization: string | undefined
+  messages: string[]
+}
+
+type Opened = { ws: WebSocket; status: null } | { ws: null; status: number }
+
+const cleanups: (() => Promise<void> | void)[] = []
+
+afterEach(async () => {
+  while (cleanups.length > 0) {
+    await cleanups.pop()!()
+  }
+  vi.unstubAllGlobals()
+  vi.restoreAllMocks()
+})
+
+function listening(server: http.Server | WebSocketServer): Promise<number> {
+  return new Promise(resolve => server.once('listening', () => resolve((server.address() as AddressInfo).port)))
+}
+
+async function fakeUpstream(autoPong: boolean = true) {
+  const server = new WebSocketServer({ port: 0, autoPong })
+  const connections: UpstreamConnection[] = []
+  server.on('connection', (socket, req) => {
+    const connection = { socket, url: req.url || '', authorization: req.headers.authorization, messages: [] as string[] }
+    socket.on('message', data => {
+      const message = JSON.parse(data.toString())
+      connection.messages.push(data.toString())
+      if (message.type === 'session.update') {
+        socket.send(JSON.stringify({ type: 'session.updated', session: message.session }))
+      }
+    })
+    connections.push(connection)
+  })
+  const port = await listening(server)
+  cleanups.push(() => new Promise<void>(resolve => {
+    server.clients.forEach(client => client.terminate())
+    server.close(() => resolve())
+  }))
+  return { url: `ws://127.0.0.1:${port}`, connections }
+}
+
+async function startRelay(options: { limits?: object; guard?: object; pingIntervalMs?: number; upstreamPongs?: boolean } = {}) {
+  const upstream = await fakeUpstream(options.upstreamPongs)
+  const relay = createRelay({
+    apiKey: 'sk-test',
+    upstreamUrl: upstream.url,
+    limits: options.limits,
+    // Defaults for every field the tests don't set, whatever the environment says
+    guard: {
+      allowedOrigins: [],
+      authMode: 'none',
+      authSecret: '',
+      ipLimitPerMinute: 100,
+      userLimitPerHour: 100,
+      trustProxy: false,
+      models: ['gpt-4o-realtime-preview'],
+      ...options.guard,
+    },
+    pingIntervalMs: options.pingIntervalMs,
+    log: () => {},
+  })
+
+  const server = http.createServer()
+  server.on('upgrade', (req, socket, head) => relay.handleUpgrade(req, socket, head))
+  server.listen(0, '127.0.0.1')
+  const port = await listening(server)
+  cleanups.push(() => new Promise<void>(resolve => {
+    relay.close()
+    server.closeAllConnections()
+    server.close(() => resolve())
+  }))
+
+  const base = `http://127.0.0.1:${port}`
+  const open = (query: string = '?model=gpt-4o-realtime-preview', options: { origin?: string; headers?: object; autoPong?: boolean } = {}): Promise<Opened> => {
+    const ws = new WebSocket(`ws://127.0.0.1:${port}${RELAY_PATH}${query}`, {
+      origin: options.origin ?? base,
+      headers: options.headers as http.OutgoingHttpHeaders,
+      autoPong: options.autoPong ?? true,
+    })
+    cleanups.push(() => ws.terminate())
+    return new Promise((resolve, reject) => {
+      ws.once('open', () => resolve({ ws, status: null }))
+      ws.once('unexpected-response', (_req, res) => resolve({ ws: null, status: res.statusCode || 0 }))
+      ws.once('error', reject)
+    })
+  }
+
+  return { upstream, open, base }
+}
+
+// What the client sent, after the relay's own opening session.update
+function forwarded(connection: UpstreamConnection): any[] {
+  return connection.messages.slice(1).map(message => JSON.parse(message))
+}
+
+function closed(ws: WebSocket): Promise<{ code: number; reason: string }> {
+  return new Promise(resolve => ws.once('close', (code, reason) => resolve({ code, reason: reason.toString() })))
+}
+
+function nextMessage(ws: WebSocket): Promise<any> {
+  return new Promise(resolve => ws.once('message', data => resolve(JSON.parse(data.toString()))))
+}
+
+async function waitFor(check: () => boolean, timeoutMs: number = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs
+  while (!check()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for condition')
+    }
+    await new Promise(resolve => setTimeout(resolve, 10))
+  }
+}
+
+describe('stt-relay', () => {
+  it('pairs each client with an upstream session using the server key', async () => {
+    const { upstream, open } = await startRelay()
+    const { ws } = await open()
+
+    await waitFor(() => upstream.connections.length === 1)
+    const [connection] = upstream.connections
+    expect(connection.authorization).toBe('Bearer sk-test')
+    expect(connection.url).toBe('/?model=gpt-4o-realtime-preview')
+
+    ws!.send(JSON.stringify({ type: 'input_audio_buffer.append', audio: 'AAAA' }))
+    await waitFor(() => forwarded(connection).length === 1)
+    expect(forwarded(connection)[0]).toEqual({ type: 'input_audio_buffer.append', audio: 'AAAA' })
+
+    const received = nextMessage(ws!)
+    connection.socket.send(JSON.stringify({ type: 'input_audio_buffer.committed', item_id: 'item_1' }))
+    expect((await received).type).toBe('input_audio_buffer.committed')
+  })
+
+  it('refuses message types it does not forward', async () => {
+    const { upstream, open } = await startRelay()
+    const { ws } = await open()
+    await waitFor(() => upstream.connections.length === 1)
+
+    const received = nextMessage(ws!)
+    ws!.send(JSON.stringify({ type: 'response.create' }))
+    expect((await received).error.message).toContain('response.create')
+    expect(forwarded(upstream.connections[0])).toEqual([])
+  })
+
+  describe('session settings', () => {
+    it('makes the upstream session transcription-only before forwarding anything', async () => {
+      const { upstream, open } = await startRelay()
+      const { ws } = await open()
+      const messages: any[] = []
+      ws!.on('message', data => messages.push(JSON.parse(data.toString())))
+      ws!.send(JSON.stringify({ type: 'input_audio_buffer.commit' }))
+
+      await waitFor(() => upstream.connections.length === 1 && upstream.connections[0].messages.length === 2)
+      expect(JSON.parse(upstream.connections[0].messages[0])).toEqual({
+        type: 'session.update',
+        session: toRealtimeSession(DEFAULT_SESSION_CONFIG, 'server_vad'),
+      })
+      // The acknowledgement is the relay's, so the client never sees it
+      await new Promise(resolve => setTimeout(resolve, 50))
+      expect(messages).toEqual([])
+    })
+
+    it('rebuilds a session.update that asks for model replies', async () => {
+      const { upstream, open } = await startRelay()
+      const { ws } = await open()
+      await waitFor(() => upstream.connections.length === 1)
+
+      const config: SessionConfig = { ...DEFAULT_SESSION_CONFIG, language: 'de', vadThreshold: 0.7 }
+      const session = toRealtimeSession(config, 'server_vad')
+      const received = nextMessage(ws!)
+      ws!.send(JSON.stringify({
+        type: 'session.update',
+        session: {
+          ...session,
+          modalities: ['text', 'audio'],
+          voice: 'alloy',
+          tools: [{ type: 'function', name: 'spend' }],
+          turn_detection: { ...session.turn_detection, create_response: true },
+        },
+      }))
+
+      expect((await received).type).toBe('session.updated')
+      expect(forwarded(upstream.connections[0])).toEqual([{ type: 'session.update', session }])
+    })
+
+    it('refuses settings the token route would refuse', async () => {
+      const { upstream, open } = await startRelay()
+      const { ws } = await open()
+      await waitFor(() => upstream.connections.length === 1)
+
+      const received = nextMessage(ws!)
+      ws!.send(JSON.stringify({
+        type: 'session.update',
+        session: { ...toRealtimeSession(DEFAULT_SESSION_CONFIG, 'server_vad'), input_audio_transcription: { model: 'gpt-4o' } },
+      }))
+      expect((await received).error.message).toContain('transcriptionModel must be one of')
+      expect(forwarded(upstream.connections[0])).toEqual([])
+    })
+
+    // The relay mirrors lib/session-config.ts - anything the client builds must come back unchanged
+    it.each([
+      [DEFAULT_SESSION_CONFIG, 'server_vad'],
+      [{ ...DEFAULT_SESSION_CONFIG, transcriptionModel: 'gpt-4o-transcribe', language: 'fr', prompt: ' Kubernetes ' }, 'server_vad'],
+      [{ ...DEFAULT_SESSION_CONFIG, noiseReduction: 'far_field', silenceDurationMs: 1200 }, 'manual'],
+    ] as [SessionConfig, 'server_vad' | 'manual'][])('keeps sessions built by toRealtimeSession (%#)', (config, commitMode) => {
+      const session = toRealtimeSession(config, commitMode)
+      expect(safeSessionUpdate(JSON.parse(JSON.stringify(session)))).toEqual({ session })
+    })
+
+    it('refuses other turn detection', () => {
+      expect(safeSessionUpdate({ turn_detection: { type: 'semantic_vad' } })).toEqual({ errors: ['turn_detection must be server_vad or null'] })
+      expect(safeSessionUpdate('session')).toEqual({ errors: ['session must be an object'] })
+    })
+  })
+
+  describe('limits', () => {
+    it('refuses connections past the per-client limit', async () => {
+      const { upstream, open } = await startRelay({ limits: { maxConnectionsPerClient: 1 } })
+      const first = await open()
+      expect(first.ws).not.toBeNull()
+      expect((await open()).status).toBe(429)
+
+      // A closed socket frees its slot
+      first.ws!.close()
+      await waitFor(() => upstream.connections.length === 1 && upstream.connections[0].socket.readyState === WebSocket.CLOSED)
+      expect((await open()).ws).not.toBeNull()
+    })
+
+    it('closes a client that sends an oversized message, and its upstream', async () => {
+      const { upstream, open } = await startRelay({ limits: { maxMessageBytes: 1024 } })
+      const { ws } = await open()
+      await waitFor(() => upstream.connections.length === 1)
+
+      const clientClosed = closed(ws!)
+      const upstreamClosed = closed(upstream.connections[0].socket)
+      ws!.send(JSON.stringify({ type: 'input_audio_buffer.append', audio: 'A'.repeat(2048) }))
+
+      expect((await clientClosed).code).toBe(1009)
+      await upstreamClosed
+      expect(forwarded(upstream.connections[0])).toEqual([])
+    })
+
+    it('closes with 1008 when the message rate is exceeded', async () => {
+      const { upstream, open } = await startRelay({ limits: { maxMessagesPerSecond: 3 } })
+      const { ws } = await open()
+      await waitFor(() => upstream.connections.length === 1)
+
+      const clientClosed = closed(ws!)
+      for (let i = 0; i < 5; i++) {
+        ws!.send(JSON.stringify({ type: 'input_audio_buffer.commit' }))
+      }
+      expect(await clientClosed).toEqual({ code: 1008, reason: 'Message rate limit exceeded' })
+    })
+
+    it('ends sessions at the time limit', async () => {
+      const { upstream, open } = await startRelay({ limits: { maxSessionMs: 200 } })
+      const { ws } = await open()
+      await waitFor(() => upstream.connections.length === 1)
+
+      const upstreamClosed = closed(upstream.connections[0].socket)
+      expect(await closed(ws!)).toEqual({ code: 1008, reason: 'Session time limit reached' })
+      expect((await upstreamClosed).code).toBe(1000)
+    })
+  })
+
+  describe('close sequence', () => {
+    it('closes upstream normally when the client disconnects', async () => {
+      const { upstream, open } = await startRelay()
+      const { ws } = await open()
+      await waitFor(() => upstream.connections.length === 1)
+
+      const upstreamClosed = closed(upstream.connections[0].socket)
+      ws!.close(1000)
+      expect((await upstreamClosed).code).toBe(1000)
+    })
+
+    it('passes a normal upstream close through', async () => {
+      const { upstream, open } = await startRelay()
+      const { ws } = await open()
+      await waitFor(() => upstream.connections.length === 1)
+
+      const clientClosed = closed(ws!)
+      upstream.connections[0].socket.close(1000)
+      expect((await clientClosed).code).toBe(1000)
+    })
+
+    it('reports an abnormal upstream close as 1011', async () => {
+      const { upstream, open } = await startRelay()
+      const { ws } = await open()
+      await waitFor(() => upstream.connections.length === 1)
+
+      const clientClosed = closed(ws!)
+      upstream.connections[0].socket.close(4000, 'gone')
+      expect(await clientClosed).toEqual({ code: 1011, reason: 'Upstream closed (4000)' })
+    })
+
+    it('holds messages until upstream is open, in order', async () => {
+      const { upstream, open } = await startRelay()
+      const { ws } = await open()
+      ws!.send(JSON.stringify({ type: 'session.update', session: {} }))
+      ws!.send(JSON.stringify({ type: 'input_audio_buffer.commit' }))
+
+      await waitFor(() => upstream.connections.length === 1 && forwarded(upstream.connections[0]).length === 2)
+      expect(forwarded(upstream.connections[0]).map(message => message.type))
+        .toEqual(['session.update', 'input_audio_buffer.commit'])
+    })
+  })
+
+  describe('keepalive', () => {
+    it('pings both legs of a quiet session', async () => {
+      const { upstream, open } = await startRelay({ pingIntervalMs: 30 })
+      const { ws } = await open()
+      await waitFor(() => upstream.connections.length === 1)
+
+      let clientPings = 0
+      let upstreamPings = 0
+      ws!.on('ping', () => clientPings++)
+      upstream.connections[0].socket.on('ping', () => upstreamPings++)
+      await waitFor(() => clientPings >= 3 && upstreamPings >= 3)
+      expect(ws!.readyState).toBe(WebSocket.OPEN)
+      expect(upstream.connections[0].socket.readyState).toBe(WebSocket.OPEN)
+    })
+
+    it('drops a client that stops answering, and its upstream', async () => {
+      const { upstream, open } = await startRelay({ pingIntervalMs: 30 })
+      const { ws } = await open(undefined, { autoPong: false })
+      await waitFor(() => upstream.connections.length === 1)
+
+      const upstreamClosed = closed(upstream.connections[0].socket)
+      expect(await closed(ws!)).toEqual({ code: 1001, reason: 'Client stopped responding' })
+      expect((await upstreamClosed).code).toBe(1000)
+    })
+
+    it('closes the client when upstream stops answering', async () => {
+      const { open } = await startRelay({ pingIntervalMs: 30, upstreamPongs: false })
+      const { ws } = await open()
+      expect(await closed(ws!)).toEqual({ code: 1011, reason: 'Upstream stopped responding' })
+    })
+  })
+
+  describe('upgrade checks', () => {
+    it('refuses other origins, and handshakes without one', async () => {
+      const { open, base } = await startRelay()
+      expect((await open(undefined, { origin: 'https://evil.example' })).status).toBe(403)
+      expect((await open(undefined, { origin: '' })).status).toBe(403)
+      expect((await open(undefined, { origin: base })).ws).not.toBeNull()
+    })
+
+    it('accepts configured origins only', async () => {
+      const { open } = await startRelay({ guard: { allowedOrigins: ['https://app.example'] } })
+      expect((await open()).status).toBe(403)
+      expect((await open(undefined, { origin: 'https://app.example' })).ws).not.toBeNull()
+    })
+
+    it('checks the shared secret', async () => {
+      const { open } = await startRelay({ guard: { authMode: 'shared-secret', authSecret: 's3cret' } })
+      expect((await open()).status).toBe(401)
+      expect((await open(undefined, { headers: { 'x-app-secret': 'wrong' } })).status).toBe(401)
+      expect((await open(undefined, { headers: { 'x-app-secret': 's3cret' } })).ws).not.toBeNull()
+    })
+
+    it('accepts session cookies signed by lib/token-auth.ts', async () => {
+      const { open } = await startRelay({ guard: { authMode: 'signed-cookie', authSecret: 's3cret' } })
+      const cookie = signSessionCookie('user-1', 's3cret', 60)
+      expect((await open(undefined, { headers: { cookie: `theme=dark; live_audio_session=${cookie}` } })).ws).not.toBeNull()
+      expect((await open(undefined, { headers: { cookie: `live_audio_session=${cookie}x` } })).status).toBe(401)
+      expect((await open(undefined, { headers: { cookie: `live_audio_session=${signSessionCookie('user-1', 's3cret', -1)}` } })).status).toBe(401)
+    })
+
+    it('fails closed when an auth mode has no secret', async () => {
+      const { open } = await startRelay({ guard: { authMode: 'signed-cookie', authSecret: '' } })
+      expect((await open()).status).toBe(401)
+    })
+
+    it('limits new sessions per client and per user', async () => {
+      const { open } = await startRelay({ guard: { ipLimitPerMinute: 2 } })
+      expect((await open()).ws).not.toBeNull()
+      expect((await open()).ws).not.toBeNull()
+      expect((await open()).status).toBe(429)
+    })
+
+    it('counts failed authentication against the per-client limit', async () => {
+      const { open } = await startRelay({ guard: { authMode: 'shared-secret', authSecret: 's3cret', ipLimitPerMinute: 2 } })
+      expect((await open(undefined, { headers: { 'x-app-secret': 'guess1' } })).status).toBe(401)
+      expect((await open(undefined, { headers: { 'x-app-secret': 'guess2' } })).status).toBe(401)
+      expect((await open(undefined, { headers: { 'x-app-secret': 's3cret' } })).status).toBe(429)
+    })
+
+    it('only opens sessions for listed models', async () => {
+      const { upstream, open } = await startRelay()
+      expect((await open('?model=gpt-4o-realtime-preview-premium')).status).toBe(400)
+      expect((await open('')).ws).not.toBeNull()
+      await waitFor(() => upstream.connections.length === 1)
+      expect(upstream.connections[0].url).toBe('/?model=gpt-4o-realtime-preview')
+    })
+
+    it('ignores X-Forwarded-For unless the proxy is trusted', async () => {
+      const untrusted = await startRelay({ limits: { maxConnectionsPerClient: 1 } })
+      expect((await untrusted.open(undefined, { headers: { 'x-forwarded-for': '10.0.0.1' } })).ws).not.toBeNull()
+      expect((await untrusted.open(undefined, { headers: { 'x-forwarded-for': '10.0.0.2' } })).status).toBe(429)
+
+      const trusted = await startRelay({ limits: { maxConnectionsPerClient: 1 }, guard: { trustProxy: true } })
+      expect((await trusted.open(undefined, { headers: { 'x-forwarded-for': '10.0.0.1' } })).ws).not.toBeNull()
+      expect((await trusted.open(undefined, { headers: { 'x-forwarded-for': '10.0.0.2' } })).ws).not.toBeNull()
+    })
+  })
+
+  // Each source of a multi-source recording is its own relay socket from the same client,
+  // and each opens a second one when it rotates ahead of the upstream time limit
+  describe('multi-source capture', () => {
+    it('runs every source with its rotation standby under the default limits', async () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {})
+      const { upstream, base } = await startRelay()
+      const origin = base
+      vi.stubGlobal('window', { location: { protocol: 'http:', host: base.slice('http://'.length) } })
+      vi.stubGlobal('WebSocket', class extends WebSocket {
+        constructor(url: string) {
+          super(url, { origin })
+        }
+      })
+
+      const errors: string[] = []
+      const providers: OpenAIRealtimeSTT[] = []
+      const sources = Array.from({ length: MAX_CAPTURE_SOURCES }, (_, i) => createCaptureSource(`Speaker ${i + 1}`, null, i))
+      const stt = new MultiSourceSTT(sources, {
+        onPartialTranscript: () => {},
+        onFinalTranscript: () => {},
+        onError: error => errors.push(error),
+        onConnectionStateChange: () => {},
+      }, (_source, callbacks) => {
+        const provider = new OpenAIRealtimeSTT(callbacks, {}, 'relay')
+        providers.push(provider)
+        return provider
+      })
+
+      await stt.connect()
+      // Configured: the relay's own session.update, then the client's
+      await waitFor(() => upstream.connections.length === MAX_CAPTURE_SOURCES &&
+        upstream.connections.every(connection => connection.messages.length === 2))
+
+      providers.forEach(provider => (provider as unknown as { startRotation(): Promise<void> }).startRotation())
+      await waitFor(() => upstream.connections.length === MAX_CAPTURE_SOURCES * 2 &&
+        upstream.connections.every(connection => connection.messages.length === 2))
+
+      expect(upstream.connections.every(connection => connection.socket.readyState === WebSocket.OPEN)).toBe(true)
+      expect(errors).toEqual([])
+
+      stt.disconnect()
+      await waitFor(() => upstream.connections.every(connection => connection.socket.readyState === WebSocket.CLOSED))
+    })
+  })
+})
@@ -0,0 +1,51 @@
+// Custom Next.js server that adds the STT relay WebSocket endpoint
+// Usage: node server.js [--prod]   (PORT defaults to 3000)
+//
+// Route handlers can't accept WebSocket upgrades, so relay mode needs this
+// server instead of `next dev` / `next start`. Every other request - including
+// the dev server's own HMR socket - is handed to Next as usual.
+
+const http = require('http')
+const next = require('next')
+const { createRelay, limitsFromEnv, RELAY_PATH } = require('./scripts/stt-relay')
+
+const dev = process.argv.indexOf('--prod') === -1
+const port = Number(process.env.PORT) || 3000
+
+const app = next({ dev })
+const handle = app.getRequestHandler()
+
+app.prepare().then(() => {
+  const upgradeNext = app.getUpgradeHandler()
+
+  // Read after prepare() so .env.local has been loaded
+  const apiKey = process.env.OPENAI_API_KEY
+  const relay = apiKey
+    ? createRelay({
+      apiKey,
+      upstreamUrl: process.env.STT_RELAY_UPSTREAM_URL || undefined,
+      limits: limitsFromEnv(process.env),
+    })
+    : null
+
+  if (!relay) {
+    console.warn('OPENAI_API_KEY is not set - the STT relay is disabled')
+  }
+
+  const server = http.createServer((req, res) => handle(req, res))
+
+  server.on('upgrade', (req, socket, head) => {
+    if (new URL(req.url, 'http://localhost').pathname !== RELAY_PATH) {
+      upgradeNext(req, socket, head)
+    } else if (relay) {
+      relay.handleUpgrade(req, socket, head)
+    } else {
+      socket.write('HTTP/1.1 503 Service Unavailable\r\nConnection: close\r\nContent-Length: 0\r\n\r\n')
+      socket.destroy()
+    }
+  })
+
+  server.listen(port, () => {
+    console.log(`> Ready on http://localhost:${port} (STT relay at ${RELAY_PATH})`)
+  })
+})